@@ -0,0 +1,183 @@
+import { importPKCS8, jwtVerify, SignJWT, type JWTPayload } from 'jose';
+import { errorResponse, jsonResponse } from '@petube/shared';
+import type { OAuthFlow } from './auth-store';
+import { randomToken } from './crypto';
+import type { Env } from './env';
+import { IdTokenError, verifyIdToken } from './id-token';
+import { createRemoteJWKSCache } from './jwks';
+import { getActiveSigningKey, getVerificationKeySet } from './keys';
+import { completeLogin, getCookie, stateCookie, type ClientPlatform } from './oauth';
+import { getAuthStore } from './session';
+
+/**
+ * Sign in with Apple for the web page ('apple_web' flow: /auth/apple/*) and the iOS app ('apple_ios' flow: /devicelogin/apple*).
+ *
+ * Apple posts the callback back to us (response_mode=form_post), so the state cookie has to be SameSite=None.
+ * Apple doesn't support PKCE; the random value we store with the state is sent as the ID token `nonce` instead.
+ * The token endpoint's client secret is a short-lived ES256 JWT signed with the team's Sign in with Apple key.
+ *
+ * A signed-in user can link their Apple ID to their existing account via POST /auth/apple/link, which returns
+ * a login URL carrying a short-lived link token; later Apple logins then resolve to the same user id.
+ */
+
+type AppleFlow = Extract<OAuthFlow, 'apple_web' | 'apple_ios'>;
+
+const APPLE_ISSUER = 'https://appleid.apple.com';
+const APPLE_STATE_COOKIE = 'petube_apple_oauth_state';
+const LINK_TOKEN_AUDIENCE = 'petube:link-apple';
+
+// Apple's ID token signing keys, cached per isolate according to Apple's Cache-Control headers
+const appleJWKS = createRemoteJWKSCache('https://appleid.apple.com/auth/keys');
+
+function appleFlow(platform: ClientPlatform): AppleFlow {
+	return platform === 'ios' ? 'apple_ios' : 'apple_web';
+}
+
+function appleRedirectUri(flow: AppleFlow, origin: string): string {
+	return flow === 'apple_ios' ? 'https://auth.petube.workers.dev/devicelogin/apple/callback' : `${origin}/auth/apple/callback`;
+}
+
+// Client secret for Apple's token endpoint
+async function appleClientSecret(env: Env): Promise<string> {
+	const key = await importPKCS8(env.APPLE_PRIVATE_KEY, 'ES256');
+	return new SignJWT({})
+		.setProtectedHeader({ alg: 'ES256', kid: env.APPLE_KEY_ID })
+		.setIssuer(env.APPLE_TEAM_ID)
+		.setSubject(env.APPLE_CLIENT_ID)
+		.setAudience(APPLE_ISSUER)
+		.setIssuedAt()
+		.setExpirationTime('5m')
+		.sign(key);
+}
+
+export function verifyAppleIdToken(id_token: string, audience: string, getJWKS = appleJWKS): Promise<JWTPayload> {
+	return verifyIdToken(id_token, { provider: 'Apple', issuer: APPLE_ISSUER, audience, getJWKS });
+}
+
+// Short-lived token naming the user an Apple identity should be linked to; only the Apple login accepts it
+async function signLinkToken(env: Env, user_id: string): Promise<string> {
+	const { kid, key } = await getActiveSigningKey(env);
+	return new SignJWT({})
+		.setProtectedHeader({ alg: 'RS256', kid })
+		.setSubject(user_id)
+		.setAudience(LINK_TOKEN_AUDIENCE)
+		.setIssuedAt()
+		.setExpirationTime('10m')
+		.sign(key);
+}
+
+async function verifyLinkToken(env: Env, token: string): Promise<string | null> {
+	try {
+		const { payload } = await jwtVerify(token, getVerificationKeySet(env), { audience: LINK_TOKEN_AUDIENCE });
+		return payload.sub ?? null;
+	} catch {
+		return null;
+	}
+}
+
+// Start linking the caller's account to an Apple ID: returns the URL the client should open
+export async function createAppleLinkUrl(request: Request, env: Env, user_id: string): Promise<Response> {
+	const url = new URL(request.url);
+	const platform: ClientPlatform = url.searchParams.get('platform') === 'ios' ? 'ios' : 'web';
+	const loginPath = platform === 'ios' ? '/devicelogin/apple' : '/auth/apple/login';
+	const params = new URLSearchParams({ link_token: await signLinkToken(env, user_id) });
+	return jsonResponse({ url: `${url.origin}${loginPath}?${params.toString()}` });
+}
+
+// Redirect to Apple with a stored, cookie-bound state and a nonce
+export async function startAppleLogin(request: Request, env: Env, platform: ClientPlatform): Promise<Response> {
+	const url = new URL(request.url);
+	const flow = appleFlow(platform);
+	let linkUserId: string | undefined;
+	const linkToken = url.searchParams.get('link_token');
+	if (linkToken) {
+		linkUserId = (await verifyLinkToken(env, linkToken)) ?? undefined;
+		if (!linkUserId) return errorResponse(400, 'Invalid or expired link token', 'invalid_link_token');
+	}
+
+	const nonce = randomToken();
+	const state = await getAuthStore(env).createOAuthState(flow, nonce, linkUserId);
+	const params = new URLSearchParams({
+		client_id: env.APPLE_CLIENT_ID,
+		redirect_uri: appleRedirectUri(flow, url.origin),
+		response_type: 'code',
+		response_mode: 'form_post',
+		scope: 'name email',
+		state,
+		nonce,
+	});
+	return new Response(null, {
+		status: 302,
+		headers: {
+			Location: `${APPLE_ISSUER}/auth/authorize?${params.toString()}`,
+			'Set-Cookie': stateCookie(APPLE_STATE_COOKIE, state, 'None'),
+		},
+	});
+}
+
+// The `user` form field Apple sends on the very first authorization only
+function appleUserName(user: string | null): string | undefined {
+	if (!user) return undefined;
+	try {
+		const { name } = JSON.parse(user) as { name?: { firstName?: string; lastName?: string } };
+		const fullName = [name?.firstName, name?.lastName].filter(Boolean).join(' ');
+		return fullName || undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+// Exchange the posted code, verify Apple's ID token, resolve (or link) the identity and start our own session
+export async function handleAppleCallback(request: Request, env: Env, platform: ClientPlatform): Promise<Response> {
+	if (request.method !== 'POST') return errorResponse(405, 'Method Not Allowed');
+	const flow = appleFlow(platform);
+	const form = await request.formData();
+	const error = form.get('error');
+	if (typeof error === 'string') return errorResponse(400, `Apple sign-in failed: ${error}`, error);
+	const code = form.get('code');
+	const state = form.get('state');
+	if (typeof code !== 'string' || !code) return errorResponse(400, 'Missing code');
+	if (typeof state !== 'string' || !state || getCookie(request, APPLE_STATE_COOKIE) !== state) {
+		return errorResponse(400, 'Invalid or expired state', 'invalid_state');
+	}
+	const login = await getAuthStore(env).consumeOAuthState(state, flow);
+	if (!login) return errorResponse(400, 'Invalid or expired state', 'invalid_state');
+
+	const tokenRes = await fetch(`${APPLE_ISSUER}/auth/token`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+		body: new URLSearchParams({
+			client_id: env.APPLE_CLIENT_ID,
+			client_secret: await appleClientSecret(env),
+			code,
+			grant_type: 'authorization_code',
+			redirect_uri: appleRedirectUri(flow, new URL(request.url).origin),
+		}),
+	});
+	const tokenData = await tokenRes.json<{ id_token?: string }>();
+	if (!tokenData.id_token) {
+		return jsonResponse(tokenData, { status: 400 });
+	}
+
+	let payload: JWTPayload;
+	try {
+		payload = await verifyAppleIdToken(tokenData.id_token, env.APPLE_CLIENT_ID);
+	} catch (err) {
+		if (!(err instanceof IdTokenError)) throw err;
+		console.warn(`[Apple] ${flow} login rejected: ${err.reason}: ${err.message}`);
+		return errorResponse(401, `Invalid Apple token: ${err.message}`, err.reason);
+	}
+	if (payload.nonce !== login.code_verifier) {
+		return errorResponse(401, 'Invalid Apple token: nonce mismatch', 'nonce_mismatch');
+	}
+
+	const user = form.get('user');
+	const identity = await getAuthStore(env).resolveIdentity(
+		'apple',
+		payload.sub!,
+		{ email: payload.email as string | undefined, name: appleUserName(typeof user === 'string' ? user : null) },
+		login.link_user_id
+	);
+	if ('error' in identity) return errorResponse(409, 'This Apple ID is already linked to another account', identity.error);
+	return completeLogin(env, platform, identity.claims, stateCookie(APPLE_STATE_COOKIE, '', 'None'));
+}
@@ -0,0 +1,463 @@
+import { DurableObject } from 'cloudflare:workers';
+import { randomToken, sha256Hex } from './crypto';
+
+/**
+ * AuthStore Durable Object keeps the server-side auth state of the auth worker
+ * (a single global instance, like DeviceManager in device-management).
+ *
+ * Refresh tokens are opaque random strings; only their SHA-256 hash is stored.
+ * Every login starts a token family. Each refresh rotates the token within its family,
+ * and presenting an already-rotated token revokes the whole family (reuse detection). Clients refresh on every
+ * API call, so a token rotated in the last few seconds is still exchanged (for another token in the family)
+ * instead of counting as reuse: concurrent refreshes with the same token don't log the user out.
+ *
+ * OAuth `state` values are single-use: a callback consumes the row, so replays are rejected.
+ *
+ * Device authorizations back the device-code login (RFC 8628 style) for headless cameras: the device polls
+ * with its secret device code while the owner approves the short user code from a signed-in phone.
+ *
+ * Identities map a provider account (Google or Apple `sub`) to our user id. A Google account keeps its `sub`
+ * as the user id, so existing devices and groups stay attached; an Apple account either gets its own
+ * `apple:<sub>` id or is linked to an existing user id.
+ *
+ * Access tokens can be revoked individually (by `jti`, until they expire), with their session (`sid`: a token
+ * is revoked once its refresh token family is) or all at once per user ("log out everywhere": every family of
+ * the user, plus a cutoff for older tokens without `sid`). Other workers ask the auth worker's /auth/introspect
+ * endpoint, which checks this revocation list.
+ */
+
+// Login flows: Google and Apple, each for the web page and the iOS app
+export type OAuthFlow = 'web' | 'ios' | 'apple_web' | 'apple_ios';
+
+export type IdentityProvider = 'google' | 'apple';
+
+// Profile data a provider gave us at login; Apple only sends the name on the very first authorization
+export interface IdentityProfile {
+	email?: string;
+	name?: string;
+}
+
+export type IdentityResult = { claims: SessionClaims } | { error: 'identity_already_linked' };
+
+// A started login: the PKCE verifier (or Apple nonce) and the user an Apple identity is being linked to
+export interface OAuthLogin {
+	code_verifier: string;
+	link_user_id: string | null;
+}
+
+// Claims copied into every access token minted for a session
+export interface SessionClaims {
+	id: string;
+	email?: string;
+	name?: string;
+	device_id?: string; // Device-code sessions are bound to one DeviceManager device
+}
+
+// Errors are returned rather than thrown: custom error properties don't survive RPC
+export type RefreshResult =
+	| { refresh_token: string; session_id: string; claims: SessionClaims }
+	| { error: 'invalid_refresh_token' | 'refresh_token_reused' | 'refresh_token_expired' };
+
+// A device-code login waiting for approval, as shown to the approving owner
+export interface PendingDeviceAuthorization {
+	user_code: string;
+	device_name: string;
+	device_identifier: string; // Made up for this authorization, so approving it registers a new device
+	expires_at: number;
+}
+
+// RFC 8628 error codes are returned as-is to the polling device
+export type DevicePollResult =
+	| { claims: SessionClaims }
+	| { error: 'authorization_pending' | 'slow_down' | 'access_denied' | 'expired_token' | 'invalid_grant' };
+
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const REFRESH_REUSE_GRACE_MS = 30 * 1000; // 30 seconds
+const OAUTH_STATE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+const DEVICE_CODE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+export const DEVICE_POLL_INTERVAL_SECONDS = 5;
+
+// User codes avoid vowels (no accidental words) and look-alike characters, e.g. "BDKM-QRTW"
+const USER_CODE_ALPHABET = 'BCDFGHJKLMNPQRSTVWXZ';
+
+function newUserCode(): string {
+	const bytes = crypto.getRandomValues(new Uint8Array(8));
+	const chars = Array.from(bytes, (b) => USER_CODE_ALPHABET[b % USER_CODE_ALPHABET.length]);
+	return `${chars.slice(0, 4).join('')}-${chars.slice(4).join('')}`;
+}
+
+// Accept user codes typed in lower case, with or without the dash
+export function normalizeUserCode(user_code: string): string {
+	const code = user_code.toUpperCase().replace(/[^A-Z]/g, '');
+	return code.length === 8 ? `${code.slice(0, 4)}-${code.slice(4)}` : code;
+}
+
+async function newRefreshToken(): Promise<{ token: string; hash: string }> {
+	const token = randomToken();
+	return { token, hash: await sha256Hex(token) };
+}
+
+export class AuthStore extends DurableObject {
+	private sql: SqlStorage;
+
+	constructor(ctx: DurableObjectState, env: unknown) {
+		super(ctx, env);
+		this.sql = ctx.storage.sql;
+		this.initializeSchema();
+	}
+
+	private initializeSchema(): void {
+		this.sql.exec(`
+			CREATE TABLE IF NOT EXISTS refresh_tokens (
+				token_hash TEXT PRIMARY KEY,
+				family_id TEXT NOT NULL,
+				user_id TEXT NOT NULL,
+				claims TEXT NOT NULL,
+				created_at INTEGER NOT NULL,
+				expires_at INTEGER NOT NULL,
+				rotated_at INTEGER,
+				revoked_at INTEGER
+			)
+		`);
+		this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_refresh_tokens_family_id ON refresh_tokens(family_id)`);
+		this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_refresh_tokens_user_id ON refresh_tokens(user_id)`);
+		this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_refresh_tokens_expires_at ON refresh_tokens(expires_at)`);
+
+		this.sql.exec(`
+			CREATE TABLE IF NOT EXISTS oauth_states (
+				state TEXT PRIMARY KEY,
+				flow TEXT NOT NULL,
+				code_verifier TEXT NOT NULL,
+				expires_at INTEGER NOT NULL
+			)
+		`);
+		this.addColumnIfMissing('oauth_states', 'link_user_id', 'TEXT');
+
+		this.sql.exec(`
+			CREATE TABLE IF NOT EXISTS device_authorizations (
+				device_code_hash TEXT PRIMARY KEY,
+				user_code TEXT NOT NULL UNIQUE,
+				device_name TEXT NOT NULL,
+				device_identifier TEXT,
+				status TEXT NOT NULL, -- 'pending', 'approved' or 'denied'
+				claims TEXT, -- Session claims, set on approval
+				poll_interval INTEGER NOT NULL, -- seconds
+				last_polled_at INTEGER,
+				expires_at INTEGER NOT NULL
+			)
+		`);
+
+		this.sql.exec(`
+			CREATE TABLE IF NOT EXISTS identities (
+				provider TEXT NOT NULL,
+				subject TEXT NOT NULL,
+				user_id TEXT NOT NULL,
+				email TEXT,
+				name TEXT,
+				created_at INTEGER NOT NULL,
+				PRIMARY KEY (provider, subject)
+			)
+		`);
+		this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_identities_user_id ON identities(user_id)`);
+
+		this.sql.exec(`
+			CREATE TABLE IF NOT EXISTS revoked_tokens (
+				jti TEXT PRIMARY KEY,
+				expires_at INTEGER NOT NULL
+			)
+		`);
+		this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_revoked_tokens_expires_at ON revoked_tokens(expires_at)`);
+
+		this.sql.exec(`
+			CREATE TABLE IF NOT EXISTS user_revocations (
+				user_id TEXT PRIMARY KEY,
+				revoked_before INTEGER NOT NULL -- seconds, compared against the iat of tokens without sid
+			)
+		`);
+	}
+
+	// Helper: add a column to an existing table (CREATE TABLE IF NOT EXISTS won't alter it)
+	private addColumnIfMissing(table: string, column: string, definition: string): void {
+		const columns = this.sql.exec(`PRAGMA table_info(${table})`).toArray();
+		if (!columns.some((c) => c.name === column)) {
+			this.sql.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+		}
+	}
+
+	private insertRefreshToken(token_hash: string, family_id: string, claims: SessionClaims): void {
+		const now = Date.now();
+		this.sql.exec(
+			`
+			INSERT INTO refresh_tokens (token_hash, family_id, user_id, claims, created_at, expires_at)
+			VALUES (?, ?, ?, ?, ?, ?)
+		`,
+			token_hash,
+			family_id,
+			claims.id,
+			JSON.stringify(claims),
+			now,
+			now + REFRESH_TOKEN_TTL_MS
+		);
+	}
+
+	// Start a new token family (session) for a fresh login
+	async createRefreshToken(claims: SessionClaims): Promise<{ refresh_token: string; session_id: string }> {
+		const { token, hash } = await newRefreshToken();
+		const session_id = crypto.randomUUID();
+		// Expired tokens are never useful again, drop them opportunistically
+		this.sql.exec(`DELETE FROM refresh_tokens WHERE expires_at < ?`, Date.now());
+		this.insertRefreshToken(hash, session_id, claims);
+		return { refresh_token: token, session_id };
+	}
+
+	// Exchange a refresh token for a new one in the same family
+	async rotateRefreshToken(refresh_token: string): Promise<RefreshResult> {
+		// Hash up front so the lookup, the reuse check and the rotation run without yielding
+		const token_hash = await sha256Hex(refresh_token);
+		const next = await newRefreshToken();
+		const row = this.sql
+			.exec(
+				`
+			SELECT family_id, user_id, claims, expires_at, rotated_at, revoked_at
+			FROM refresh_tokens
+			WHERE token_hash = ?
+		`,
+				token_hash
+			)
+			.toArray()[0];
+
+		if (!row || row.revoked_at !== null) {
+			return { error: 'invalid_refresh_token' };
+		}
+
+		const family_id = row.family_id as string;
+		const now = Date.now();
+		if (row.rotated_at !== null && now - Number(row.rotated_at) > REFRESH_REUSE_GRACE_MS) {
+			// Someone is replaying an old token: assume it leaked and kill the whole session
+			this.revokeFamily(family_id);
+			console.warn(`[AuthStore] Refresh token reuse detected for user ${row.user_id}, family ${family_id} revoked`);
+			return { error: 'refresh_token_reused' };
+		}
+
+		if (now > Number(row.expires_at)) {
+			return { error: 'refresh_token_expired' };
+		}
+
+		// Within the grace window keep the first rotation time, so repeated refreshes can't extend it
+		this.sql.exec(`UPDATE refresh_tokens SET rotated_at = COALESCE(rotated_at, ?) WHERE token_hash = ?`, now, token_hash);
+		const claims = JSON.parse(row.claims as string) as SessionClaims;
+		this.insertRefreshToken(next.hash, family_id, claims);
+		return { refresh_token: next.token, session_id: family_id, claims };
+	}
+
+	// Revoke every token in a family
+	revokeFamily(family_id: string): void {
+		this.sql.exec(`UPDATE refresh_tokens SET revoked_at = ? WHERE family_id = ? AND revoked_at IS NULL`, Date.now(), family_id);
+	}
+
+	// Log out one session: revoke its access token (by jti, until it expires) and its refresh tokens
+	async revokeSession(jti: string, expires_at: number, session_id?: string): Promise<void> {
+		this.sql.exec(`DELETE FROM revoked_tokens WHERE expires_at < ?`, Math.floor(Date.now() / 1000));
+		this.sql.exec(`INSERT OR IGNORE INTO revoked_tokens (jti, expires_at) VALUES (?, ?)`, jti, expires_at);
+		if (session_id) {
+			this.revokeFamily(session_id);
+		}
+	}
+
+	// Log out everywhere: every access token issued so far and every refresh token of the user
+	async revokeAllForUser(user_id: string): Promise<void> {
+		const now = Date.now();
+		this.sql.exec(
+			`
+			INSERT INTO user_revocations (user_id, revoked_before) VALUES (?, ?)
+			ON CONFLICT(user_id) DO UPDATE SET revoked_before = excluded.revoked_before
+		`,
+			user_id,
+			Math.floor(now / 1000)
+		);
+		this.sql.exec(`UPDATE refresh_tokens SET revoked_at = ? WHERE user_id = ? AND revoked_at IS NULL`, now, user_id);
+		console.log(`[AuthStore] All sessions revoked for user ${user_id}`);
+	}
+
+	// Check an access token against the revocation list. A token with a session is revoked exactly when its family
+	// is, so one issued by a new login in the same second as a log out everywhere stays valid; `iat` is whole
+	// seconds, and the per-user cutoff is only used for tokens without `sid`.
+	async isAccessTokenRevoked(user_id: string, iat: number, jti?: string, session_id?: string): Promise<boolean> {
+		if (jti && this.sql.exec(`SELECT 1 FROM revoked_tokens WHERE jti = ?`, jti).toArray().length > 0) {
+			return true;
+		}
+		if (session_id) {
+			return this.sql.exec(`SELECT 1 FROM refresh_tokens WHERE family_id = ? AND revoked_at IS NOT NULL LIMIT 1`, session_id).toArray().length > 0;
+		}
+		const row = this.sql.exec(`SELECT revoked_before FROM user_revocations WHERE user_id = ?`, user_id).toArray()[0];
+		return !!row && iat <= Number(row.revoked_before);
+	}
+
+	// Remember the state and PKCE verifier of a login that is being started
+	async createOAuthState(flow: OAuthFlow, code_verifier: string, link_user_id?: string): Promise<string> {
+		const state = randomToken();
+		const now = Date.now();
+		this.sql.exec(`DELETE FROM oauth_states WHERE expires_at < ?`, now);
+		this.sql.exec(
+			`INSERT INTO oauth_states (state, flow, code_verifier, link_user_id, expires_at) VALUES (?, ?, ?, ?, ?)`,
+			state,
+			flow,
+			code_verifier,
+			link_user_id ?? null,
+			now + OAUTH_STATE_TTL_MS
+		);
+		return state;
+	}
+
+	// Look up and delete a state; returns the started login, or null if unknown, expired, replayed or from another flow
+	async consumeOAuthState(state: string, flow: OAuthFlow): Promise<OAuthLogin | null> {
+		const row = this.sql.exec(`SELECT flow, code_verifier, link_user_id, expires_at FROM oauth_states WHERE state = ?`, state).toArray()[0];
+		if (!row) {
+			return null;
+		}
+		this.sql.exec(`DELETE FROM oauth_states WHERE state = ?`, state);
+		if (row.flow !== flow || Date.now() > Number(row.expires_at)) {
+			return null;
+		}
+		return { code_verifier: row.code_verifier as string, link_user_id: row.link_user_id as string | null };
+	}
+
+	// Start a device-code login for a headless device
+	async createDeviceAuthorization(device_name: string): Promise<{ device_code: string; user_code: string; expires_at: number; interval: number }> {
+		const device_code = randomToken();
+		const device_code_hash = await sha256Hex(device_code);
+		const now = Date.now();
+		this.sql.exec(`DELETE FROM device_authorizations WHERE expires_at < ?`, now);
+
+		let user_code = newUserCode();
+		while (this.sql.exec(`SELECT 1 FROM device_authorizations WHERE user_code = ?`, user_code).toArray().length > 0) {
+			user_code = newUserCode();
+		}
+		const expires_at = now + DEVICE_CODE_TTL_MS;
+		this.sql.exec(
+			`
+			INSERT INTO device_authorizations (device_code_hash, user_code, device_name, device_identifier, status, poll_interval, expires_at)
+			VALUES (?, ?, ?, ?, 'pending', ?, ?)
+		`,
+			device_code_hash,
+			user_code,
+			device_name,
+			`device-code:${crypto.randomUUID()}`,
+			DEVICE_POLL_INTERVAL_SECONDS,
+			expires_at
+		);
+		return { device_code, user_code, expires_at, interval: DEVICE_POLL_INTERVAL_SECONDS };
+	}
+
+	// Look up a device-code login that is still waiting for approval
+	async getPendingDeviceAuthorization(user_code: string): Promise<PendingDeviceAuthorization | null> {
+		const row = this.sql
+			.exec(
+				`SELECT user_code, device_name, device_identifier, expires_at FROM device_authorizations WHERE user_code = ? AND status = 'pending' AND expires_at > ?`,
+				normalizeUserCode(user_code),
+				Date.now()
+			)
+			.toArray()[0];
+		if (!row) {
+			return null;
+		}
+		return {
+			user_code: row.user_code as string,
+			device_name: row.device_name as string,
+			device_identifier: row.device_identifier as string,
+			expires_at: Number(row.expires_at),
+		};
+	}
+
+	// Approve (with the session claims the device will get) or deny a pending device-code login.
+	// Returns false if the code is unknown, expired or already decided.
+	async decideDeviceAuthorization(user_code: string, claims: SessionClaims | null): Promise<boolean> {
+		const cursor = this.sql.exec(
+			`UPDATE device_authorizations SET status = ?, claims = ? WHERE user_code = ? AND status = 'pending' AND expires_at > ?`,
+			claims ? 'approved' : 'denied',
+			claims ? JSON.stringify(claims) : null,
+			normalizeUserCode(user_code),
+			Date.now()
+		);
+		return cursor.rowsWritten > 0;
+	}
+
+	// Poll from the device. An approved authorization is handed out once and then deleted.
+	async pollDeviceAuthorization(device_code: string): Promise<DevicePollResult> {
+		const device_code_hash = await sha256Hex(device_code);
+		const row = this.sql
+			.exec(
+				`SELECT status, claims, poll_interval, last_polled_at, expires_at FROM device_authorizations WHERE device_code_hash = ?`,
+				device_code_hash
+			)
+			.toArray()[0];
+		if (!row) {
+			return { error: 'invalid_grant' };
+		}
+
+		const now = Date.now();
+		if (now > Number(row.expires_at)) {
+			this.sql.exec(`DELETE FROM device_authorizations WHERE device_code_hash = ?`, device_code_hash);
+			return { error: 'expired_token' };
+		}
+		if (row.status === 'denied') {
+			this.sql.exec(`DELETE FROM device_authorizations WHERE device_code_hash = ?`, device_code_hash);
+			return { error: 'access_denied' };
+		}
+		if (row.status === 'approved') {
+			this.sql.exec(`DELETE FROM device_authorizations WHERE device_code_hash = ?`, device_code_hash);
+			return { claims: JSON.parse(row.claims as string) as SessionClaims };
+		}
+
+		// Still pending: devices that poll faster than the interval are told to back off by 5 more seconds
+		const interval = Number(row.poll_interval);
+		if (row.last_polled_at !== null && now - Number(row.last_polled_at) < interval * 1000) {
+			this.sql.exec(
+				`UPDATE device_authorizations SET poll_interval = ?, last_polled_at = ? WHERE device_code_hash = ?`,
+				interval + 5,
+				now,
+				device_code_hash
+			);
+			return { error: 'slow_down' };
+		}
+		this.sql.exec(`UPDATE device_authorizations SET last_polled_at = ? WHERE device_code_hash = ?`, now, device_code_hash);
+		return { error: 'authorization_pending' };
+	}
+
+	// Map a provider account to our user id, creating or linking the identity as needed.
+	// With `link_user_id` the identity is attached to that user, unless it already belongs to someone else.
+	async resolveIdentity(provider: IdentityProvider, subject: string, profile: IdentityProfile, link_user_id?: string | null): Promise<IdentityResult> {
+		const existing = this.sql.exec(`SELECT user_id, email, name FROM identities WHERE provider = ? AND subject = ?`, provider, subject).toArray()[0];
+		if (existing && link_user_id && existing.user_id !== link_user_id) {
+			return { error: 'identity_already_linked' };
+		}
+
+		// Google keeps its subject as the user id, which is what every user id was before identities existed
+		const user_id = (existing?.user_id as string | undefined) ?? link_user_id ?? (provider === 'google' ? subject : `${provider}:${subject}`);
+		const email = profile.email ?? (existing?.email as string | null) ?? undefined;
+		const name = profile.name ?? (existing?.name as string | null) ?? this.anyIdentityName(user_id);
+
+		this.sql.exec(
+			`
+			INSERT INTO identities (provider, subject, user_id, email, name, created_at) VALUES (?, ?, ?, ?, ?, ?)
+			ON CONFLICT(provider, subject) DO UPDATE SET email = excluded.email, name = excluded.name
+		`,
+			provider,
+			subject,
+			user_id,
+			email ?? null,
+			name ?? null,
+			Date.now()
+		);
+		if (!existing && link_user_id) {
+			console.log(`[AuthStore] Linked ${provider} identity to user ${user_id}`);
+		}
+		return { claims: { id: user_id, email, name } };
+	}
+
+	// Name from any of the user's identities, for providers that don't send one on every login
+	private anyIdentityName(user_id: string): string | undefined {
+		const row = this.sql.exec(`SELECT name FROM identities WHERE user_id = ? AND name IS NOT NULL LIMIT 1`, user_id).toArray()[0];
+		return row ? (row.name as string) : undefined;
+	}
+}
@@ -0,0 +1,21 @@
+// Small Web Crypto helpers shared by the auth worker and AuthStore
+
+export function base64url(bytes: Uint8Array): string {
+	return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+// 256 bits of randomness, base64url-encoded (43 chars, also a valid PKCE code verifier)
+export function randomToken(): string {
+	return base64url(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+export async function sha256Hex(value: string): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+	return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// S256 code challenge for a PKCE code verifier (RFC 7636)
+export async function pkceChallenge(codeVerifier: string): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+	return base64url(new Uint8Array(digest));
+}
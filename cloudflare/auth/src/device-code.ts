@@ -0,0 +1,128 @@
+import { AuthError, errorResponse, jsonResponse, type AccessTokenClaims } from '@petube/shared';
+import type { Env } from './env';
+import { ACCESS_TOKEN_TTL_SECONDS, createSession, getAuthStore } from './session';
+
+/**
+ * Device-code login (OAuth 2.0 device authorization grant, RFC 8628 style) for headless cameras:
+ * a spare laptop, a browser kiosk or a smart TV that can't complete an interactive OAuth redirect.
+ *
+ * 1. The device calls POST /auth/device/code and shows the short `user_code`.
+ * 2. The owner opens the verification URL on a signed-in phone, checks the device name via
+ *    GET /auth/device?user_code=..., and approves (POST /auth/device/approve) or denies it.
+ *    Approving registers the device with DeviceManager under the owner's account, always as a new device: its
+ *    identifier is made up by the server for this authorization, never chosen by the (unauthenticated) device.
+ * 3. Meanwhile the device polls POST /auth/device/token with its `device_code` and, once approved,
+ *    gets a session whose tokens carry the registered `device_id` and may only act as that device.
+ */
+
+const VERIFICATION_URI = 'https://mixtura.github.io/petube/';
+
+interface RegisteredDevice {
+	device_id: string;
+	device_name: string;
+}
+
+async function readJson<T>(request: Request): Promise<Partial<T>> {
+	try {
+		return await request.json<Partial<T>>();
+	} catch {
+		return {};
+	}
+}
+
+// Step 1: the device asks for a code pair
+export async function handleDeviceCodeRequest(request: Request, env: Env): Promise<Response> {
+	if (request.method !== 'POST') return errorResponse(405, 'Method Not Allowed');
+	const { device_name } = await readJson<{ device_name: string }>(request);
+	const name = typeof device_name === 'string' && device_name.trim() ? device_name.trim().slice(0, 64) : 'Camera';
+
+	const { device_code, user_code, expires_at, interval } = await getAuthStore(env).createDeviceAuthorization(name);
+	return jsonResponse({
+		device_code,
+		user_code,
+		verification_uri: VERIFICATION_URI,
+		verification_uri_complete: `${VERIFICATION_URI}?${new URLSearchParams({ user_code }).toString()}`,
+		expires_in: Math.round((expires_at - Date.now()) / 1000),
+		interval,
+	});
+}
+
+// Step 3: the device polls until the owner has decided
+export async function handleDeviceTokenRequest(request: Request, env: Env): Promise<Response> {
+	if (request.method !== 'POST') return errorResponse(405, 'Method Not Allowed');
+	const { device_code } = await readJson<{ device_code: string }>(request);
+	if (typeof device_code !== 'string' || !device_code) {
+		return errorResponse(400, 'invalid_request');
+	}
+	const result = await getAuthStore(env).pollDeviceAuthorization(device_code);
+	if ('error' in result) {
+		return errorResponse(400, result.error);
+	}
+	const { token, refresh_token } = await createSession(env, result.claims);
+	return jsonResponse({ token, refresh_token, expires_in: ACCESS_TOKEN_TTL_SECONDS, device_id: result.claims.device_id });
+}
+
+// A device-bound token must not approve other devices
+function assertNotDeviceToken(claims: AccessTokenClaims): void {
+	if (claims.device_id) {
+		throw new AuthError('device_mismatch', 'Device tokens cannot approve device logins');
+	}
+}
+
+// Step 2a: show the owner which device is asking
+export async function handleDeviceLookup(request: Request, env: Env, claims: AccessTokenClaims): Promise<Response> {
+	assertNotDeviceToken(claims);
+	const user_code = new URL(request.url).searchParams.get('user_code');
+	if (!user_code) return errorResponse(400, 'user_code parameter is required');
+	const pending = await getAuthStore(env).getPendingDeviceAuthorization(user_code);
+	if (!pending) return errorResponse(404, 'Unknown or expired code', 'invalid_user_code');
+	return jsonResponse({ user_code: pending.user_code, device_name: pending.device_name, expires_at: pending.expires_at });
+}
+
+// Step 2b: approve (registering the device for the owner) or deny
+export async function handleDeviceDecision(
+	request: Request,
+	env: Env,
+	claims: AccessTokenClaims,
+	token: string,
+	approve: boolean
+): Promise<Response> {
+	if (request.method !== 'POST') return errorResponse(405, 'Method Not Allowed');
+	assertNotDeviceToken(claims);
+	const { user_code } = await readJson<{ user_code: string }>(request);
+	if (typeof user_code !== 'string' || !user_code) return errorResponse(400, 'user_code is required');
+
+	const store = getAuthStore(env);
+	const pending = await store.getPendingDeviceAuthorization(user_code);
+	if (!pending) return errorResponse(404, 'Unknown or expired code', 'invalid_user_code');
+
+	if (!approve) {
+		await store.decideDeviceAuthorization(pending.user_code, null);
+		return jsonResponse({ success: true });
+	}
+
+	const registerRes = await env.DEVICE_MANAGEMENT.fetch('https://device-management/devices/register', {
+		method: 'POST',
+		headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+		body: JSON.stringify({
+			device_name: pending.device_name,
+			device_type: 'web',
+			device_identifier: pending.device_identifier,
+		}),
+	});
+	if (!registerRes.ok) {
+		console.error(`[DeviceCode] Device registration failed with status ${registerRes.status} for user ${claims.id}`);
+		return errorResponse(502, 'Device registration failed', 'device_registration_failed');
+	}
+	const device = await registerRes.json<RegisteredDevice>();
+
+	const approved = await store.decideDeviceAuthorization(pending.user_code, {
+		id: claims.id,
+		email: claims.email,
+		name: claims.name,
+		device_id: device.device_id,
+	});
+	if (!approved) return errorResponse(409, 'Code was already used', 'invalid_user_code');
+	console.log(`[DeviceCode] Device login approved by user ${claims.id} for device ${device.device_id}`);
+	return jsonResponse({ success: true, device_id: device.device_id, device_name: device.device_name });
+}
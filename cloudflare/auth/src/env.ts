@@ -0,0 +1,26 @@
+import type { AuthStore } from './auth-store';
+
+// AccountRooms (stream-control worker) methods called over RPC
+export interface AccountRoomsRpc extends Rpc.DurableObjectBranded {
+	disconnectUser(user_id: string, session_id: string | null): Promise<number>;
+}
+
+// Bindings and secrets of the auth worker
+export interface Env {
+	GOOGLE_CLIENT_ID: string;
+	GOOGLE_CLIENT_SECRET: string;
+	GOOGLE_IOS_CLIENT_ID: string;
+	GOOGLE_IOS_CLIENT_SECRET: string;
+	APPLE_CLIENT_ID: string; // Services ID used for Sign in with Apple
+	APPLE_TEAM_ID: string;
+	APPLE_KEY_ID: string;
+	APPLE_PRIVATE_KEY: string; // PKCS#8 PEM of the Sign in with Apple key, signs the token endpoint client secret
+	JWT_SIGNING_KEYS?: string; // JSON array of kid-tagged private JWKs, see keys.ts
+	JWT_PRIVATE_KEY?: string; // Legacy single signing key
+	AGORA_APP_ID: string;
+	AGORA_APP_CERTIFICATE: string;
+	DEVICE_MANAGEMENT: Fetcher;
+	STREAM_CONTROL: Fetcher; // Room admission (viewer and per-account limits) before issuing Agora tokens
+	AUTH_STORE: DurableObjectNamespace<AuthStore>;
+	ACCOUNT_ROOMS: DurableObjectNamespace<AccountRoomsRpc>; // The rooms each user is in, to close their sockets on logout
+}
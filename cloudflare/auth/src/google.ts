@@ -0,0 +1,127 @@
+import type { JWTPayload } from 'jose';
+import { errorResponse, jsonResponse } from '@petube/shared';
+import type { OAuthFlow } from './auth-store';
+import { pkceChallenge, randomToken } from './crypto';
+import type { Env } from './env';
+import { IdTokenError, verifyIdToken } from './id-token';
+import { createRemoteJWKSCache } from './jwks';
+import { completeLogin, getCookie, stateCookie } from './oauth';
+import { getAuthStore } from './session';
+
+/**
+ * Google sign-in for the web page ('web' flow: /auth/google/*) and the iOS app ('ios' flow: /devicelogin*).
+ * Both use the authorization code flow with a stored, cookie-bound `state` and S256 PKCE.
+ */
+
+type GoogleFlow = Extract<OAuthFlow, 'web' | 'ios'>;
+
+interface GoogleClient {
+	client_id: string;
+	client_secret: string;
+	redirect_uri: string;
+}
+
+function googleClient(env: Env, flow: GoogleFlow, origin: string): GoogleClient {
+	if (flow === 'ios') {
+		return {
+			client_id: env.GOOGLE_IOS_CLIENT_ID,
+			client_secret: env.GOOGLE_IOS_CLIENT_SECRET,
+			redirect_uri: 'https://auth.petube.workers.dev/devicelogin/callback',
+		};
+	}
+	return {
+		client_id: env.GOOGLE_CLIENT_ID,
+		client_secret: env.GOOGLE_CLIENT_SECRET,
+		redirect_uri: `${origin}/auth/google/callback`,
+	};
+}
+
+const OAUTH_STATE_COOKIE = 'petube_oauth_state';
+
+// Google's ID token signing keys, cached per isolate according to Google's Cache-Control headers
+const googleJWKS = createRemoteJWKSCache('https://www.googleapis.com/oauth2/v3/certs');
+
+// Google issues ID tokens under both forms of its issuer
+const GOOGLE_ISSUERS = ['https://accounts.google.com', 'accounts.google.com'];
+
+export function verifyGoogleIdToken(id_token: string, audience: string, getJWKS = googleJWKS): Promise<JWTPayload> {
+	return verifyIdToken(id_token, { provider: 'Google', issuer: GOOGLE_ISSUERS, audience, getJWKS });
+}
+
+// Redirect to Google with a stored, cookie-bound state and an S256 PKCE challenge
+export async function startGoogleLogin(request: Request, env: Env, flow: GoogleFlow): Promise<Response> {
+	const { client_id, redirect_uri } = googleClient(env, flow, new URL(request.url).origin);
+	const codeVerifier = randomToken();
+	const state = await getAuthStore(env).createOAuthState(flow, codeVerifier);
+	const params = new URLSearchParams({
+		client_id,
+		redirect_uri,
+		response_type: 'code',
+		scope: 'openid email profile',
+		state,
+		code_challenge: await pkceChallenge(codeVerifier),
+		code_challenge_method: 'S256',
+		access_type: 'offline',
+		prompt: 'consent',
+	});
+	return new Response(null, {
+		status: 302,
+		headers: {
+			Location: `https://accounts.google.com/o/oauth2/v2/auth?${params.toString()}`,
+			'Set-Cookie': stateCookie(OAUTH_STATE_COOKIE, state),
+		},
+	});
+}
+
+// Check the callback's state against the cookie and consume it; returns the PKCE verifier or null
+async function consumeGoogleLoginState(request: Request, env: Env, flow: GoogleFlow): Promise<string | null> {
+	const state = new URL(request.url).searchParams.get('state');
+	if (!state || getCookie(request, OAUTH_STATE_COOKIE) !== state) return null;
+	const login = await getAuthStore(env).consumeOAuthState(state, flow);
+	return login?.code_verifier ?? null;
+}
+
+// Exchange the code, verify Google's ID token and start our own session
+export async function handleGoogleCallback(request: Request, env: Env, flow: GoogleFlow): Promise<Response> {
+	if (request.method !== 'GET') return errorResponse(405, 'Method Not Allowed');
+	const url = new URL(request.url);
+	const code = url.searchParams.get('code');
+	if (!code) return errorResponse(400, 'Missing code');
+	const codeVerifier = await consumeGoogleLoginState(request, env, flow);
+	if (!codeVerifier) return errorResponse(400, 'Invalid or expired state', 'invalid_state');
+
+	const { client_id, client_secret, redirect_uri } = googleClient(env, flow, url.origin);
+	const tokenRes = await fetch('https://oauth2.googleapis.com/token', {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+		body: new URLSearchParams({
+			code,
+			client_id,
+			client_secret,
+			redirect_uri,
+			grant_type: 'authorization_code',
+			code_verifier: codeVerifier,
+		}),
+	});
+	const tokenData = await tokenRes.json<{ id_token?: string }>();
+	if (!tokenData.id_token) {
+		return jsonResponse(tokenData, { status: 400 });
+	}
+
+	let payload: JWTPayload;
+	try {
+		payload = await verifyGoogleIdToken(tokenData.id_token, client_id);
+	} catch (err) {
+		if (!(err instanceof IdTokenError)) throw err;
+		console.warn(`[Google] ${flow} login rejected: ${err.reason}: ${err.message}`);
+		return errorResponse(401, `Invalid Google token: ${err.message}`, err.reason);
+	}
+
+	const identity = await getAuthStore(env).resolveIdentity('google', payload.sub!, {
+		email: payload.email as string | undefined,
+		name: payload.name as string | undefined,
+	});
+	if ('error' in identity) return errorResponse(409, 'Google account is linked to another user', identity.error);
+	// Issue our own access token plus a refresh token for silent renewal
+	return completeLogin(env, flow, identity.claims, stateCookie(OAUTH_STATE_COOKIE, ''));
+}
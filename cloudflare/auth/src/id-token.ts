@@ -0,0 +1,86 @@
+import { createLocalJWKSet, decodeProtectedHeader, errors, jwtVerify, type JSONWebKeySet, type JWTPayload } from 'jose';
+
+/**
+ * Verification of ID tokens from third-party identity providers (Google, Apple).
+ * The signing key is picked by `kid` from the provider's cached key set (see jwks.ts),
+ * and every failure carries a specific reason so login problems can be told apart.
+ */
+
+export interface IdTokenIssuer {
+	provider: string; // Display name used in error messages
+	issuer: string | string[];
+	audience: string;
+	getJWKS: (kid?: string) => Promise<JSONWebKeySet>;
+}
+
+export type IdTokenFailure =
+	| 'malformed_id_token'
+	| 'unknown_signing_key'
+	| 'invalid_signature'
+	| 'id_token_expired'
+	| 'wrong_audience'
+	| 'wrong_issuer'
+	| 'email_not_verified'
+	| 'provider_keys_unavailable';
+
+export class IdTokenError extends Error {
+	constructor(
+		public reason: IdTokenFailure,
+		message: string
+	) {
+		super(message);
+		this.name = 'IdTokenError';
+	}
+}
+
+// Map jose's verification errors onto the reasons we report
+function idTokenFailure(provider: string, err: unknown): IdTokenError {
+	if (err instanceof errors.JWTExpired) {
+		return new IdTokenError('id_token_expired', `${provider} ID token has expired`);
+	}
+	if (err instanceof errors.JWTClaimValidationFailed && err.claim === 'aud') {
+		return new IdTokenError('wrong_audience', `${provider} ID token was issued for another client`);
+	}
+	if (err instanceof errors.JWTClaimValidationFailed && err.claim === 'iss') {
+		return new IdTokenError('wrong_issuer', `${provider} ID token has an unexpected issuer`);
+	}
+	if (err instanceof errors.JWKSNoMatchingKey) {
+		return new IdTokenError('unknown_signing_key', `${provider} ID token is signed with an unknown key`);
+	}
+	if (err instanceof errors.JWSSignatureVerificationFailed) {
+		return new IdTokenError('invalid_signature', `${provider} ID token signature is invalid`);
+	}
+	return new IdTokenError('malformed_id_token', `${provider} ID token is malformed: ${(err as Error).message}`);
+}
+
+// Verify an ID token with the key named by its `kid`, and check issuer, audience, expiry and email verification
+export async function verifyIdToken(id_token: string, { provider, issuer, audience, getJWKS }: IdTokenIssuer): Promise<JWTPayload> {
+	let kid: string | undefined;
+	try {
+		kid = decodeProtectedHeader(id_token).kid;
+	} catch (err) {
+		throw idTokenFailure(provider, err);
+	}
+
+	let jwks: JSONWebKeySet;
+	try {
+		jwks = await getJWKS(kid);
+	} catch (err) {
+		throw new IdTokenError('provider_keys_unavailable', `Could not load ${provider} signing keys: ${(err as Error).message}`);
+	}
+
+	let payload: JWTPayload;
+	try {
+		({ payload } = await jwtVerify(id_token, createLocalJWKSet(jwks), { audience, issuer, algorithms: ['RS256'] }));
+	} catch (err) {
+		throw idTokenFailure(provider, err);
+	}
+	if (!payload.sub) {
+		throw new IdTokenError('malformed_id_token', `${provider} ID token has no subject`);
+	}
+	// Both providers send email_verified as a boolean in ID tokens, but have been known to send the string form
+	if (payload.email !== undefined && payload.email_verified !== true && payload.email_verified !== 'true') {
+		throw new IdTokenError('email_not_verified', `${provider} account email is not verified`);
+	}
+	return payload;
+}
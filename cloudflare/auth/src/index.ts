@@ -12,216 +12,212 @@
  */
 
 import { RtcTokenBuilder, RtcRole } from 'agora-token';
+import { agoraUidForDevice, assertDeviceBinding, AuthError, corsHeaders, errorResponse, groupRoleAllows, jsonResponse, preflightResponse, type GroupRole } from '@petube/shared';
+import { createAppleLinkUrl, handleAppleCallback, startAppleLogin } from './apple';
+import { AuthStore } from './auth-store';
+import { handleDeviceCodeRequest, handleDeviceDecision, handleDeviceLookup, handleDeviceTokenRequest } from './device-code';
+import type { Env } from './env';
+import { handleGoogleCallback, startGoogleLogin } from './google';
+import { getPublicJWKS } from './keys';
+import { ACCESS_TOKEN_TTL_SECONDS, authenticate, getAuthStore, signAccessToken } from './session';
 
-// Extend Env type for required environment variables
-interface Env {
-	GOOGLE_CLIENT_ID: string;
-	GOOGLE_CLIENT_SECRET: string;
-	GOOGLE_IOS_CLIENT_ID: string;
-	GOOGLE_IOS_CLIENT_SECRET: string;
-	JWT_PRIVATE_KEY: string;
-	JWT_PUBLIC_KEY: string;
-	AGORA_APP_ID: string;
-	AGORA_APP_CERTIFICATE: string;
+export { AuthStore };
+
+interface GroupMembership {
+	group: { group_id: string; camera_device_id: string | null };
+	member_device_ids: string[];
+	role: GroupRole;
 }
 
+// Push-to-talk tokens let a viewer publish audio for a few minutes and nothing else. Agora always encodes
+// every privilege in these tokens, so video and data streams get one that lapses right away. Publish
+// privileges are only enforced with co-host authentication enabled on the Agora project.
+const TALK_AUDIO_PRIVILEGE_SECONDS = 10 * 60;
+const LAPSED_PRIVILEGE_SECONDS = 1;
+
 export default {
 	async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
 		const url = new URL(request.url);
-		// --- Config ---
-		const JWT_PRIVATE_KEY = env.JWT_PRIVATE_KEY; // PEM-encoded private key
-		const JWT_PUBLIC_KEY = env.JWT_PUBLIC_KEY;   // PEM-encoded public key
-
 		// --- CORS Preflight ---
 		if (request.method === 'OPTIONS') {
-			return new Response(null, {
-				headers: {
-					'Access-Control-Allow-Origin': '*',
-					'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-					'Access-Control-Allow-Headers': '*',
-				},
-			});
+			return preflightResponse();
 		}
 
-		// --- Endpoints ---
-		if (url.pathname === '/auth/google/login') {
-			const redirect_uri = `${url.origin}/auth/google/callback`;
-			const state = crypto.randomUUID();
-			const params = new URLSearchParams({
-				client_id: env.GOOGLE_CLIENT_ID,
-				redirect_uri,
-				response_type: 'code',
-				scope: 'openid email profile',
-				state,
-				access_type: 'offline',
-				prompt: 'consent',
-			});
-			return Response.redirect(`https://accounts.google.com/o/oauth2/v2/auth?${params.toString()}`);
-		} else if (url.pathname === '/auth/google/callback') {
-			if (request.method !== 'GET') return new Response('Method Not Allowed', { status: 405 });
-			const code = url.searchParams.get('code');
-			const redirect_uri = `${url.origin}/auth/google/callback`;
-			if (!code) return new Response('Missing code', { status: 400 });
-			// Exchange code for tokens
-			const tokenRes = await fetch('https://oauth2.googleapis.com/token', {
-				method: 'POST',
-				headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-				body: new URLSearchParams({
-					code,
-					client_id: env.GOOGLE_CLIENT_ID,
-					client_secret: env.GOOGLE_CLIENT_SECRET,
-					redirect_uri,
-					grant_type: 'authorization_code',
-				}),
-			});
-			const tokenData = await tokenRes.json<{ id_token: string }>();
-			if (!tokenData.id_token) {
-				return new Response(JSON.stringify(tokenData), { headers: { 'Content-Type': 'application/json' }, status: 400 });
-			}
-			const id_token = tokenData.id_token;
-			// Verify Google ID token
-			const { importJWK, jwtVerify, SignJWT } = await import('jose');
-			const googleRes = await fetch('https://www.googleapis.com/oauth2/v3/certs');
-			// Add type assertion for keys
-			const { keys } = await googleRes.json() as { keys: any[] };
-			let payload;
-			for (const jwk of keys) {
+		try {
+			// --- Endpoints ---
+			if (url.pathname === '/auth/google/login') {
+				return startGoogleLogin(request, env, 'web');
+			} else if (url.pathname === '/auth/google/callback') {
+				return handleGoogleCallback(request, env, 'web');
+			} else if (url.pathname === '/devicelogin') {
+				// iOS app login initiation
+				return startGoogleLogin(request, env, 'ios');
+			} else if (url.pathname === '/devicelogin/callback') {
+				return handleGoogleCallback(request, env, 'ios');
+			} else if (url.pathname === '/auth/apple/login') {
+				return startAppleLogin(request, env, 'web');
+			} else if (url.pathname === '/auth/apple/callback') {
+				return handleAppleCallback(request, env, 'web');
+			} else if (url.pathname === '/devicelogin/apple') {
+				// iOS app Sign in with Apple initiation
+				return startAppleLogin(request, env, 'ios');
+			} else if (url.pathname === '/devicelogin/apple/callback') {
+				return handleAppleCallback(request, env, 'ios');
+			} else if (url.pathname === '/auth/apple/link') {
+				// Link an Apple ID to the caller's account
+				if (request.method !== 'POST') return errorResponse(405, 'Method Not Allowed');
+				const { claims } = await authenticate(request, env);
+				return createAppleLinkUrl(request, env, claims.id);
+			} else if (url.pathname === '/auth/device/code') {
+				// Device-code login for headless cameras, see device-code.ts
+				return handleDeviceCodeRequest(request, env);
+			} else if (url.pathname === '/auth/device/token') {
+				return handleDeviceTokenRequest(request, env);
+			} else if (url.pathname === '/auth/device') {
+				const { claims } = await authenticate(request, env);
+				return handleDeviceLookup(request, env, claims);
+			} else if (url.pathname === '/auth/device/approve' || url.pathname === '/auth/device/deny') {
+				const { claims, token } = await authenticate(request, env);
+				return handleDeviceDecision(request, env, claims, token, url.pathname === '/auth/device/approve');
+			} else if (url.pathname === '/auth/refresh') {
+				// Rotate a refresh token and mint a new access token
+				if (request.method !== 'POST') return errorResponse(405, 'Method Not Allowed');
+				let refreshToken: string | undefined;
 				try {
-					const pubKey = await importJWK(jwk, 'RS256');
-					const { payload: pl } = await jwtVerify(id_token, pubKey, { audience: env.GOOGLE_CLIENT_ID });
-					payload = pl;
-					break;
+					({ refresh_token: refreshToken } = await request.json<{ refresh_token?: string }>());
 				} catch {}
-			}
-			if (!payload) return new Response('Invalid Google token', { status: 401 });
-			// Issue our own JWT
-			const privateKey = await importJWK(JSON.parse(JWT_PRIVATE_KEY), 'RS256');
-			const jwt = await new SignJWT({
-				id: payload.sub,
-				email: payload.email,
-				name: payload.name,
-			})
-				.setProtectedHeader({ alg: 'RS256' })
-				.setIssuedAt()
-				.setExpirationTime('7d')
-				.sign(privateKey);
-			// Redirect to / with token in fragment
-			return Response.redirect(`https://mixtura.github.io/petube/#token=${jwt}`, 302);
-		} else if (url.pathname === '/devicelogin') {
-			// iOS app login initiation (using Web client)
-			const redirect_uri = 'https://auth.petube.workers.dev/devicelogin/callback';
-			const state = crypto.randomUUID();
-			const params = new URLSearchParams({
-				client_id: env.GOOGLE_IOS_CLIENT_ID,
-				redirect_uri,
-				response_type: 'code',
-				scope: 'openid email profile',
-				state,
-				access_type: 'offline',
-				prompt: 'consent',
-			});
-			return Response.redirect(`https://accounts.google.com/o/oauth2/v2/auth?${params.toString()}`);
-		} else if (url.pathname === '/devicelogin/callback') {
-			if (request.method !== 'GET') return new Response('Method Not Allowed', { status: 405 });
-			const code = url.searchParams.get('code');
-			const redirect_uri = 'https://auth.petube.workers.dev/devicelogin/callback';
-			if (!code) return new Response('Missing code', { status: 400 });
-			// Exchange code for tokens (web client)
-			const tokenRes = await fetch('https://oauth2.googleapis.com/token', {
-				method: 'POST',
-				headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-				body: new URLSearchParams({
-					code,
-					client_id: env.GOOGLE_IOS_CLIENT_ID,
-					client_secret: env.GOOGLE_IOS_CLIENT_SECRET,
-					redirect_uri,
-					grant_type: 'authorization_code',
-				}),
-			});
-			const tokenData = await tokenRes.json<{ id_token: string }>();
-			if (!tokenData.id_token) {
-				return new Response(JSON.stringify(tokenData), { headers: { 'Content-Type': 'application/json' }, status: 400 });
-			}
-			const id_token = tokenData.id_token;
-			const { importJWK, jwtVerify, SignJWT } = await import('jose');
-			const googleRes = await fetch('https://www.googleapis.com/oauth2/v3/certs');
-			const { keys } = await googleRes.json() as { keys: any[] };
-			let payload;
-			for (const jwk of keys) {
+				if (!refreshToken) {
+					return errorResponse(400, 'missing_refresh_token');
+				}
+				const result = await getAuthStore(env).rotateRefreshToken(refreshToken);
+				if ('error' in result) {
+					return errorResponse(401, result.error);
+				}
+				const jwt = await signAccessToken(env, result.claims, result.session_id);
+				return jsonResponse({ token: jwt, refresh_token: result.refresh_token, expires_in: ACCESS_TOKEN_TTL_SECONDS });
+			} else if (url.pathname === '/auth/me') {
+				const { claims } = await authenticate(request, env);
+				return jsonResponse(claims);
+			} else if (url.pathname === '/.well-known/jwks.json') {
+				// Public keys for verifying our access tokens; the other workers cache this and pick keys by kid
+				return jsonResponse(getPublicJWKS(env), { headers: { 'Cache-Control': 'public, max-age=300' } });
+			} else if (url.pathname === '/auth/introspect') {
+				// Lets the other workers check a token against the revocation list (RFC 7662 style)
 				try {
-					const pubKey = await importJWK(jwk, 'RS256');
-					const { payload: pl } = await jwtVerify(id_token, pubKey, { audience: env.GOOGLE_IOS_CLIENT_ID });
-					payload = pl;
-					break;
-				} catch {}
-			}
-			if (!payload) return new Response('Invalid Google token', { status: 401 });
-			const privateKey = await importJWK(JSON.parse(env.JWT_PRIVATE_KEY), 'RS256');
-			const jwt = await new SignJWT({
-				id: payload.sub,
-				email: payload.email,
-				name: payload.name,
-			})
-				.setProtectedHeader({ alg: 'RS256' })
-				.setIssuedAt()
-				.setExpirationTime('7d')
-				.sign(privateKey);
-			// Redirect to app with token as query param
-			return Response.redirect(`petube://auth-callback?token=${jwt}`, 302);
-		} else if (url.pathname === '/auth/me') {
-			const { jwtVerify, importJWK } = await import('jose');
-			const auth = request.headers.get('authorization');
-			if (!auth?.startsWith('Bearer ')) return new Response('Missing token', { status: 401 });
-			const token = auth.slice(7);
-			try {
-				const publicKey = await importJWK(JSON.parse(JWT_PUBLIC_KEY), 'RS256');
-				const { payload } = await jwtVerify(token, publicKey);
-				return new Response(JSON.stringify(payload), { headers: { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*', 'Access-Control-Allow-Headers': '*' } });
-			} catch (e) {
-				return new Response('Invalid token', { status: 401 });
+					const { claims } = await authenticate(request, env);
+					return jsonResponse({ active: true, ...claims });
+				} catch (error) {
+					if (error instanceof AuthError) return jsonResponse({ active: false });
+					throw error;
+				}
+			} else if (url.pathname === '/auth/logout' || url.pathname === '/auth/logout-all') {
+				// Revoke this session, or every session of the user
+				if (request.method !== 'POST') return errorResponse(405, 'Method Not Allowed');
+				const { claims } = await authenticate(request, env);
+				const logoutAll = url.pathname === '/auth/logout-all';
+				if (logoutAll) {
+					await getAuthStore(env).revokeAllForUser(claims.id);
+				} else if (claims.jti) {
+					await getAuthStore(env).revokeSession(claims.jti, claims.exp ?? 0, claims.sid);
+				}
+				// StreamRoom only checks tokens when a socket connects, so the revoked sessions' sockets are closed now
+				if (logoutAll || claims.sid) {
+					const rooms = env.ACCOUNT_ROOMS.get(env.ACCOUNT_ROOMS.idFromName(claims.id));
+					ctx.waitUntil(
+						rooms
+							.disconnectUser(claims.id, logoutAll ? null : claims.sid ?? null)
+							.catch((err) => console.error(`[Logout] Closing the room sockets of user ${claims.id} failed: ${(err as Error).message}`))
+					);
+				}
+				return jsonResponse({ success: true });
+			} else if (url.pathname === '/message') {
+				return new Response('Hello, World!', { headers: corsHeaders });
+			} else if (url.pathname === '/random') {
+				return new Response(crypto.randomUUID(), { headers: corsHeaders });
+			} else if (/^\/auth\/agora\/(publisher|subscriber|talk)\/token$/.test(url.pathname)) {
+				// Path: /auth/agora/{role}/token, where 'talk' is a viewer publishing audio only (push-to-talk).
+				// The talk floor itself is kept by StreamRoom, which admits only the viewer device holding it.
+				const match = url.pathname.match(/^\/auth\/agora\/(publisher|subscriber|talk)\/token$/);
+				if (!match) return errorResponse(400, 'Invalid role');
+				const roleStr = match[1];
+				const groupId = url.searchParams.get('group_id');
+				const deviceId = url.searchParams.get('device_id');
+				if (!groupId || !deviceId) return errorResponse(400, 'Missing group_id or device_id');
+				const { claims, token: jwtToken } = await authenticate(request, env);
+				assertDeviceBinding(claims, deviceId);
+				// The caller must own the device, and the device must be in the group
+				const params = new URLSearchParams({ group_id: groupId, device_id: deviceId });
+				const membershipRes = await env.DEVICE_MANAGEMENT.fetch(`https://device-management/group-membership?${params.toString()}`, {
+					headers: { Authorization: `Bearer ${jwtToken}` },
+				});
+				if (membershipRes.status === 403) {
+					return errorResponse(403, 'Not a member of this group', 'not_group_member');
+				}
+				if (!membershipRes.ok) {
+					return errorResponse(502, 'Membership check failed', 'membership_check_failed');
+				}
+				const { group, role: groupRole } = await membershipRes.json<GroupMembership>();
+				// Viewers of a group only watch: no publishing, not even push-to-talk audio
+				if ((roleStr === 'publisher' || roleStr === 'talk') && !groupRoleAllows(groupRole, roleStr === 'publisher' ? 'publish' : 'talk')) {
+					return errorResponse(403, `A group ${groupRole} can only watch`, 'forbidden');
+				}
+				// Only the group's designated camera may publish
+				if (roleStr === 'publisher' && group.camera_device_id !== deviceId) {
+					return errorResponse(403, 'Device is not the camera of this group', 'not_group_camera');
+				}
+				// Viewer and per-account room limits and the streaming schedule are kept by stream-control's StreamRoom
+				const admissionRes = await env.STREAM_CONTROL.fetch(
+					`https://stream-control/room/${encodeURIComponent(group.group_id)}/admission?${new URLSearchParams({ role: roleStr, device_id: deviceId })}`,
+					{ headers: { Authorization: `Bearer ${jwtToken}` } }
+				);
+				// Full room, too many rooms (429), closed by its schedule (403, with `opens_at`) or talking without
+				// the floor (403): pass the reason on
+				if (admissionRes.status === 429 || admissionRes.status === 403) {
+					return jsonResponse(await admissionRes.json(), { status: admissionRes.status });
+				}
+				if (!admissionRes.ok) {
+					return errorResponse(502, 'Admission check failed', 'admission_check_failed');
+				}
+				const AGORA_APP_ID = env.AGORA_APP_ID;
+				const AGORA_APP_CERTIFICATE = env.AGORA_APP_CERTIFICATE;
+				const channelName = group.group_id;
+				const uid = agoraUidForDevice(deviceId);
+				const expireInSeconds = 3600; // 1 hour
+				const privatePrivilegeExpireInSeconds = 3600;
+				if (roleStr === 'talk') {
+					const token = RtcTokenBuilder.buildTokenWithUidAndPrivilege(
+						AGORA_APP_ID,
+						AGORA_APP_CERTIFICATE,
+						channelName,
+						uid,
+						expireInSeconds,
+						privatePrivilegeExpireInSeconds,
+						TALK_AUDIO_PRIVILEGE_SECONDS,
+						LAPSED_PRIVILEGE_SECONDS,
+						LAPSED_PRIVILEGE_SECONDS
+					);
+					return jsonResponse({ token, channel: channelName, uid, audio_expires_in: TALK_AUDIO_PRIVILEGE_SECONDS });
+				}
+				const agoraRole = roleStr === 'publisher' ? RtcRole.PUBLISHER : RtcRole.SUBSCRIBER;
+				// Use official SDK to generate token
+				const token = RtcTokenBuilder.buildTokenWithUid(
+					AGORA_APP_ID,
+					AGORA_APP_CERTIFICATE,
+					channelName,
+					uid,
+					agoraRole,
+					expireInSeconds,
+					privatePrivilegeExpireInSeconds
+				);
+				return jsonResponse({ token, channel: channelName, uid });
+			} else {
+				return new Response('Not Found', { status: 404, headers: corsHeaders });
 			}
-		} else if (url.pathname === '/message') {
-			return new Response('Hello, World!', { headers: { 'Access-Control-Allow-Origin': '*', 'Access-Control-Allow-Headers': '*' } });
-		} else if (url.pathname === '/random') {
-			return new Response(crypto.randomUUID(), { headers: { 'Access-Control-Allow-Origin': '*', 'Access-Control-Allow-Headers': '*' } });
-		} else if (/^\/auth\/agora\/(publisher|subscriber)\/token$/.test(url.pathname)) {
-			// Path: /auth/agora/{role}/token
-			const match = url.pathname.match(/^\/auth\/agora\/(publisher|subscriber)\/token$/);
-			if (!match) return new Response('Invalid role', { status: 400 });
-			const roleStr = match[1];
-			const { jwtVerify, importJWK } = await import('jose');
-			const auth = request.headers.get('authorization');
-			if (!auth?.startsWith('Bearer ')) return new Response('Missing token', { status: 401 });
-			const jwtToken = auth.slice(7);
-			let userId;
-			try {
-				const publicKey = await importJWK(JSON.parse(env.JWT_PUBLIC_KEY), 'RS256');
-				const { payload } = await jwtVerify(jwtToken, publicKey);
-				userId = payload.id;
-				if (!userId) return new Response('No user id in token', { status: 400 });
-			} catch (e) {
-				return new Response('Invalid token', { status: 401 });
+		} catch (error) {
+			if (error instanceof AuthError) {
+				return errorResponse(error.status, error.message, error.code);
 			}
-			const AGORA_APP_ID = env.AGORA_APP_ID;
-			const AGORA_APP_CERTIFICATE = env.AGORA_APP_CERTIFICATE;
-			const channelName = String(userId);
-			const uid = '0';
-			const expireInSeconds = 3600; // 1 hour
-			const privatePrivilegeExpireInSeconds = 3600;
-			const agoraRole = roleStr === 'publisher' ? RtcRole.PUBLISHER : RtcRole.SUBSCRIBER;
-			// Use official SDK to generate token
-			const token = RtcTokenBuilder.buildTokenWithUserAccount(
-				AGORA_APP_ID,
-				AGORA_APP_CERTIFICATE,
-				channelName,
-				uid,
-				agoraRole,
-				expireInSeconds,
-				privatePrivilegeExpireInSeconds
-			);
-			return new Response(JSON.stringify({ token }), { headers: { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*', 'Access-Control-Allow-Headers': '*' } });
-		} else {
-			return new Response('Not Found', { status: 404, headers: { 'Access-Control-Allow-Origin': '*', 'Access-Control-Allow-Headers': '*' } });
+			throw error;
 		}
 	},
 };
@@ -0,0 +1,57 @@
+import type { JSONWebKeySet } from 'jose';
+
+/**
+ * Cache for a third-party identity provider's published key set (e.g. Google's ID token keys).
+ *
+ * The key set is kept for as long as the provider's Cache-Control `max-age` allows. A token naming a `kid`
+ * we don't have triggers an early refetch (the provider rotated its keys), at most once per MIN_REFETCH_MS.
+ * If a refetch fails, the keys we already have keep being used.
+ */
+
+const DEFAULT_MAX_AGE_MS = 60 * 60 * 1000; // When the response carries no usable max-age
+const MIN_REFETCH_MS = 60 * 1000;
+
+export interface RemoteJWKSOptions {
+	fetch?: typeof fetch;
+	now?: () => number;
+}
+
+// Freshness lifetime of a response in ms, from `Cache-Control: max-age` minus `Age`; null if not cacheable
+export function cacheLifetimeMs(headers: Headers): number | null {
+	const cacheControl = headers.get('Cache-Control') ?? '';
+	if (/(^|,)\s*(no-store|no-cache)\s*(,|$)/i.test(cacheControl)) return 0;
+	const match = cacheControl.match(/(?:^|,)\s*max-age\s*=\s*"?(\d+)"?/i);
+	if (!match) return null;
+	const age = Number(headers.get('Age') ?? 0) || 0;
+	return Math.max(0, Number(match[1]) - age) * 1000;
+}
+
+export function createRemoteJWKSCache(url: string, options: RemoteJWKSOptions = {}) {
+	const doFetch = options.fetch ?? ((input, init) => fetch(input, init));
+	const now = options.now ?? Date.now;
+	let cache: { jwks: JSONWebKeySet; fetchedAt: number; expiresAt: number } | null = null;
+
+	return async function getJWKS(kid?: string): Promise<JSONWebKeySet> {
+		const unknownKid = !!kid && !!cache && !cache.jwks.keys.some((k) => k.kid === kid);
+		if (!cache || now() >= cache.expiresAt || (unknownKid && now() - cache.fetchedAt > MIN_REFETCH_MS)) {
+			try {
+				const res = await doFetch(url);
+				if (!res.ok) {
+					throw new Error(`JWKS fetch from ${url} failed with status ${res.status}`);
+				}
+				const jwks = await res.json<JSONWebKeySet>();
+				if (!Array.isArray(jwks?.keys)) {
+					throw new Error(`JWKS from ${url} has no keys`);
+				}
+				const fetchedAt = now();
+				cache = { jwks, fetchedAt, expiresAt: fetchedAt + (cacheLifetimeMs(res.headers) ?? DEFAULT_MAX_AGE_MS) };
+			} catch (err) {
+				if (!cache) throw err;
+				// Back off instead of refetching on every login while the provider is unreachable
+				cache.expiresAt = now() + MIN_REFETCH_MS;
+				console.error(`[JWKS] Refresh of ${url} failed, using cached keys: ${(err as Error).message}`);
+			}
+		}
+		return cache.jwks;
+	};
+}
@@ -0,0 +1,53 @@
+import { createLocalJWKSet, importJWK, type JSONWebKeySet, type JWK } from 'jose';
+
+/**
+ * Signing keys for our own access tokens.
+ *
+ * `JWT_SIGNING_KEYS` holds a JSON array of private RSA JWKs, each tagged with a `kid` and an optional
+ * `status`: 'active' (default) or 'retiring'. Tokens are signed with the first active key; every key
+ * is published in /.well-known/jwks.json so tokens signed with a retiring key keep verifying until
+ * they expire. To rotate: add the new key first, then mark the old one 'retiring', then remove it.
+ *
+ * If `JWT_SIGNING_KEYS` is not set, the legacy single `JWT_PRIVATE_KEY` is used as the only active key.
+ */
+
+export interface SigningKey extends JWK {
+	kid: string;
+	status?: 'active' | 'retiring';
+}
+
+export interface KeyEnv {
+	JWT_SIGNING_KEYS?: string;
+	JWT_PRIVATE_KEY?: string;
+}
+
+export function loadSigningKeys(env: KeyEnv): SigningKey[] {
+	if (env.JWT_SIGNING_KEYS) {
+		return JSON.parse(env.JWT_SIGNING_KEYS) as SigningKey[];
+	}
+	if (env.JWT_PRIVATE_KEY) {
+		const jwk = JSON.parse(env.JWT_PRIVATE_KEY) as JWK;
+		return [{ ...jwk, kid: jwk.kid ?? 'default' }];
+	}
+	throw new Error('No JWT signing keys configured');
+}
+
+// Private key and kid to sign new tokens with
+export async function getActiveSigningKey(env: KeyEnv): Promise<{ kid: string; key: CryptoKey | Uint8Array }> {
+	const active = loadSigningKeys(env).find((k) => (k.status ?? 'active') === 'active');
+	if (!active) throw new Error('No active JWT signing key');
+	const { status, ...jwk } = active;
+	return { kid: active.kid, key: await importJWK(jwk, 'RS256') };
+}
+
+// Public halves of every configured key, as served from /.well-known/jwks.json
+export function getPublicJWKS(env: KeyEnv): JSONWebKeySet {
+	return {
+		keys: loadSigningKeys(env).map(({ kty, n, e, kid }) => ({ kty, n, e, kid, alg: 'RS256', use: 'sig' })),
+	};
+}
+
+// Key resolver for jwtVerify that picks the key by the token's `kid`
+export function getVerificationKeySet(env: KeyEnv) {
+	return createLocalJWKSet(getPublicJWKS(env));
+}
@@ -0,0 +1,34 @@
+import type { SessionClaims } from './auth-store';
+import type { Env } from './env';
+import { createSession } from './session';
+
+// Helpers shared by the Google and Apple login flows
+
+// Which client started the login, and so where the tokens are handed back
+export type ClientPlatform = 'web' | 'ios';
+
+export function getCookie(request: Request, name: string): string | null {
+	const cookies = request.headers.get('Cookie') ?? '';
+	for (const part of cookies.split(';')) {
+		const [key, ...rest] = part.trim().split('=');
+		if (key === name) return rest.join('=');
+	}
+	return null;
+}
+
+// Cookie that binds an OAuth `state` to the browser that started the login (empty value clears it)
+export function stateCookie(name: string, state: string, sameSite: 'Lax' | 'None' = 'Lax'): string {
+	return `${name}=${state}; Path=/; Max-Age=${state ? 600 : 0}; HttpOnly; Secure; SameSite=${sameSite}`;
+}
+
+// Start our own session and hand the tokens back: the web page reads them from the fragment, the app from the query
+export async function completeLogin(env: Env, platform: ClientPlatform, claims: SessionClaims, clearCookie: string): Promise<Response> {
+	const params = new URLSearchParams(await createSession(env, claims)).toString();
+	return new Response(null, {
+		status: 302,
+		headers: {
+			Location: platform === 'ios' ? `petube://auth-callback?${params}` : `https://mixtura.github.io/petube/#${params}`,
+			'Set-Cookie': clearCookie,
+		},
+	});
+}
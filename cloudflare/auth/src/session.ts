@@ -0,0 +1,41 @@
+import { SignJWT } from 'jose';
+import { AuthError, extractBearerToken, verifyAccessToken, type AccessTokenClaims } from '@petube/shared';
+import type { AuthStore, SessionClaims } from './auth-store';
+import type { Env } from './env';
+import { getActiveSigningKey, getVerificationKeySet } from './keys';
+
+// Access tokens are short-lived; clients renew them with a refresh token via /auth/refresh
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+
+export function getAuthStore(env: Env): DurableObjectStub<AuthStore> {
+	return env.AUTH_STORE.get(env.AUTH_STORE.idFromName('global'));
+}
+
+// Mint our own RS256 access token for the given session claims.
+// Every token gets a `jti` so it can be revoked, and a `sid` naming its refresh token family.
+export async function signAccessToken(env: Env, claims: SessionClaims, session_id: string): Promise<string> {
+	const { kid, key } = await getActiveSigningKey(env);
+	return new SignJWT({ ...claims, sid: session_id })
+		.setProtectedHeader({ alg: 'RS256', kid })
+		.setJti(crypto.randomUUID())
+		.setIssuedAt()
+		.setExpirationTime(`${ACCESS_TOKEN_TTL_SECONDS}s`)
+		.sign(key);
+}
+
+// Start a session after a successful login: a new refresh token family plus its first access token
+export async function createSession(env: Env, claims: SessionClaims): Promise<{ token: string; refresh_token: string }> {
+	const { refresh_token, session_id } = await getAuthStore(env).createRefreshToken(claims);
+	return { token: await signAccessToken(env, claims, session_id), refresh_token };
+}
+
+// Verify the request's Bearer access token: signature, expiry and the revocation list.
+// Throws AuthError if the token is missing, invalid or revoked.
+export async function authenticate(request: Request, env: Env): Promise<{ claims: AccessTokenClaims; token: string }> {
+	const token = extractBearerToken(request);
+	const claims = await verifyAccessToken(token, getVerificationKeySet(env));
+	if (await getAuthStore(env).isAccessTokenRevoked(claims.id, claims.iat ?? 0, claims.jti, claims.sid)) {
+		throw new AuthError('token_revoked', 'Token has been revoked');
+	}
+	return { claims, token };
+}
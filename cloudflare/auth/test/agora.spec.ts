@@ -0,0 +1,41 @@
+import { env, SELF } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { agoraUidForDevice } from '@petube/shared';
+import { createSession } from '../src/session';
+
+// Group roles and the group's camera come from the device-management stand-in (vitest.config.mts)
+async function agoraToken(user_id: string, role: 'publisher' | 'subscriber' | 'talk', group_id: string, device_id: string) {
+	const { token } = await createSession(env, { id: user_id });
+	const params = new URLSearchParams({ group_id, device_id });
+	return SELF.fetch(`https://auth.example.com/auth/agora/${role}/token?${params}`, { headers: { Authorization: `Bearer ${token}` } });
+}
+
+describe('Agora tokens for a group', () => {
+	it('refuses callers outside the group', async () => {
+		const response = await agoraToken('stranger-1', 'subscriber', 'group-1', 'phone-1');
+		expect(response.status).toBe(403);
+		expect(await response.json()).toMatchObject({ code: 'not_group_member' });
+	});
+
+	it("lets only the group's camera publish", async () => {
+		const phone = await agoraToken('owner-1', 'publisher', 'group-1', 'phone-1');
+		expect(phone.status).toBe(403);
+		expect(await phone.json()).toMatchObject({ code: 'not_group_camera' });
+		const viewer = await agoraToken('viewer-1', 'publisher', 'group-1', 'camera-1');
+		expect(viewer.status).toBe(403);
+		expect(await viewer.json()).toMatchObject({ code: 'forbidden' });
+
+		const camera = await agoraToken('owner-1', 'publisher', 'group-1', 'camera-1');
+		expect(camera.status).toBe(200);
+		expect(await camera.json()).toMatchObject({ channel: 'group-1', uid: agoraUidForDevice('camera-1') });
+	});
+
+	it("joins the group's channel with the device's uid", async () => {
+		for (const group_id of ['group-1', 'group-2']) {
+			const response = await agoraToken('viewer-1', 'subscriber', group_id, 'phone-1');
+			const body = await response.json<{ token: string; channel: string; uid: number }>();
+			expect(body).toMatchObject({ channel: group_id, uid: agoraUidForDevice('phone-1') });
+			expect(body.token).toEqual(expect.any(String));
+		}
+	});
+});
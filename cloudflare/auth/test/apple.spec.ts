@@ -0,0 +1,50 @@
+import { SELF } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { exportJWK, generateKeyPair, SignJWT } from 'jose';
+import { verifyAppleIdToken } from '../src/apple';
+import { IdTokenError } from '../src/id-token';
+
+describe('Sign in with Apple', () => {
+	it('verifies Apple ID tokens against the Apple issuer', async () => {
+		const { privateKey, publicKey } = await generateKeyPair('RS256');
+		const jwks = async () => ({ keys: [{ ...(await exportJWK(publicKey)), kid: 'apple-1', alg: 'RS256' }] });
+		const sign = (iss: string) =>
+			new SignJWT({ sub: 'apple-user', email: 'u@privaterelay.appleid.com', email_verified: 'true' })
+				.setProtectedHeader({ alg: 'RS256', kid: 'apple-1' })
+				.setIssuer(iss)
+				.setAudience('com.petube.web')
+				.setIssuedAt()
+				.setExpirationTime('5m')
+				.sign(privateKey);
+
+		const payload = await verifyAppleIdToken(await sign('https://appleid.apple.com'), 'com.petube.web', jwks);
+		expect(payload.sub).toBe('apple-user');
+		await expect(verifyAppleIdToken(await sign('https://accounts.google.com'), 'com.petube.web', jwks)).rejects.toThrow(IdTokenError);
+	});
+
+	it('starts the login with a form_post redirect and a cross-site state cookie', async () => {
+		const response = await SELF.fetch('https://auth.example.com/auth/apple/login', { redirect: 'manual' });
+		expect(response.status).toBe(302);
+		const location = new URL(response.headers.get('Location')!);
+		expect(location.origin).toBe('https://appleid.apple.com');
+		expect(location.searchParams.get('response_mode')).toBe('form_post');
+		expect(location.searchParams.get('nonce')).toBeTruthy();
+		expect(response.headers.get('Set-Cookie')).toContain(`petube_apple_oauth_state=${location.searchParams.get('state')}`);
+		expect(response.headers.get('Set-Cookie')).toContain('SameSite=None');
+	});
+
+	it('rejects a forged link token', async () => {
+		const response = await SELF.fetch('https://auth.example.com/auth/apple/login?link_token=forged', { redirect: 'manual' });
+		expect(response.status).toBe(400);
+		expect(await response.json()).toMatchObject({ code: 'invalid_link_token' });
+	});
+
+	it('rejects a callback without the matching state cookie', async () => {
+		const response = await SELF.fetch('https://auth.example.com/auth/apple/callback', {
+			method: 'POST',
+			body: new URLSearchParams({ code: 'c', state: 's' }),
+		});
+		expect(response.status).toBe(400);
+		expect(await response.json()).toMatchObject({ code: 'invalid_state' });
+	});
+});
@@ -0,0 +1,149 @@
+import { env, runInDurableObject } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+
+describe('AuthStore refresh tokens', () => {
+	const claims = { id: 'user-1', email: 'user@example.com', name: 'User' };
+
+	it('rotates a refresh token and keeps the session claims', async () => {
+		const store = env.AUTH_STORE.get(env.AUTH_STORE.idFromName('rotate'));
+		const first = await store.createRefreshToken(claims);
+		const result = await store.rotateRefreshToken(first.refresh_token);
+		expect(result).toMatchObject({ claims, session_id: first.session_id });
+		expect('refresh_token' in result && result.refresh_token).not.toBe(first.refresh_token);
+	});
+
+	it('revokes the whole family when a rotated token is reused', async () => {
+		const store = env.AUTH_STORE.get(env.AUTH_STORE.idFromName('reuse'));
+		const first = await store.createRefreshToken(claims);
+		const second = await store.rotateRefreshToken(first.refresh_token);
+		if (!('refresh_token' in second)) throw new Error('rotation failed');
+		// Past the grace window for concurrent refreshes
+		await runInDurableObject(store, (_, state) => {
+			state.storage.sql.exec(`UPDATE refresh_tokens SET rotated_at = rotated_at - 60000 WHERE rotated_at IS NOT NULL`);
+		});
+
+		expect(await store.rotateRefreshToken(first.refresh_token)).toEqual({ error: 'refresh_token_reused' });
+		// The legitimate successor is now dead too
+		expect(await store.rotateRefreshToken(second.refresh_token)).toEqual({ error: 'invalid_refresh_token' });
+	});
+
+	it('lets concurrent refreshes with the same token all succeed', async () => {
+		const store = env.AUTH_STORE.get(env.AUTH_STORE.idFromName('concurrent'));
+		const first = await store.createRefreshToken(claims);
+		const results = await Promise.all([store.rotateRefreshToken(first.refresh_token), store.rotateRefreshToken(first.refresh_token)]);
+		expect(results).toEqual([
+			expect.objectContaining({ claims, session_id: first.session_id }),
+			expect.objectContaining({ claims, session_id: first.session_id }),
+		]);
+		// Neither successor was revoked
+		for (const result of results) {
+			if (!('refresh_token' in result)) throw new Error('rotation failed');
+			expect(await store.rotateRefreshToken(result.refresh_token)).toMatchObject({ session_id: first.session_id });
+		}
+	});
+
+	it('rejects unknown refresh tokens', async () => {
+		const store = env.AUTH_STORE.get(env.AUTH_STORE.idFromName('unknown'));
+		expect(await store.rotateRefreshToken('not-a-token')).toEqual({ error: 'invalid_refresh_token' });
+	});
+});
+
+describe('AuthStore OAuth states', () => {
+	it('returns the PKCE verifier once and rejects replays', async () => {
+		const store = env.AUTH_STORE.get(env.AUTH_STORE.idFromName('state-replay'));
+		const state = await store.createOAuthState('web', 'verifier-1');
+		expect(await store.consumeOAuthState(state, 'web')).toEqual({ code_verifier: 'verifier-1', link_user_id: null });
+		expect(await store.consumeOAuthState(state, 'web')).toBeNull();
+	});
+
+	it('rejects a state started by another flow', async () => {
+		const store = env.AUTH_STORE.get(env.AUTH_STORE.idFromName('state-flow'));
+		const state = await store.createOAuthState('ios', 'verifier-2');
+		expect(await store.consumeOAuthState(state, 'web')).toBeNull();
+	});
+});
+
+describe('AuthStore access token revocation', () => {
+	const iat = Math.floor(Date.now() / 1000);
+
+	it('revokes a single token by jti and its refresh tokens', async () => {
+		const store = env.AUTH_STORE.get(env.AUTH_STORE.idFromName('logout'));
+		const session = await store.createRefreshToken({ id: 'user-2' });
+		await store.revokeSession('jti-1', iat + 900, session.session_id);
+		expect(await store.isAccessTokenRevoked('user-2', iat, 'jti-1')).toBe(true);
+		expect(await store.isAccessTokenRevoked('user-2', iat, 'jti-2')).toBe(false);
+		expect(await store.rotateRefreshToken(session.refresh_token)).toEqual({ error: 'invalid_refresh_token' });
+	});
+
+	it('revokes every token issued before a log out everywhere', async () => {
+		const store = env.AUTH_STORE.get(env.AUTH_STORE.idFromName('logout-all'));
+		const session = await store.createRefreshToken({ id: 'user-3' });
+		await store.revokeAllForUser('user-3');
+		expect(await store.isAccessTokenRevoked('user-3', iat - 60, 'jti-3')).toBe(true);
+		expect(await store.isAccessTokenRevoked('user-3', iat + 3600, 'jti-4')).toBe(false);
+		expect(await store.isAccessTokenRevoked('user-4', iat - 60, 'jti-5')).toBe(false);
+		expect(await store.rotateRefreshToken(session.refresh_token)).toEqual({ error: 'invalid_refresh_token' });
+	});
+
+	it('revokes tokens by session, so a login right after a log out everywhere stays valid', async () => {
+		const store = env.AUTH_STORE.get(env.AUTH_STORE.idFromName('logout-all-session'));
+		const old = await store.createRefreshToken({ id: 'user-5' });
+		await store.revokeAllForUser('user-5');
+		const fresh = await store.createRefreshToken({ id: 'user-5' });
+		// Same second as the log out everywhere
+		expect(await store.isAccessTokenRevoked('user-5', iat, 'jti-6', old.session_id)).toBe(true);
+		expect(await store.isAccessTokenRevoked('user-5', iat, 'jti-7', fresh.session_id)).toBe(false);
+	});
+});
+
+describe('AuthStore identities', () => {
+	it('keeps the Google subject as the user id', async () => {
+		const store = env.AUTH_STORE.get(env.AUTH_STORE.idFromName('identity-google'));
+		const result = await store.resolveIdentity('google', 'google-1', { email: 'u@example.com', name: 'User' });
+		expect(result).toEqual({ claims: { id: 'google-1', email: 'u@example.com', name: 'User' } });
+	});
+
+	it('links an Apple identity to an existing user and remembers its name', async () => {
+		const store = env.AUTH_STORE.get(env.AUTH_STORE.idFromName('identity-link'));
+		await store.resolveIdentity('google', 'google-1', { email: 'u@example.com', name: 'User' });
+		expect(await store.resolveIdentity('apple', 'apple-1', { email: 'relay@privaterelay.appleid.com' }, 'google-1')).toEqual({
+			claims: { id: 'google-1', email: 'relay@privaterelay.appleid.com', name: 'User' },
+		});
+		// Later Apple logins without link intent land on the same user
+		expect(await store.resolveIdentity('apple', 'apple-1', {})).toMatchObject({ claims: { id: 'google-1', name: 'User' } });
+	});
+
+	it('refuses to move an identity that belongs to another user', async () => {
+		const store = env.AUTH_STORE.get(env.AUTH_STORE.idFromName('identity-taken'));
+		expect(await store.resolveIdentity('apple', 'apple-2', {})).toMatchObject({ claims: { id: 'apple:apple-2' } });
+		expect(await store.resolveIdentity('apple', 'apple-2', {}, 'google-2')).toEqual({ error: 'identity_already_linked' });
+	});
+});
+
+describe('AuthStore device authorizations', () => {
+	it('hands out the approved session once', async () => {
+		const store = env.AUTH_STORE.get(env.AUTH_STORE.idFromName('device-approve'));
+		const { device_code, user_code } = await store.createDeviceAuthorization('Living room TV');
+		expect(user_code).toMatch(/^[A-Z]{4}-[A-Z]{4}$/);
+
+		expect(await store.pollDeviceAuthorization(device_code)).toEqual({ error: 'authorization_pending' });
+		// Polling again right away is too fast
+		expect(await store.pollDeviceAuthorization(device_code)).toEqual({ error: 'slow_down' });
+
+		expect(await store.getPendingDeviceAuthorization(user_code.toLowerCase().replace('-', ''))).toMatchObject({ device_name: 'Living room TV' });
+		const claims = { id: 'user-1', name: 'User', device_id: 'device-1' };
+		expect(await store.decideDeviceAuthorization(user_code, claims)).toBe(true);
+		expect(await store.decideDeviceAuthorization(user_code, null)).toBe(false);
+
+		expect(await store.pollDeviceAuthorization(device_code)).toEqual({ claims });
+		expect(await store.pollDeviceAuthorization(device_code)).toEqual({ error: 'invalid_grant' });
+	});
+
+	it('reports a denied login', async () => {
+		const store = env.AUTH_STORE.get(env.AUTH_STORE.idFromName('device-deny'));
+		const { device_code, user_code } = await store.createDeviceAuthorization('Kiosk');
+		expect(await store.decideDeviceAuthorization(user_code, null)).toBe(true);
+		expect(await store.getPendingDeviceAuthorization(user_code)).toBeNull();
+		expect(await store.pollDeviceAuthorization(device_code)).toEqual({ error: 'access_denied' });
+	});
+});
@@ -0,0 +1,28 @@
+import { env, SELF } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { createSession } from '../src/session';
+
+function post(path: string, body: Record<string, unknown>, token?: string) {
+	return SELF.fetch(`https://auth.example.com${path}`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+		body: JSON.stringify(body),
+	});
+}
+
+describe('Device-code login', () => {
+	it('registers the approved device as a new device, whatever identifier it asks for', async () => {
+		const { token } = await createSession(env, { id: 'user-1', name: 'User' });
+		// The user already has a device with this identifier (see vitest.config.mts)
+		const started = await post('/auth/device/code', { device_name: 'Kiosk', device_identifier: 'existing-phone' });
+		const { device_code, user_code } = await started.json<{ device_code: string; user_code: string }>();
+
+		const approved = await post('/auth/device/approve', { user_code }, token);
+		expect(approved.status).toBe(200);
+		const { device_id } = await approved.json<{ device_id: string }>();
+		expect(device_id).not.toBe('phone-1');
+
+		const session = await post('/auth/device/token', { device_code });
+		expect(await session.json()).toMatchObject({ device_id });
+	});
+});
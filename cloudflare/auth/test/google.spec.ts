@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { exportJWK, generateKeyPair, SignJWT, type JWK } from 'jose';
+import { verifyGoogleIdToken } from '../src/google';
+import { IdTokenError } from '../src/id-token';
+import { cacheLifetimeMs, createRemoteJWKSCache } from '../src/jwks';
+
+const CLIENT_ID = 'client-1.apps.googleusercontent.com';
+
+async function newKey(kid: string) {
+	const { privateKey, publicKey } = await generateKeyPair('RS256');
+	const jwk: JWK = { ...(await exportJWK(publicKey)), kid, alg: 'RS256' };
+	return { kid, privateKey, jwk };
+}
+
+type Key = Awaited<ReturnType<typeof newKey>>;
+
+function signIdToken(key: Key, claims: Record<string, unknown> = {}, expiresIn: string | number = '1h') {
+	return new SignJWT({ iss: 'https://accounts.google.com', aud: CLIENT_ID, sub: 'google-1', email: 'u@example.com', email_verified: true, ...claims })
+		.setProtectedHeader({ alg: 'RS256', kid: key.kid })
+		.setIssuedAt()
+		.setExpirationTime(expiresIn)
+		.sign(key.privateKey);
+}
+
+async function failureReason(promise: Promise<unknown>) {
+	const err = await promise.then(
+		() => null,
+		(e) => e
+	);
+	expect(err).toBeInstanceOf(IdTokenError);
+	return err.reason;
+}
+
+let keyA: Key;
+let keyB: Key;
+
+beforeAll(async () => {
+	keyA = await newKey('a');
+	keyB = await newKey('b');
+});
+
+describe('verifyGoogleIdToken', () => {
+	const jwks = async () => ({ keys: [keyA.jwk] });
+
+	it('accepts a valid token', async () => {
+		const payload = await verifyGoogleIdToken(await signIdToken(keyA), CLIENT_ID, jwks);
+		expect(payload.sub).toBe('google-1');
+	});
+
+	it('reports why a token is rejected', async () => {
+		expect(await failureReason(verifyGoogleIdToken(await signIdToken(keyA, {}, Math.floor(Date.now() / 1000) - 60), CLIENT_ID, jwks))).toBe(
+			'id_token_expired'
+		);
+		expect(await failureReason(verifyGoogleIdToken(await signIdToken(keyA, { aud: 'other' }), CLIENT_ID, jwks))).toBe('wrong_audience');
+		expect(await failureReason(verifyGoogleIdToken(await signIdToken(keyA, { iss: 'https://evil.example' }), CLIENT_ID, jwks))).toBe(
+			'wrong_issuer'
+		);
+		expect(await failureReason(verifyGoogleIdToken(await signIdToken(keyA, { email_verified: false }), CLIENT_ID, jwks))).toBe(
+			'email_not_verified'
+		);
+		expect(await failureReason(verifyGoogleIdToken(await signIdToken(keyB), CLIENT_ID, jwks))).toBe('unknown_signing_key');
+		expect(await failureReason(verifyGoogleIdToken('not-a-jwt', CLIENT_ID, jwks))).toBe('malformed_id_token');
+	});
+
+	it('reports a forged signature', async () => {
+		const forged = { ...keyB, kid: 'a' };
+		expect(await failureReason(verifyGoogleIdToken(await signIdToken(forged), CLIENT_ID, jwks))).toBe('invalid_signature');
+	});
+});
+
+describe('createRemoteJWKSCache', () => {
+	it('reads the lifetime from Cache-Control', () => {
+		expect(cacheLifetimeMs(new Headers({ 'Cache-Control': 'public, max-age=21600, must-revalidate' }))).toBe(21600 * 1000);
+		expect(cacheLifetimeMs(new Headers({ 'Cache-Control': 'max-age=600', Age: '100' }))).toBe(500 * 1000);
+		expect(cacheLifetimeMs(new Headers({ 'Cache-Control': 'no-store' }))).toBe(0);
+		expect(cacheLifetimeMs(new Headers())).toBeNull();
+	});
+
+	it('caches until max-age and refetches early for an unknown kid', async () => {
+		let keys = [keyA.jwk];
+		let fetches = 0;
+		let now = 0;
+		const getJWKS = createRemoteJWKSCache('https://example.com/certs', {
+			fetch: async () => {
+				fetches++;
+				return Response.json({ keys }, { headers: { 'Cache-Control': 'public, max-age=3600' } });
+			},
+			now: () => now,
+		});
+
+		await getJWKS('a');
+		now = 30 * 60 * 1000;
+		await getJWKS('a');
+		expect(fetches).toBe(1);
+
+		keys = [keyA.jwk, keyB.jwk];
+		const jwks = await getJWKS('b');
+		expect(fetches).toBe(2);
+		expect(jwks.keys.map((k) => k.kid)).toEqual(['a', 'b']);
+
+		now += 60 * 60 * 1000;
+		await getJWKS('a');
+		expect(fetches).toBe(3);
+	});
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { exportJWK, generateKeyPair, jwtVerify, SignJWT } from 'jose';
+import { getActiveSigningKey, getPublicJWKS, getVerificationKeySet } from '../src/keys';
+
+async function newSigningKey(kid: string, status: 'active' | 'retiring') {
+	const { privateKey } = await generateKeyPair('RS256', { extractable: true });
+	return { ...(await exportJWK(privateKey)), kid, status };
+}
+
+describe('JWT signing keys', async () => {
+	const env = {
+		JWT_SIGNING_KEYS: JSON.stringify([await newSigningKey('old', 'retiring'), await newSigningKey('new', 'active')]),
+	};
+
+	it('publishes only the public halves of every key', () => {
+		const { keys } = getPublicJWKS(env);
+		expect(keys.map((k) => k.kid)).toEqual(['old', 'new']);
+		for (const key of keys) {
+			expect(key).not.toHaveProperty('d');
+		}
+	});
+
+	it('signs with the active key and verifies by kid', async () => {
+		const { kid, key } = await getActiveSigningKey(env);
+		expect(kid).toBe('new');
+		const token = await new SignJWT({ id: 'user-1' }).setProtectedHeader({ alg: 'RS256', kid }).sign(key);
+		const { payload } = await jwtVerify(token, getVerificationKeySet(env));
+		expect(payload.id).toBe('user-1');
+	});
+
+	it('falls back to the legacy single JWT_PRIVATE_KEY', async () => {
+		const { kid, status, ...legacy } = await newSigningKey('ignored', 'active');
+		const { kid: activeKid } = await getActiveSigningKey({ JWT_PRIVATE_KEY: JSON.stringify(legacy) });
+		expect(activeKid).toBe('default');
+	});
+});
@@ -1,10 +1,69 @@
 import { defineWorkersConfig } from '@cloudflare/vitest-pool-workers/config';
 
+// Access tokens are signed with this key in tests (JWT_SIGNING_KEYS, see src/keys.ts)
+const { privateKey } = await crypto.subtle.generateKey(
+	{ name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+	true,
+	['sign', 'verify']
+);
+const signingKey = { ...(await crypto.subtle.exportKey('jwk', privateKey)), kid: 'test', status: 'active' };
+
+// Device-management stand-in. The caller's group role comes from the prefix of their user id: owner-*, admin-* and
+// viewer-* are members of every group, whose camera is 'camera-1', and anyone else isn't. Registering a device whose
+// identifier the user already has (here 'existing-phone') gives back that device, as DeviceManager does; any other
+// identifier registers a new device.
+async function deviceManagement(request: Request): Promise<Response> {
+	const url = new URL(request.url);
+	const { pathname } = url;
+	if (pathname === '/group-membership') {
+		const token = request.headers.get('Authorization')!.slice('Bearer '.length);
+		const { id } = JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString()) as { id: string };
+		const role = id.split('-')[0];
+		if (['owner', 'admin', 'viewer'].includes(role)) {
+			const group = { group_id: url.searchParams.get('group_id'), camera_device_id: 'camera-1' };
+			return new Response(JSON.stringify({ group, member_device_ids: [url.searchParams.get('device_id')], role }));
+		}
+	}
+	if (pathname === '/devices/register') {
+		const { device_name, device_identifier } = (await request.json()) as { device_name: string; device_identifier?: string };
+		const device_id = device_identifier === 'existing-phone' ? 'phone-1' : `device-${crypto.randomUUID()}`;
+		return new Response(JSON.stringify({ device_id, device_name, device_identifier }));
+	}
+	return new Response(JSON.stringify({ error: 'Not a member of this group' }), { status: 403 });
+}
+
 export default defineWorkersConfig({
 	test: {
 		poolOptions: {
 			workers: {
 				wrangler: { configPath: './wrangler.jsonc' },
+				miniflare: {
+					bindings: {
+						JWT_SIGNING_KEYS: JSON.stringify([signingKey]),
+						AGORA_APP_ID: '970ca35de60c44645bbae8a215061b33',
+						AGORA_APP_CERTIFICATE: '5cfd2fd1755d40ecb72977518be15d3b',
+					},
+					// Stand-ins for the device-management and stream-control workers, which aren't running during tests
+					serviceBindings: {
+						DEVICE_MANAGEMENT: deviceManagement,
+						STREAM_CONTROL: () => new Response(JSON.stringify({ viewers: 0, max_viewers: 10 })),
+					},
+					// AccountRooms, bound from stream-control, with no rooms to close
+					workers: [
+						{
+							name: 'stream-control',
+							modules: true,
+							script: `
+								import { DurableObject } from 'cloudflare:workers';
+								export class AccountRooms extends DurableObject {
+									async disconnectUser() { return 0; }
+								}
+								export default { fetch: () => new Response(null, { status: 404 }) };
+							`,
+							durableObjects: { ACCOUNT_ROOMS: 'AccountRooms' },
+						},
+					],
+				},
 			},
 		},
 	},
@@ -1,10 +1,28 @@
 import { DurableObject } from "cloudflare:workers";
-import { jwtVerify } from "jose";
+import {
+	assertDeviceBinding,
+	assertGroupPermission,
+	AuthError,
+	corsHeaders,
+	createRemoteTokenVerifier,
+	errorResponse,
+	extractBearerToken,
+	GroupPermissionError,
+	jsonResponse,
+	preflightResponse,
+	type AccessTokenClaims,
+	type GroupAction,
+	type GroupRole,
+	type WebhookEventType,
+} from "@petube/shared";
+import { createSubscription, createWebhookSecret, createWebhookTables, deleteSubscription, deliverDueWebhooks, enqueueEvent, enqueuePing, listDeliveries, listSubscriptions, ownsSubscription, parseSubscription, parseWebhookUrl } from "./webhooks";
+import { createNotifier, NOTIFICATION_CHANNELS, type EventNotification, type NotificationChannel, type NotificationTarget, type Notifier, type NotifierEnv } from "./notifier";
 
 /**
  * DeviceManager Durable Object handles device registration and exclusive pairing groups
  * Each device can only be in one pairing group at a time
  * Groups can contain devices from different accounts (cross-account sharing)
+ * Each account in a group has a role (owner, admin or viewer, see roles.ts in @petube/shared)
  * 
  * Now uses SQLite for better performance and relational queries
  */
@@ -26,6 +44,7 @@ interface PairingGroup {
 	group_id: string;
 	group_name: string;
 	device_ids: string[]; // All devices currently in this group
+	camera_device_id: string | null; // Device designated as the group's camera (Agora publisher)
 	created_by: string;
 	created_at: number;
 }
@@ -43,14 +62,75 @@ interface PairingInvite {
 	group_id: string;
 	group_name: string;
 	inviter_name: string;
+	role: GroupRole; // Role the invited account gets, unless it is already a member
 }
 
+interface GroupMember {
+	user_id: string;
+	role: GroupRole;
+	added_at: number;
+}
+
+// Detections reported by a group's camera, fanned out as notifications to the group's other devices
+type DeviceEventType = 'motion' | 'bark' | 'noise';
+
+const DEVICE_EVENT_TYPES: DeviceEventType[] = ['motion', 'bark', 'noise'];
+
+interface DeviceEvent {
+	event_id: string;
+	group_id: string;
+	device_id: string;
+	event_type: DeviceEventType;
+	level: number | null; // Detector confidence or loudness, 0..1
+	occurred_at: number;
+	received_at: number;
+}
+
+const EVENT_DEDUPE_WINDOW_MS = 60 * 1000; // Repeats of the same detection on a device within this window are folded into one
+const EVENT_RATE_LIMIT_PER_HOUR = 60; // Per device
+const EVENT_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+const EVENT_CLOCK_SKEW_MS = 5 * 60 * 1000; // occurred_at may not be later than this past the server's clock
+const EVENTS_DEFAULT_PAGE = 50;
+const EVENTS_MAX_PAGE = 200;
+const MAX_TARGETS_PER_DEVICE = 10;
+
+const EVENT_TITLES: Record<DeviceEventType, string> = {
+	motion: 'Motion detected',
+	bark: 'Barking detected',
+	noise: 'Noise detected',
+};
+
+// Stills taken by a camera on request (the `snapshot` room command), stored in R2 under <group id>/<device id>/
+interface Snapshot {
+	snapshot_id: string;
+	group_id: string;
+	device_id: string;
+	captured_at: number;
+	url: string;
+	thumbnail_url: string;
+}
+
+const SNAPSHOT_TYPES: Record<string, string> = { 'image/jpeg': 'jpg', 'image/png': 'png', 'image/webp': 'webp' };
+const SNAPSHOT_MAX_BYTES = 2 * 1024 * 1024;
+const THUMBNAIL_MAX_BYTES = 100 * 1024;
+const SNAPSHOT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const SNAPSHOTS_PER_DEVICE = 20; // Older ones are deleted as new ones arrive
+
+type ReportEventResult =
+	| { status: 'stored'; event: DeviceEvent }
+	| { status: 'duplicate'; event: DeviceEvent }
+	| { status: 'rate_limited'; retry_after: number };
+
 export class DeviceManager extends DurableObject<Env> {
 	private sql: SqlStorage;
+	private verifyToken: (token: string) => Promise<AccessTokenClaims>;
+	private notifier: Notifier;
 
 	constructor(ctx: DurableObjectState, env: Env) {
 		super(ctx, env);
 		this.sql = ctx.storage.sql;
+		this.verifyToken = createRemoteTokenVerifier(env.AUTH);
+		this.notifier = createNotifier(env);
 		this.initializeSchema();
 		console.log(`[DeviceManager] SQLite-backed Durable Object created`);
 	}
@@ -78,6 +158,7 @@ export class DeviceManager extends DurableObject<Env> {
 			CREATE TABLE IF NOT EXISTS pairing_groups (
 				group_id TEXT PRIMARY KEY,
 				group_name TEXT NOT NULL,
+				camera_device_id TEXT,
 				created_by TEXT NOT NULL,
 				created_at INTEGER NOT NULL
 			)
@@ -95,36 +176,108 @@ export class DeviceManager extends DurableObject<Env> {
 			)
 		`);
 
+		// Create group members table: the role of each account with a device in a group
+		const hadMembers = this.sql.exec(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'group_members'`).toArray().length > 0;
+		this.sql.exec(`
+			CREATE TABLE IF NOT EXISTS group_members (
+				group_id TEXT NOT NULL,
+				user_id TEXT NOT NULL,
+				role TEXT NOT NULL CHECK (role IN ('owner', 'admin', 'viewer')),
+				added_at INTEGER NOT NULL,
+				PRIMARY KEY (group_id, user_id),
+				FOREIGN KEY (group_id) REFERENCES pairing_groups(group_id) ON DELETE CASCADE
+			)
+		`);
+		if (!hadMembers) {
+			// Groups from before roles: the creator owns it, and everyone else keeps the say they had as an admin
+			this.sql.exec(`
+				INSERT OR IGNORE INTO group_members (group_id, user_id, role, added_at)
+				SELECT group_id, created_by, 'owner', created_at FROM pairing_groups
+			`);
+			this.sql.exec(`
+				INSERT OR IGNORE INTO group_members (group_id, user_id, role, added_at)
+				SELECT DISTINCT d.current_group_id, d.owner_id, 'admin', g.created_at
+				FROM devices d JOIN pairing_groups g ON g.group_id = d.current_group_id
+			`);
+		}
+
+		// Create device events table (client_event_id: the camera's own id, so retried reports are recognized)
+		this.sql.exec(`
+			CREATE TABLE IF NOT EXISTS device_events (
+				event_id TEXT PRIMARY KEY,
+				group_id TEXT NOT NULL,
+				device_id TEXT NOT NULL,
+				event_type TEXT NOT NULL CHECK (event_type IN ('motion', 'bark', 'noise')),
+				level REAL,
+				occurred_at INTEGER NOT NULL,
+				received_at INTEGER NOT NULL,
+				client_event_id TEXT
+			)
+		`);
+
+		// Create notification targets table: where a device wants to be alerted
+		this.sql.exec(`
+			CREATE TABLE IF NOT EXISTS notification_targets (
+				target_id TEXT PRIMARY KEY,
+				device_id TEXT NOT NULL,
+				channel TEXT NOT NULL CHECK (channel IN ('web_push', 'apns', 'webhook')),
+				endpoint TEXT NOT NULL,
+				created_at INTEGER NOT NULL,
+				UNIQUE (device_id, channel, endpoint),
+				FOREIGN KEY (device_id) REFERENCES devices(device_id) ON DELETE CASCADE
+			)
+		`);
+
+		// Create snapshots table (objects live in the SNAPSHOTS bucket; without a separate thumbnail, thumbnail_key = object_key)
+		this.sql.exec(`
+			CREATE TABLE IF NOT EXISTS snapshots (
+				snapshot_id TEXT PRIMARY KEY,
+				group_id TEXT NOT NULL,
+				device_id TEXT NOT NULL,
+				object_key TEXT NOT NULL,
+				thumbnail_key TEXT NOT NULL,
+				captured_at INTEGER NOT NULL
+			)
+		`);
+
+		// Create webhook subscription and delivery log tables
+		createWebhookTables(this.sql);
+
+		// Columns added after the initial schema
+		this.addColumnIfMissing('pairing_groups', 'camera_device_id', 'TEXT');
+		this.addColumnIfMissing('pairing_sessions', 'role', "TEXT NOT NULL DEFAULT 'viewer'");
+		this.addColumnIfMissing('notification_targets', 'secret', 'TEXT');
+
 		// Create indexes for better query performance
 		this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_devices_owner_id ON devices(owner_id)`);
 		this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_devices_current_group_id ON devices(current_group_id)`);
 		this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_devices_identifier ON devices(device_identifier)`);
 		this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_pairing_sessions_expires_at ON pairing_sessions(expires_at)`);
 		this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_pairing_sessions_group_id ON pairing_sessions(group_id)`);
+		this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_device_events_group ON device_events(group_id, occurred_at)`);
+		this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_device_events_device ON device_events(device_id, received_at)`);
+		this.sql.exec(`CREATE UNIQUE INDEX IF NOT EXISTS idx_device_events_client_id ON device_events(device_id, client_event_id)`);
+		this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_snapshots_device ON snapshots(device_id, captured_at)`);
+		this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_snapshots_captured_at ON snapshots(captured_at)`);
 
 		console.log(`[DeviceManager] SQLite schema initialized`);
 	}
 
-	// Helper to verify JWT and extract user info
-	async verifyJWT(request: Request): Promise<any> {
-		const authHeader = request.headers.get("Authorization");
-		if (!authHeader || !authHeader.startsWith("Bearer ")) {
-			throw new Error("Missing or invalid authorization header");
-		}
-
-		const token = authHeader.slice(7);
-		if (!this.env.JWT_PUBLIC_KEY) {
-			throw new Error("JWT_PUBLIC_KEY is not configured");
+	// Helper: add a column to an existing table (CREATE TABLE IF NOT EXISTS won't alter it)
+	private addColumnIfMissing(table: string, column: string, definition: string): void {
+		const columns = this.sql.exec(`PRAGMA table_info(${table})`).toArray();
+		if (!columns.some((c) => c.name === column)) {
+			this.sql.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
 		}
+	}
 
+	// Helper to verify JWT and extract user info
+	async verifyJWT(request: Request): Promise<AccessTokenClaims> {
 		try {
-			const { importJWK } = await import('jose');
-			const publicKeyObj = await importJWK(JSON.parse(this.env.JWT_PUBLIC_KEY), 'RS256');
-			const { payload } = await jwtVerify(token, publicKeyObj);
-			return payload;
+			return await this.verifyToken(extractBearerToken(request));
 		} catch (err) {
 			console.error(`[DeviceManager] JWT verification failed: ${(err as Error).message}`);
-			throw new Error("Invalid token");
+			throw err;
 		}
 	}
 
@@ -153,6 +306,27 @@ export class DeviceManager extends DurableObject<Env> {
 		};
 	}
 
+	// Role of an account in a group, or null if it has no device there
+	private getMemberRole(group_id: string, user_id: string): GroupRole | null {
+		const row = this.sql.exec(`SELECT role FROM group_members WHERE group_id = ? AND user_id = ?`, group_id, user_id).toArray()[0];
+		return row ? row.role as GroupRole : null;
+	}
+
+	// Helper to check the account's role in a group allows an action (throws GroupPermissionError)
+	private requireGroupPermission(group_id: string, user_id: string, action: GroupAction): GroupRole {
+		return assertGroupPermission(this.getMemberRole(group_id, user_id), action);
+	}
+
+	private getGroupMembers(group_id: string): GroupMember[] {
+		return this.sql.exec(`
+			SELECT user_id, role, added_at FROM group_members WHERE group_id = ? ORDER BY added_at
+		`, group_id).toArray().map((row) => ({
+			user_id: row.user_id as string,
+			role: row.role as GroupRole,
+			added_at: row.added_at as number
+		}));
+	}
+
 	// Register device on login - handles device identity persistence across app reinstalls
 	async registerDevice(device_name: string, device_type: 'ios' | 'web', owner_id: string, device_identifier?: string): Promise<Device> {
 		const now = Date.now();
@@ -163,7 +337,7 @@ export class DeviceManager extends DurableObject<Env> {
 				SELECT device_id, device_name, owner_id, current_group_id, device_type, created_at, last_seen, is_active
 				FROM devices 
 				WHERE device_identifier = ? AND owner_id = ?
-			`, device_identifier, owner_id).one();
+			`, device_identifier, owner_id).toArray()[0];
 
 			if (existingDevice) {
 				// Reactivate existing device and update info
@@ -207,6 +381,7 @@ export class DeviceManager extends DurableObject<Env> {
 		`, device_id, device_name, owner_id, null, device_type, now, now, true, device_identifier);
 
 		console.log(`[DeviceManager] New device registered: ${device_id} for user: ${owner_id}`);
+		await this.emitWebhook([owner_id], 'device.registered', { device_id, device_name, device_type });
 		return device;
 	}
 
@@ -238,9 +413,12 @@ export class DeviceManager extends DurableObject<Env> {
 	}
 
 	// Generate QR code for pairing (automatically creates group if device isn't in one)
-	async generatePairingQR(device_id: string, user_id: string): Promise<PairingInvite> {
+	async generatePairingQR(device_id: string, user_id: string, role: GroupRole = 'viewer'): Promise<PairingInvite> {
 		// Verify device ownership
 		const device = await this.verifyDeviceOwnership(device_id, user_id);
+		if (role === 'owner') {
+			throw new Error("A group has a single owner; invite as admin or viewer");
+		}
 
 		let group_id = device.current_group_id;
 		let group_name: string;
@@ -256,6 +434,9 @@ export class DeviceManager extends DurableObject<Env> {
 				INSERT INTO pairing_groups (group_id, group_name, created_by, created_at)
 				VALUES (?, ?, ?, ?)
 			`, group_id, group_name, user_id, now);
+			this.sql.exec(`
+				INSERT INTO group_members (group_id, user_id, role, added_at) VALUES (?, ?, 'owner', ?)
+			`, group_id, user_id, now);
 
 			// Update device's current group
 			this.sql.exec(`
@@ -275,6 +456,11 @@ export class DeviceManager extends DurableObject<Env> {
 				throw new Error("Device's pairing group not found");
 			}
 			group_name = groupResult.group_name as string;
+			this.requireGroupPermission(group_id, user_id, 'invite');
+		}
+		// Admins are made by the owner
+		if (role === 'admin') {
+			this.requireGroupPermission(group_id, user_id, 'manage_roles');
 		}
 
 		const session_id = crypto.randomUUID();
@@ -290,9 +476,9 @@ export class DeviceManager extends DurableObject<Env> {
 
 		// Insert new session
 		this.sql.exec(`
-			INSERT INTO pairing_sessions (session_id, group_id, created_by, expires_at, qr_code_data)
-			VALUES (?, ?, ?, ?, ?)
-		`, session_id, group_id, user_id, expires_at, qr_code_data);
+			INSERT INTO pairing_sessions (session_id, group_id, created_by, expires_at, qr_code_data, role)
+			VALUES (?, ?, ?, ?, ?, ?)
+		`, session_id, group_id, user_id, expires_at, qr_code_data, role);
 
 		console.log(`[DeviceManager] Pairing QR generated for group: ${group_id}`);
 
@@ -300,7 +486,8 @@ export class DeviceManager extends DurableObject<Env> {
 			session_id,
 			group_id,
 			group_name,
-			inviter_name: device.device_name
+			inviter_name: device.device_name,
+			role
 		};
 	}
 
@@ -308,7 +495,7 @@ export class DeviceManager extends DurableObject<Env> {
 	async pairDevice(session_id: string, device_id: string, user_id: string): Promise<PairingGroup> {
 		// Get session and verify it exists and is not expired
 		const sessionResult = this.sql.exec(`
-			SELECT session_id, group_id, created_by, expires_at, qr_code_data
+			SELECT session_id, group_id, created_by, expires_at, qr_code_data, role
 			FROM pairing_sessions 
 			WHERE session_id = ?
 		`, session_id).one();
@@ -325,7 +512,7 @@ export class DeviceManager extends DurableObject<Env> {
 
 		// Get group info
 		const groupResult = this.sql.exec(`
-			SELECT group_id, group_name, created_by, created_at
+			SELECT group_id, group_name, camera_device_id, created_by, created_at
 			FROM pairing_groups 
 			WHERE group_id = ?
 		`, sessionResult.group_id).one();
@@ -337,19 +524,28 @@ export class DeviceManager extends DurableObject<Env> {
 		// Verify device ownership
 		const device = await this.verifyDeviceOwnership(device_id, user_id);
 
-		// Remove device from current group if it's in one
-		await this.removeDeviceFromCurrentGroup(device_id);
+		// Already in this group (e.g. a member scanning their own group's QR code): nothing changes, and the invitation
+		// stays valid. Leaving and joining again would drop the account's membership and hand it the invitation's role.
+		const alreadyInGroup = device.current_group_id === groupResult.group_id;
+		if (!alreadyInGroup) {
+			// Remove device from current group if it's in one
+			await this.removeDeviceFromCurrentGroup(device_id);
 
-		// Add device to new group
-		const now = Date.now();
-		this.sql.exec(`
-			UPDATE devices 
-			SET current_group_id = ?, last_seen = ? 
-			WHERE device_id = ?
-		`, groupResult.group_id, now, device_id);
+			// Add device to new group
+			const now = Date.now();
+			this.sql.exec(`
+				UPDATE devices 
+				SET current_group_id = ?, last_seen = ? 
+				WHERE device_id = ?
+			`, groupResult.group_id, now, device_id);
+			// An account that is already a member keeps its role
+			this.sql.exec(`
+				INSERT OR IGNORE INTO group_members (group_id, user_id, role, added_at) VALUES (?, ?, ?, ?)
+			`, groupResult.group_id, user_id, sessionResult.role, now);
 
-		// Clean up session
-		this.sql.exec(`DELETE FROM pairing_sessions WHERE session_id = ?`, session_id);
+			// Clean up session
+			this.sql.exec(`DELETE FROM pairing_sessions WHERE session_id = ?`, session_id);
+		}
 
 		// Get all devices in the group for the response
 		const groupDevices = this.sql.exec(`
@@ -361,17 +557,44 @@ export class DeviceManager extends DurableObject<Env> {
 			device_ids.push(row.device_id as string);
 		}
 
-		console.log(`[DeviceManager] Device ${device_id} (${device.device_name}) paired to group ${groupResult.group_id}`);
+		if (alreadyInGroup) {
+			console.log(`[DeviceManager] Device ${device_id} (${device.device_name}) is already in group ${groupResult.group_id}`);
+		} else {
+			console.log(`[DeviceManager] Device ${device_id} (${device.device_name}) paired to group ${groupResult.group_id}`);
+			await this.emitGroupEvent(groupResult.group_id as string, 'device.paired', {
+				group_name: groupResult.group_name,
+				device_id,
+				device_name: device.device_name
+			});
+		}
 		
 		return {
 			group_id: groupResult.group_id as string,
 			group_name: groupResult.group_name as string,
 			device_ids,
+			camera_device_id: groupResult.camera_device_id as string | null,
 			created_by: groupResult.created_by as string,
 			created_at: groupResult.created_at as number
 		};
 	}
 
+	// Designate one of the user's devices as the camera (Agora publisher) of its current group
+	async setGroupCamera(device_id: string, user_id: string): Promise<void> {
+		const device = await this.verifyDeviceOwnership(device_id, user_id);
+		if (!device.current_group_id) {
+			throw new Error("Device is not in a pairing group");
+		}
+		this.requireGroupPermission(device.current_group_id, user_id, 'publish');
+
+		this.sql.exec(`
+			UPDATE pairing_groups 
+			SET camera_device_id = ? 
+			WHERE group_id = ?
+		`, device_id, device.current_group_id);
+
+		console.log(`[DeviceManager] Device ${device_id} designated as camera of group ${device.current_group_id}`);
+	}
+
 	// Leave current pairing group
 	async leavePairingGroup(device_id: string, user_id: string): Promise<void> {
 		// Verify device ownership
@@ -381,11 +604,34 @@ export class DeviceManager extends DurableObject<Env> {
 		console.log(`[DeviceManager] Device ${device_id} left pairing group`);
 	}
 
-	// Helper: Remove device from its current group
-	private async removeDeviceFromCurrentGroup(device_id: string): Promise<void> {
+	// Remove another device from the group of one of the user's devices (owner and admins). Only the owner
+	// can remove the owner's devices.
+	async removeGroupDevice(device_id: string, user_id: string, target_device_id: string): Promise<void> {
+		const device = await this.verifyDeviceOwnership(device_id, user_id);
+		if (!device.current_group_id) {
+			throw new Error("Device is not in a pairing group");
+		}
+		const group_id = device.current_group_id;
+		const role = this.requireGroupPermission(group_id, user_id, 'remove');
+		const target = this.sql.exec(`
+			SELECT owner_id FROM devices WHERE device_id = ? AND current_group_id = ?
+		`, target_device_id, group_id).toArray()[0];
+		if (!target) {
+			throw new Error("Device is not in this group");
+		}
+		if (role !== 'owner' && this.getMemberRole(group_id, target.owner_id as string) === 'owner') {
+			throw new GroupPermissionError('remove', role);
+		}
+
+		await this.removeDeviceFromCurrentGroup(target_device_id, user_id);
+		console.log(`[DeviceManager] Device ${target_device_id} removed from group ${group_id} by user ${user_id}`);
+	}
+
+	// Helper: Remove device from its current group (`removed_by`: the account that removed it, if not its owner)
+	private async removeDeviceFromCurrentGroup(device_id: string, removed_by?: string): Promise<void> {
 		// Get current group for the device
 		const deviceResult = this.sql.exec(`
-			SELECT current_group_id FROM devices WHERE device_id = ?
+			SELECT current_group_id, owner_id FROM devices WHERE device_id = ?
 		`, device_id).one();
 
 		if (!deviceResult || !deviceResult.current_group_id) {
@@ -393,15 +639,24 @@ export class DeviceManager extends DurableObject<Env> {
 		}
 
 		const current_group_id = deviceResult.current_group_id as string;
+		// Everyone in the group hears about it, including the device that is leaving
+		const member_user_ids = this.groupMemberUserIds(current_group_id);
 
-		// Remove device from group
+		// Remove device from group (and drop its camera designation)
 		const now = Date.now();
+		this.sql.exec(`
+			UPDATE pairing_groups 
+			SET camera_device_id = NULL 
+			WHERE group_id = ? AND camera_device_id = ?
+		`, current_group_id, device_id);
 		this.sql.exec(`
 			UPDATE devices 
 			SET current_group_id = NULL, last_seen = ? 
 			WHERE device_id = ?
 		`, now, device_id);
 
+		this.updateMembershipAfterLeaving(current_group_id, deviceResult.owner_id as string);
+
 		// Check if group is now empty and delete if so
 		const remainingDevices = this.sql.exec(`
 			SELECT COUNT(*) as count FROM devices WHERE current_group_id = ?
@@ -410,12 +665,117 @@ export class DeviceManager extends DurableObject<Env> {
 		if (remainingDevices && remainingDevices.count === 0) {
 			// Delete empty group and related sessions
 			this.sql.exec(`DELETE FROM pairing_sessions WHERE group_id = ?`, current_group_id);
+			this.sql.exec(`DELETE FROM group_members WHERE group_id = ?`, current_group_id);
 			this.sql.exec(`DELETE FROM pairing_groups WHERE group_id = ?`, current_group_id);
 		}
+
+		this.disconnectFromRoom(current_group_id, device_id);
+		await this.emitWebhook(member_user_ids, 'device.left_group', { group_id: current_group_id, device_id, removed_by: removed_by ?? null });
+	}
+
+	// Close the sockets the device still has in the group's StreamRoom (the room id is the group id).
+	// Best effort: leaving the group doesn't wait for, or fail with, stream-control.
+	private disconnectFromRoom(group_id: string, device_id: string): void {
+		const room = this.env.STREAM_ROOM.get(this.env.STREAM_ROOM.idFromName(group_id));
+		this.ctx.waitUntil(
+			room.disconnectDevice(device_id).catch((err) => console.error(`[DeviceManager] Disconnecting device ${device_id} from room ${group_id} failed: ${(err as Error).message}`))
+		);
+	}
+
+	// An account whose last device left a group is no longer a member. A leaving owner hands the group
+	// to the longest-standing admin, or else to the longest-standing member.
+	private updateMembershipAfterLeaving(group_id: string, user_id: string): void {
+		const devicesLeft = this.sql.exec(`
+			SELECT COUNT(*) as count FROM devices WHERE current_group_id = ? AND owner_id = ?
+		`, group_id, user_id).one();
+		if ((devicesLeft.count as number) > 0) {
+			return;
+		}
+
+		const role = this.getMemberRole(group_id, user_id);
+		this.sql.exec(`DELETE FROM group_members WHERE group_id = ? AND user_id = ?`, group_id, user_id);
+		// Invitations the account handed out no longer let anyone in
+		this.sql.exec(`DELETE FROM pairing_sessions WHERE group_id = ? AND created_by = ?`, group_id, user_id);
+		if (role !== 'owner') {
+			return;
+		}
+		const successor = this.sql.exec(`
+			SELECT user_id FROM group_members WHERE group_id = ?
+			ORDER BY CASE role WHEN 'admin' THEN 0 ELSE 1 END, added_at
+			LIMIT 1
+		`, group_id).toArray()[0];
+		if (successor) {
+			this.sql.exec(`UPDATE group_members SET role = 'owner' WHERE group_id = ? AND user_id = ?`, group_id, successor.user_id);
+			console.log(`[DeviceManager] Ownership of group ${group_id} passed to user ${successor.user_id}`);
+		}
+	}
+
+	// Rename the group of one of the user's devices
+	async renameGroup(device_id: string, user_id: string, group_name: string): Promise<void> {
+		const device = await this.verifyDeviceOwnership(device_id, user_id);
+		if (!device.current_group_id) {
+			throw new Error("Device is not in a pairing group");
+		}
+		this.requireGroupPermission(device.current_group_id, user_id, 'rename');
+
+		this.sql.exec(`UPDATE pairing_groups SET group_name = ? WHERE group_id = ?`, group_name, device.current_group_id);
+		console.log(`[DeviceManager] Group ${device.current_group_id} renamed by user ${user_id}`);
+	}
+
+	// Make another member of the group an admin or a viewer (owner only)
+	async setMemberRole(device_id: string, user_id: string, member_user_id: string, role: GroupRole): Promise<GroupMember[]> {
+		const device = await this.verifyDeviceOwnership(device_id, user_id);
+		if (!device.current_group_id) {
+			throw new Error("Device is not in a pairing group");
+		}
+		const group_id = device.current_group_id;
+		this.requireGroupPermission(group_id, user_id, 'manage_roles');
+		if (role === 'owner') {
+			throw new Error("Ownership can't be assigned as a role");
+		}
+		const current = this.getMemberRole(group_id, member_user_id);
+		if (!current) {
+			throw new Error("User is not a member of this group");
+		}
+		if (current === 'owner') {
+			throw new Error("The owner's role can't be changed");
+		}
+
+		this.sql.exec(`UPDATE group_members SET role = ? WHERE group_id = ? AND user_id = ?`, role, group_id, member_user_id);
+		if (role === 'viewer') {
+			// Viewers can't be the camera
+			this.sql.exec(`
+				UPDATE pairing_groups SET camera_device_id = NULL
+				WHERE group_id = ? AND camera_device_id IN (SELECT device_id FROM devices WHERE owner_id = ?)
+			`, group_id, member_user_id);
+		}
+		console.log(`[DeviceManager] User ${member_user_id} is now ${role} of group ${group_id}`);
+		return this.getGroupMembers(group_id);
+	}
+
+	// Hand the group over to another member (owner only); the previous owner stays on as an admin
+	async transferOwnership(device_id: string, user_id: string, new_owner_id: string): Promise<GroupMember[]> {
+		const device = await this.verifyDeviceOwnership(device_id, user_id);
+		if (!device.current_group_id) {
+			throw new Error("Device is not in a pairing group");
+		}
+		const group_id = device.current_group_id;
+		this.requireGroupPermission(group_id, user_id, 'manage_roles');
+		if (new_owner_id === user_id) {
+			throw new Error("You already own this group");
+		}
+		if (!this.getMemberRole(group_id, new_owner_id)) {
+			throw new Error("User is not a member of this group");
+		}
+
+		this.sql.exec(`UPDATE group_members SET role = 'admin' WHERE group_id = ? AND user_id = ?`, group_id, user_id);
+		this.sql.exec(`UPDATE group_members SET role = 'owner' WHERE group_id = ? AND user_id = ?`, group_id, new_owner_id);
+		console.log(`[DeviceManager] Ownership of group ${group_id} transferred from user ${user_id} to user ${new_owner_id}`);
+		return this.getGroupMembers(group_id);
 	}
 
 	// Get device's current active group and all devices in that group
-	async getDeviceActiveGroup(device_id: string, user_id: string): Promise<{ group: PairingGroup | null, devices_in_group: Device[] }> {
+	async getDeviceActiveGroup(device_id: string, user_id: string): Promise<{ group: PairingGroup | null, devices_in_group: Device[], members: GroupMember[], my_role: GroupRole | null }> {
 		// Verify device ownership
 		const device = await this.verifyDeviceOwnership(device_id, user_id);
 
@@ -423,18 +783,18 @@ export class DeviceManager extends DurableObject<Env> {
 
 		// If device is not in a group, return empty result
 		if (!current_group_id) {
-			return { group: null, devices_in_group: [] };
+			return { group: null, devices_in_group: [], members: [], my_role: null };
 		}
 
 		// Get group info
 		const groupResult = this.sql.exec(`
-			SELECT group_id, group_name, created_by, created_at
+			SELECT group_id, group_name, camera_device_id, created_by, created_at
 			FROM pairing_groups 
 			WHERE group_id = ?
 		`, current_group_id).one();
 
 		if (!groupResult) {
-			return { group: null, devices_in_group: [] };
+			return { group: null, devices_in_group: [], members: [], my_role: null };
 		}
 
 		// Get ALL devices in the group (with full device info)
@@ -468,11 +828,328 @@ export class DeviceManager extends DurableObject<Env> {
 			group_id: groupResult.group_id as string,
 			group_name: groupResult.group_name as string,
 			device_ids,
+			camera_device_id: groupResult.camera_device_id as string | null,
+			created_by: groupResult.created_by as string,
+			created_at: groupResult.created_at as number
+		};
+
+		return { group, devices_in_group, members: this.getGroupMembers(current_group_id), my_role: this.getMemberRole(current_group_id, user_id) };
+	}
+
+	// Check whether the user owns a device in the given group.
+	// Returns the user's devices in that group (empty if the user is not a member) and the user's role.
+	async getGroupMembership(group_id: string, user_id: string, device_id?: string): Promise<{ group: PairingGroup | null, member_device_ids: string[], role: GroupRole | null }> {
+		const groupResult = this.sql.exec(`
+			SELECT group_id, group_name, camera_device_id, created_by, created_at
+			FROM pairing_groups 
+			WHERE group_id = ?
+		`, group_id).toArray()[0];
+
+		if (!groupResult) {
+			return { group: null, member_device_ids: [], role: null };
+		}
+
+		const groupDevices = this.sql.exec(`
+			SELECT device_id, owner_id FROM devices WHERE current_group_id = ?
+		`, group_id);
+
+		const device_ids: string[] = [];
+		const member_device_ids: string[] = [];
+		for (const row of groupDevices) {
+			device_ids.push(row.device_id as string);
+			if (row.owner_id === user_id && (!device_id || row.device_id === device_id)) {
+				member_device_ids.push(row.device_id as string);
+			}
+		}
+
+		const group: PairingGroup = {
+			group_id: groupResult.group_id as string,
+			group_name: groupResult.group_name as string,
+			device_ids,
+			camera_device_id: groupResult.camera_device_id as string | null,
 			created_by: groupResult.created_by as string,
 			created_at: groupResult.created_at as number
 		};
 
-		return { group, devices_in_group };
+		return { group, member_device_ids, role: this.getMemberRole(group_id, user_id) };
+	}
+
+	// Store an event detected by a camera and notify the group's other devices.
+	// Retries (same client_event_id) and repeats of the same detection within EVENT_DEDUPE_WINDOW_MS return the stored event.
+	async reportEvent(device_id: string, user_id: string, event_type: DeviceEventType, level: number | null, occurred_at: number, client_event_id: string | null): Promise<ReportEventResult> {
+		const device = await this.verifyDeviceOwnership(device_id, user_id);
+		if (!device.current_group_id) {
+			throw new Error("Device is not in a pairing group");
+		}
+		// Events come from cameras, and viewers can't be one
+		this.requireGroupPermission(device.current_group_id, user_id, 'publish');
+
+		const now = Date.now();
+		const duplicate = this.sql.exec(`
+			SELECT event_id, group_id, device_id, event_type, level, occurred_at, received_at
+			FROM device_events 
+			WHERE device_id = ? AND (client_event_id = ? OR (event_type = ? AND occurred_at > ? AND occurred_at < ?))
+			ORDER BY occurred_at DESC
+			LIMIT 1
+		`, device_id, client_event_id, event_type, occurred_at - EVENT_DEDUPE_WINDOW_MS, occurred_at + EVENT_DEDUPE_WINDOW_MS).toArray()[0];
+		if (duplicate) {
+			return { status: 'duplicate', event: this.toDeviceEvent(duplicate) };
+		}
+
+		const recent = this.sql.exec(`
+			SELECT COUNT(*) as count, MIN(received_at) as oldest FROM device_events WHERE device_id = ? AND received_at > ?
+		`, device_id, now - 60 * 60 * 1000).one();
+		if ((recent.count as number) >= EVENT_RATE_LIMIT_PER_HOUR) {
+			return { status: 'rate_limited', retry_after: Math.ceil(((recent.oldest as number) + 60 * 60 * 1000 - now) / 1000) };
+		}
+
+		const event: DeviceEvent = {
+			event_id: crypto.randomUUID(),
+			group_id: device.current_group_id,
+			device_id,
+			event_type,
+			level,
+			occurred_at,
+			received_at: now
+		};
+		this.sql.exec(`
+			INSERT INTO device_events (event_id, group_id, device_id, event_type, level, occurred_at, received_at, client_event_id)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+		`, event.event_id, event.group_id, device_id, event_type, level, occurred_at, now, client_event_id);
+		this.sql.exec(`DELETE FROM device_events WHERE received_at < ?`, now - EVENT_RETENTION_MS);
+
+		console.log(`[DeviceManager] ${event_type} event ${event.event_id} from device ${device_id} in group ${event.group_id}`);
+		this.ctx.waitUntil(this.notifyGroup(event, device.device_name));
+		return { status: 'stored', event };
+	}
+
+	// Deliver an event to every notification target of the group's other devices, forgetting targets that are gone
+	private async notifyGroup(event: DeviceEvent, device_name: string): Promise<void> {
+		const targets: NotificationTarget[] = this.sql.exec(`
+			SELECT t.target_id, t.device_id, t.channel, t.endpoint, t.secret
+			FROM notification_targets t
+			JOIN devices d ON d.device_id = t.device_id
+			WHERE d.current_group_id = ? AND d.device_id != ?
+		`, event.group_id, event.device_id).toArray().map((row) => ({
+			target_id: row.target_id as string,
+			device_id: row.device_id as string,
+			channel: row.channel as NotificationChannel,
+			endpoint: row.endpoint as string,
+			secret: row.secret as string | null
+		}));
+		if (targets.length === 0) {
+			return;
+		}
+
+		const notification: EventNotification = {
+			event_id: event.event_id,
+			group_id: event.group_id,
+			device_id: event.device_id,
+			event_type: event.event_type,
+			level: event.level,
+			occurred_at: event.occurred_at,
+			title: EVENT_TITLES[event.event_type],
+			body: device_name
+		};
+		await Promise.all(targets.map(async (target) => {
+			try {
+				const result = await this.notifier.deliver(target, notification);
+				if (result === 'gone') {
+					this.sql.exec(`DELETE FROM notification_targets WHERE target_id = ?`, target.target_id);
+					console.log(`[DeviceManager] Removed expired ${target.channel} target of device ${target.device_id}`);
+				} else if (result === 'failed') {
+					console.error(`[DeviceManager] ${target.channel} delivery to device ${target.device_id} failed`);
+				}
+			} catch (error) {
+				console.error(`[DeviceManager] ${target.channel} delivery to device ${target.device_id} failed:`, error);
+			}
+		}));
+	}
+
+	private toDeviceEvent(row: Record<string, SqlStorageValue>): DeviceEvent {
+		return {
+			event_id: row.event_id as string,
+			group_id: row.group_id as string,
+			device_id: row.device_id as string,
+			event_type: row.event_type as DeviceEventType,
+			level: row.level as number | null,
+			occurred_at: row.occurred_at as number,
+			received_at: row.received_at as number
+		};
+	}
+
+	// Events of a group, newest first; `before` (an occurred_at) continues with older ones
+	async getGroupEvents(group_id: string, before: number | null, limit: number): Promise<{ events: DeviceEvent[], next_before: number | null }> {
+		const rows = this.sql.exec(`
+			SELECT event_id, group_id, device_id, event_type, level, occurred_at, received_at
+			FROM device_events 
+			WHERE group_id = ? AND occurred_at < ?
+			ORDER BY occurred_at DESC
+			LIMIT ?
+		`, group_id, before ?? Number.MAX_SAFE_INTEGER, limit + 1).toArray();
+
+		const events = rows.slice(0, limit).map((row) => this.toDeviceEvent(row));
+		return { events, next_before: rows.length > limit ? events[events.length - 1].occurred_at : null };
+	}
+
+	// Register where a device wants event alerts delivered (idempotent). Webhook targets get a signing secret,
+	// returned to the device's owner on every registration.
+	async addNotificationTarget(device_id: string, user_id: string, channel: NotificationChannel, endpoint: string): Promise<NotificationTarget> {
+		await this.verifyDeviceOwnership(device_id, user_id);
+
+		const existing = this.sql.exec(`
+			SELECT target_id, secret FROM notification_targets WHERE device_id = ? AND channel = ? AND endpoint = ?
+		`, device_id, channel, endpoint).toArray()[0];
+		if (existing) {
+			return { target_id: existing.target_id as string, device_id, channel, endpoint, secret: existing.secret as string | null };
+		}
+
+		const count = this.sql.exec(`SELECT COUNT(*) as count FROM notification_targets WHERE device_id = ?`, device_id).one();
+		if ((count.count as number) >= MAX_TARGETS_PER_DEVICE) {
+			throw new Error(`A device can have at most ${MAX_TARGETS_PER_DEVICE} notification targets`);
+		}
+
+		const target: NotificationTarget = {
+			target_id: crypto.randomUUID(),
+			device_id,
+			channel,
+			endpoint,
+			secret: channel === 'webhook' ? createWebhookSecret() : null
+		};
+		this.sql.exec(`
+			INSERT INTO notification_targets (target_id, device_id, channel, endpoint, secret, created_at) VALUES (?, ?, ?, ?, ?, ?)
+		`, target.target_id, device_id, channel, endpoint, target.secret, Date.now());
+		console.log(`[DeviceManager] Device ${device_id} registered a ${channel} notification target`);
+		return target;
+	}
+
+	async removeNotificationTarget(device_id: string, user_id: string, channel: NotificationChannel, endpoint: string): Promise<void> {
+		await this.verifyDeviceOwnership(device_id, user_id);
+		this.sql.exec(`DELETE FROM notification_targets WHERE device_id = ? AND channel = ? AND endpoint = ?`, device_id, channel, endpoint);
+	}
+
+	// Store a snapshot uploaded by a camera, keyed by its current group, and apply the retention policy
+	async saveSnapshot(device_id: string, user_id: string, image: File, thumbnail: File | null, captured_at: number, origin: string): Promise<Snapshot> {
+		const device = await this.verifyDeviceOwnership(device_id, user_id);
+		if (!device.current_group_id) {
+			throw new Error("Device is not in a pairing group");
+		}
+		this.requireGroupPermission(device.current_group_id, user_id, 'publish');
+
+		const snapshot_id = crypto.randomUUID();
+		const prefix = `${device.current_group_id}/${device_id}/${snapshot_id}`;
+		const object_key = `${prefix}.${SNAPSHOT_TYPES[image.type]}`;
+		const thumbnail_key = thumbnail ? `${prefix}-thumb.${SNAPSHOT_TYPES[thumbnail.type]}` : object_key;
+		await this.env.SNAPSHOTS.put(object_key, image.stream(), { httpMetadata: { contentType: image.type } });
+		if (thumbnail) {
+			await this.env.SNAPSHOTS.put(thumbnail_key, thumbnail.stream(), { httpMetadata: { contentType: thumbnail.type } });
+		}
+		this.sql.exec(`
+			INSERT INTO snapshots (snapshot_id, group_id, device_id, object_key, thumbnail_key, captured_at) VALUES (?, ?, ?, ?, ?, ?)
+		`, snapshot_id, device.current_group_id, device_id, object_key, thumbnail_key, captured_at);
+		console.log(`[DeviceManager] Snapshot ${snapshot_id} from device ${device_id} in group ${device.current_group_id}`);
+
+		await this.pruneSnapshots(device_id);
+		return this.toSnapshot({ snapshot_id, group_id: device.current_group_id, device_id, captured_at }, origin);
+	}
+
+	// Retention: drop snapshots past SNAPSHOT_RETENTION_MS anywhere, and all but the latest SNAPSHOTS_PER_DEVICE of this device
+	private async pruneSnapshots(device_id: string): Promise<void> {
+		const expired = this.sql.exec(`
+			SELECT snapshot_id, object_key, thumbnail_key FROM snapshots WHERE captured_at < ?
+			UNION
+			SELECT snapshot_id, object_key, thumbnail_key FROM snapshots WHERE device_id = ?
+				AND snapshot_id NOT IN (SELECT snapshot_id FROM snapshots WHERE device_id = ? ORDER BY captured_at DESC LIMIT ?)
+			LIMIT 100
+		`, Date.now() - SNAPSHOT_RETENTION_MS, device_id, device_id, SNAPSHOTS_PER_DEVICE).toArray();
+		if (expired.length === 0) {
+			return;
+		}
+
+		const keys = new Set(expired.flatMap((row) => [row.object_key as string, row.thumbnail_key as string]));
+		await this.env.SNAPSHOTS.delete([...keys]);
+		for (const row of expired) {
+			this.sql.exec(`DELETE FROM snapshots WHERE snapshot_id = ?`, row.snapshot_id);
+		}
+	}
+
+	private toSnapshot(row: { snapshot_id: string, group_id: string, device_id: string, captured_at: number }, origin: string): Snapshot {
+		const url = `${origin}/devices/snapshots/${row.snapshot_id}`;
+		return { ...row, url, thumbnail_url: `${url}?variant=thumbnail` };
+	}
+
+	// Latest snapshot of each of the user's devices, for the device list
+	getLatestSnapshots(owner_id: string, origin: string): Map<string, Snapshot> {
+		const latest = new Map<string, Snapshot>();
+		const rows = this.sql.exec(`
+			SELECT s.snapshot_id, s.group_id, s.device_id, MAX(s.captured_at) as captured_at
+			FROM snapshots s
+			JOIN devices d ON d.device_id = s.device_id
+			WHERE d.owner_id = ?
+			GROUP BY s.device_id
+		`, owner_id);
+		for (const row of rows) {
+			latest.set(row.device_id as string, this.toSnapshot({
+				snapshot_id: row.snapshot_id as string,
+				group_id: row.group_id as string,
+				device_id: row.device_id as string,
+				captured_at: row.captured_at as number
+			}, origin));
+		}
+		return latest;
+	}
+
+	// Image (or thumbnail) of a snapshot, for the camera's owner and members of the group it was taken in
+	async getSnapshotObject(snapshot_id: string, user_id: string, caller_device_id: string | undefined, thumbnail: boolean): Promise<R2ObjectBody | 'forbidden' | null> {
+		const row = this.sql.exec(`
+			SELECT s.group_id, s.object_key, s.thumbnail_key, d.owner_id
+			FROM snapshots s
+			LEFT JOIN devices d ON d.device_id = s.device_id
+			WHERE s.snapshot_id = ?
+		`, snapshot_id).toArray()[0];
+		if (!row) {
+			return null;
+		}
+		if (row.owner_id !== user_id) {
+			const { member_device_ids } = await this.getGroupMembership(row.group_id as string, user_id, caller_device_id);
+			if (member_device_ids.length === 0) {
+				return 'forbidden';
+			}
+		}
+		return this.env.SNAPSHOTS.get((thumbnail ? row.thumbnail_key : row.object_key) as string);
+	}
+
+	// Accounts with a device in the group
+	private groupMemberUserIds(group_id: string): string[] {
+		return this.sql.exec(`SELECT DISTINCT owner_id FROM devices WHERE current_group_id = ?`, group_id).toArray().map((row) => row.owner_id as string);
+	}
+
+	// Queue a webhook event for the given accounts' subscriptions; the alarm delivers it
+	private async emitWebhook(user_ids: string[], type: WebhookEventType, data: Record<string, unknown>): Promise<void> {
+		if (enqueueEvent(this.sql, user_ids, type, data) > 0) {
+			await this.scheduleWebhookDelivery();
+		}
+	}
+
+	private async scheduleWebhookDelivery(): Promise<void> {
+		const now = Date.now();
+		const alarm = await this.ctx.storage.getAlarm();
+		if (alarm === null || alarm > now) {
+			await this.ctx.storage.setAlarm(now);
+		}
+	}
+
+	// Webhook event about a group, for every account with a device in it. Also called by StreamRoom (stream events).
+	async emitGroupEvent(group_id: string, type: WebhookEventType, data: Record<string, unknown>): Promise<void> {
+		await this.emitWebhook(this.groupMemberUserIds(group_id), type, { group_id, ...data });
+	}
+
+	// Send due webhook deliveries, then sleep until the next retry
+	async alarm(): Promise<void> {
+		const next = await deliverDueWebhooks(this.sql);
+		if (next !== null) {
+			await this.ctx.storage.setAlarm(Math.max(next, Date.now()));
+		}
 	}
 
 	// HTTP request handler
@@ -480,23 +1157,16 @@ export class DeviceManager extends DurableObject<Env> {
 		const url = new URL(request.url);
 		const path = url.pathname;
 
-		// CORS headers
-		const corsHeaders = {
-			'Access-Control-Allow-Origin': '*',
-			'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-			'Access-Control-Allow-Headers': '*',
-		};
-
 		// Handle CORS preflight
 		if (request.method === 'OPTIONS') {
-			return new Response(null, { headers: corsHeaders });
+			return preflightResponse();
 		}
 
 		try {
 			// Verify JWT for all requests
 			const user = await this.verifyJWT(request);
-			const user_id = user.id as string;
-			const user_name = user.name as string;
+			const user_id = user.id;
+			const user_name = user.name;
 
 			// Route handling
 			if (path === '/devices/register' && request.method === 'POST') {
@@ -505,49 +1175,264 @@ export class DeviceManager extends DurableObject<Env> {
 					device_type: 'ios' | 'web'; 
 					device_identifier?: string 
 				};
+				// Device-bound tokens act as one existing device and can't register others
+				assertDeviceBinding(user, undefined);
 				const device = await this.registerDevice(device_name, device_type, user_id, device_identifier);
-				return new Response(JSON.stringify(device), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+				return jsonResponse(device);
 
 			} else if (path === '/devices/my' && request.method === 'GET') {
 				const devices = await this.getUserDevices(user_id);
-				return new Response(JSON.stringify(devices), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+				const snapshots = this.getLatestSnapshots(user_id, url.origin);
+				return jsonResponse(devices.map((device) => ({ ...device, latest_snapshot: snapshots.get(device.device_id) ?? null })));
 
 			} else if (path === '/generate-qr' && request.method === 'POST') {
-				const { device_id } = await request.json() as { device_id: string };
-				const invite = await this.generatePairingQR(device_id, user_id);
-				return new Response(JSON.stringify(invite), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+				// role: what the invited account becomes (viewer unless given; admin invites are the owner's)
+				const { device_id, role } = await request.json() as { device_id: string; role?: GroupRole };
+				assertDeviceBinding(user, device_id);
+				if (role !== undefined && role !== 'admin' && role !== 'viewer') {
+					return errorResponse(400, "role must be 'admin' or 'viewer'");
+				}
+				const invite = await this.generatePairingQR(device_id, user_id, role);
+				return jsonResponse(invite);
 
 			} else if (path === '/pair-device' && request.method === 'POST') {
 				const { session_id, device_id } = await request.json() as { session_id: string; device_id: string };
+				assertDeviceBinding(user, device_id);
 				const group = await this.pairDevice(session_id, device_id, user_id);
-				return new Response(JSON.stringify(group), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+				return jsonResponse(group);
 
 			} else if (path === '/leave-group' && request.method === 'POST') {
 				const { device_id } = await request.json() as { device_id: string };
+				assertDeviceBinding(user, device_id);
 				await this.leavePairingGroup(device_id, user_id);
-				return new Response(JSON.stringify({ success: true }), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+				return jsonResponse({ success: true });
+
+			} else if (path === '/set-camera' && request.method === 'POST') {
+				const { device_id } = await request.json() as { device_id: string };
+				assertDeviceBinding(user, device_id);
+				await this.setGroupCamera(device_id, user_id);
+				return jsonResponse({ success: true });
+
+			} else if (path === '/rename-group' && request.method === 'POST') {
+				const { device_id, group_name } = await request.json() as { device_id: string; group_name: string };
+				assertDeviceBinding(user, device_id);
+				if (typeof group_name !== 'string' || !group_name.trim() || group_name.length > 100) {
+					return errorResponse(400, "group_name must be 1 to 100 characters");
+				}
+				await this.renameGroup(device_id, user_id, group_name.trim());
+				return jsonResponse({ success: true });
+
+			} else if (path === '/group-role' && request.method === 'POST') {
+				// The owner makes another member an admin or a viewer
+				const { device_id, user_id: member_user_id, role } = await request.json() as { device_id: string; user_id: string; role: GroupRole };
+				assertDeviceBinding(user, device_id);
+				if (role !== 'admin' && role !== 'viewer') {
+					return errorResponse(400, "role must be 'admin' or 'viewer'");
+				}
+				const members = await this.setMemberRole(device_id, user_id, member_user_id, role);
+				return jsonResponse({ members });
+
+			} else if (path === '/remove-device' && request.method === 'POST') {
+				// An owner or admin evicts a device of another account (a lost phone, a former pet sitter)
+				const { device_id, target_device_id } = await request.json() as { device_id: string; target_device_id: string };
+				assertDeviceBinding(user, device_id);
+				if (typeof target_device_id !== 'string' || !target_device_id) {
+					return errorResponse(400, "target_device_id is required");
+				}
+				await this.removeGroupDevice(device_id, user_id, target_device_id);
+				return jsonResponse({ success: true });
+
+			} else if (path === '/transfer-ownership' && request.method === 'POST') {
+				const { device_id, user_id: new_owner_id } = await request.json() as { device_id: string; user_id: string };
+				assertDeviceBinding(user, device_id);
+				if (typeof new_owner_id !== 'string' || !new_owner_id) {
+					return errorResponse(400, "user_id is required");
+				}
+				const members = await this.transferOwnership(device_id, user_id, new_owner_id);
+				return jsonResponse({ members });
 
 			} else if (path === '/my-group' && request.method === 'GET') {
 				const device_id = url.searchParams.get('device_id');
 				if (!device_id) {
-					return new Response(JSON.stringify({ error: "device_id parameter is required" }), { 
-						status: 400, 
-						headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-					});
+					return errorResponse(400, "device_id parameter is required");
 				}
+				assertDeviceBinding(user, device_id);
 				const result = await this.getDeviceActiveGroup(device_id, user_id);
-				return new Response(JSON.stringify(result), { headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+				return jsonResponse(result);
+
+			} else if (path === '/group-membership' && request.method === 'GET') {
+				// Used by stream-control and auth to authorize StreamRoom joins and Agora tokens
+				const group_id = url.searchParams.get('group_id');
+				const device_id = url.searchParams.get('device_id') ?? user.device_id;
+				assertDeviceBinding(user, device_id);
+				if (!group_id) {
+					return errorResponse(400, "group_id parameter is required");
+				}
+				const { group, member_device_ids, role } = await this.getGroupMembership(group_id, user_id, device_id);
+				if (!group || member_device_ids.length === 0) {
+					return errorResponse(403, "Not a member of this group");
+				}
+				return jsonResponse({ group, member_device_ids, role });
+
+			} else if (path === '/devices/events' && request.method === 'POST') {
+				// A camera reports a detection; the group's other devices are notified
+				const { device_id, type, level, occurred_at, client_event_id } = await request.json() as {
+					device_id: string;
+					type: DeviceEventType;
+					level?: number;
+					occurred_at?: number;
+					client_event_id?: string;
+				};
+				assertDeviceBinding(user, device_id);
+				if (!DEVICE_EVENT_TYPES.includes(type)) {
+					return errorResponse(400, `type must be one of ${DEVICE_EVENT_TYPES.join(', ')}`);
+				}
+				if (level !== undefined && (typeof level !== 'number' || level < 0 || level > 1)) {
+					return errorResponse(400, "level must be a number from 0 to 1");
+				}
+				if (occurred_at !== undefined && (!Number.isInteger(occurred_at) || occurred_at > Date.now() + EVENT_CLOCK_SKEW_MS)) {
+					return errorResponse(400, "occurred_at must be a past timestamp in milliseconds");
+				}
+				if (client_event_id !== undefined && (typeof client_event_id !== 'string' || client_event_id.length > 128)) {
+					return errorResponse(400, "client_event_id must be a string of at most 128 characters");
+				}
+				const result = await this.reportEvent(device_id, user_id, type, level ?? null, occurred_at ?? Date.now(), client_event_id ?? null);
+				if (result.status === 'rate_limited') {
+					const response = errorResponse(429, `At most ${EVENT_RATE_LIMIT_PER_HOUR} events per hour`, 'rate_limited');
+					response.headers.set('Retry-After', String(result.retry_after));
+					return response;
+				}
+				return jsonResponse({ event: result.event, duplicate: result.status === 'duplicate' }, { status: result.status === 'stored' ? 201 : 200 });
+
+			} else if (path === '/devices/events' && request.method === 'GET') {
+				const group_id = url.searchParams.get('group_id');
+				if (!group_id) {
+					return errorResponse(400, "group_id parameter is required");
+				}
+				const limit = url.searchParams.has('limit') ? Number(url.searchParams.get('limit')) : EVENTS_DEFAULT_PAGE;
+				const before = url.searchParams.has('before') ? Number(url.searchParams.get('before')) : null;
+				if (!Number.isInteger(limit) || limit < 1 || (before !== null && !Number.isInteger(before))) {
+					return errorResponse(400, "limit and before must be integers");
+				}
+				const { group, member_device_ids } = await this.getGroupMembership(group_id, user_id, user.device_id);
+				if (!group || member_device_ids.length === 0) {
+					return errorResponse(403, "Not a member of this group");
+				}
+				const result = await this.getGroupEvents(group_id, before, Math.min(limit, EVENTS_MAX_PAGE));
+				return jsonResponse(result);
+
+			} else if (path === '/devices/notifications' && (request.method === 'POST' || request.method === 'DELETE')) {
+				// web_push: subscription endpoint; apns: device token; webhook: URL
+				const { device_id, channel, endpoint } = await request.json() as { device_id: string; channel: NotificationChannel; endpoint: string };
+				assertDeviceBinding(user, device_id);
+				if (!NOTIFICATION_CHANNELS.includes(channel)) {
+					return errorResponse(400, `channel must be one of ${NOTIFICATION_CHANNELS.join(', ')}`);
+				}
+				if (channel === 'webhook') {
+					// Same rules as webhook subscriptions
+					parseWebhookUrl(endpoint);
+				} else {
+					const valid = channel === 'apns' ? /^[0-9a-f]{64,200}$/i.test(endpoint) : typeof endpoint === 'string' && endpoint.startsWith('https://') && URL.canParse(endpoint);
+					if (!valid) {
+						return errorResponse(400, channel === 'apns' ? "endpoint must be an APNs device token" : "endpoint must be an https URL");
+					}
+				}
+				if (request.method === 'DELETE') {
+					await this.removeNotificationTarget(device_id, user_id, channel, endpoint);
+					return jsonResponse({ success: true });
+				}
+				const target = await this.addNotificationTarget(device_id, user_id, channel, endpoint);
+				return jsonResponse(target);
+
+			} else if (path === '/devices/snapshots' && request.method === 'POST') {
+				// Multipart upload from the camera: device_id, image, optional thumbnail and captured_at (ms)
+				const form = await request.formData();
+				const device_id = form.get('device_id');
+				const image = form.get('image');
+				const thumbnail = form.get('thumbnail');
+				const captured_at = form.has('captured_at') ? Number(form.get('captured_at')) : Date.now();
+				if (typeof device_id !== 'string') {
+					return errorResponse(400, "device_id is required");
+				}
+				assertDeviceBinding(user, device_id);
+				if (!(image instanceof File) || !SNAPSHOT_TYPES[image.type] || image.size > SNAPSHOT_MAX_BYTES) {
+					return errorResponse(400, `image must be a JPEG, PNG or WebP file of at most ${SNAPSHOT_MAX_BYTES / 1024 / 1024} MB`);
+				}
+				if (thumbnail !== null && (!(thumbnail instanceof File) || !SNAPSHOT_TYPES[thumbnail.type] || thumbnail.size > THUMBNAIL_MAX_BYTES)) {
+					return errorResponse(400, `thumbnail must be a JPEG, PNG or WebP file of at most ${THUMBNAIL_MAX_BYTES / 1024} KB`);
+				}
+				if (!Number.isInteger(captured_at) || captured_at > Date.now() + EVENT_CLOCK_SKEW_MS) {
+					return errorResponse(400, "captured_at must be a past timestamp in milliseconds");
+				}
+				const snapshot = await this.saveSnapshot(device_id, user_id, image, thumbnail, captured_at, url.origin);
+				return jsonResponse(snapshot, { status: 201 });
+
+			} else if (path.startsWith('/devices/snapshots/') && request.method === 'GET') {
+				const snapshot_id = path.slice('/devices/snapshots/'.length);
+				const object = await this.getSnapshotObject(snapshot_id, user_id, user.device_id, url.searchParams.get('variant') === 'thumbnail');
+				if (object === 'forbidden') {
+					return errorResponse(403, "Not a member of the snapshot's group");
+				}
+				if (!object) {
+					return errorResponse(404, "Snapshot not found");
+				}
+				return new Response(object.body, {
+					headers: {
+						...corsHeaders,
+						'Content-Type': object.httpMetadata?.contentType ?? 'application/octet-stream',
+						'Cache-Control': 'private, max-age=86400'
+					}
+				});
+
+			} else if (path === '/devices/notifications/config' && request.method === 'GET') {
+				// Application server key for PushManager.subscribe
+				return jsonResponse({ vapid_public_key: this.env.VAPID_PUBLIC_KEY ?? null });
+
+			} else if (path === '/webhooks' && request.method === 'GET') {
+				assertDeviceBinding(user, undefined);
+				return jsonResponse(listSubscriptions(this.sql, user_id));
+
+			} else if (path === '/webhooks' && request.method === 'POST') {
+				// Webhooks belong to the account, not to a device
+				assertDeviceBinding(user, undefined);
+				const { url: webhook_url, events } = parseSubscription(await request.json());
+				const subscription = createSubscription(this.sql, user_id, webhook_url, events);
+				console.log(`[DeviceManager] User ${user_id} subscribed a webhook to ${events.join(', ')}`);
+				return jsonResponse(subscription, { status: 201 });
+
+			} else if (path.startsWith('/webhooks/')) {
+				// /webhooks/<id> (DELETE), /webhooks/<id>/deliveries (GET) and /webhooks/<id>/test (POST, sends a ping)
+				assertDeviceBinding(user, undefined);
+				const [webhook_id, action] = path.slice('/webhooks/'.length).split('/');
+				if (!ownsSubscription(this.sql, user_id, webhook_id)) {
+					return errorResponse(404, "Webhook not found");
+				}
+				if (!action && request.method === 'DELETE') {
+					deleteSubscription(this.sql, webhook_id);
+					return jsonResponse({ success: true });
+				} else if (action === 'deliveries' && request.method === 'GET') {
+					const limit = Math.min(Number(url.searchParams.get('limit')) || 50, 200);
+					return jsonResponse(listDeliveries(this.sql, webhook_id, limit));
+				} else if (action === 'test' && request.method === 'POST') {
+					enqueuePing(this.sql, webhook_id);
+					await this.scheduleWebhookDelivery();
+					return jsonResponse({ success: true }, { status: 202 });
+				}
+				return errorResponse(404, 'Not Found');
 
 			} else {
-				return new Response('Not Found', { status: 404, headers: corsHeaders });
+				return errorResponse(404, 'Not Found');
 			}
 
 		} catch (error) {
 			console.error(`[DeviceManager] Error:`, error);
-			return new Response(JSON.stringify({ error: (error as Error).message }), { 
-				status: 400, 
-				headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-			});
+			if (error instanceof AuthError) {
+				return errorResponse(error.status, error.message, error.code);
+			}
+			if (error instanceof GroupPermissionError) {
+				return errorResponse(403, error.message, 'forbidden');
+			}
+			return errorResponse(400, (error as Error).message);
 		}
 	}
 }
@@ -561,7 +1446,14 @@ export default {
 	},
 } satisfies ExportedHandler<Env>;
 
-interface Env {
+// StreamRoom (stream-control worker) methods called over RPC
+interface StreamRoomRpc extends Rpc.DurableObjectBranded {
+	disconnectDevice(device_id: string): Promise<number>;
+}
+
+interface Env extends NotifierEnv {
 	DEVICE_MANAGER: DurableObjectNamespace;
-	JWT_PUBLIC_KEY: string;
+	STREAM_ROOM: DurableObjectNamespace<StreamRoomRpc>;
+	AUTH: Fetcher;
+	SNAPSHOTS: R2Bucket;
 }
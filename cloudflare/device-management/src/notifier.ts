@@ -0,0 +1,167 @@
+import { signWebhookPayload, WEBHOOK_DELIVERY_HEADER, WEBHOOK_EVENT_HEADER, WEBHOOK_SIGNATURE_HEADER } from "@petube/shared";
+import { importJWK, importPKCS8, SignJWT, type JWK } from "jose";
+
+/**
+ * Delivery of event alerts to devices. Each device registers targets on one of three channels:
+ * - web_push: a Push API subscription endpoint. Pushes carry no payload (so no message encryption is needed);
+ *   the page's service worker fetches the latest events when woken.
+ * - apns: an APNs device token of the iOS app
+ * - webhook: an HTTPS URL (checked with parseWebhookUrl), which receives the notification as JSON, signed with the
+ *   target's secret the same way as webhook subscriptions' deliveries
+ *
+ * `createNotifier` picks the live channels, or a StubNotifier that only records deliveries when NOTIFIER=stub
+ * (local development and tests).
+ */
+
+export type NotificationChannel = 'web_push' | 'apns' | 'webhook';
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['web_push', 'apns', 'webhook'];
+
+export interface NotificationTarget {
+	target_id: string;
+	device_id: string;
+	channel: NotificationChannel;
+	endpoint: string; // Push subscription endpoint, APNs device token or webhook URL
+	secret: string | null; // Webhook targets only: signs each notification
+}
+
+export interface EventNotification {
+	event_id: string;
+	group_id: string;
+	device_id: string; // The camera that reported the event
+	event_type: string;
+	level: number | null;
+	occurred_at: number;
+	title: string;
+	body: string;
+}
+
+// 'gone': the target no longer exists (unsubscribed, app uninstalled) and should be forgotten
+export type DeliveryResult = 'delivered' | 'gone' | 'failed';
+
+export interface Notifier {
+	deliver(target: NotificationTarget, notification: EventNotification): Promise<DeliveryResult>;
+}
+
+export interface NotifierEnv {
+	NOTIFIER?: string; // 'stub' to record deliveries instead of sending them
+	VAPID_PUBLIC_KEY?: string; // base64url uncompressed P-256 point, as given to PushManager.subscribe
+	VAPID_PRIVATE_KEY?: string; // Private JWK (ES256) of the same key pair
+	VAPID_SUBJECT?: string; // mailto: or https: contact for push services
+	APNS_TEAM_ID?: string;
+	APNS_KEY_ID?: string;
+	APNS_PRIVATE_KEY?: string; // PKCS#8 PEM of the APNs auth key
+	APNS_TOPIC?: string; // The iOS app's bundle id
+	APNS_HOST?: string; // api.sandbox.push.apple.com for development builds
+}
+
+// Stand-in for local development and tests: remembers what would have been sent
+export class StubNotifier implements Notifier {
+	deliveries: { target: NotificationTarget; notification: EventNotification }[] = [];
+
+	async deliver(target: NotificationTarget, notification: EventNotification): Promise<DeliveryResult> {
+		this.deliveries.push({ target, notification });
+		return 'delivered';
+	}
+}
+
+// Push services and webhooks answer 404/410 for subscriptions that are gone for good
+function resultOf(res: Response): DeliveryResult {
+	if (res.ok) return 'delivered';
+	return res.status === 404 || res.status === 410 ? 'gone' : 'failed';
+}
+
+// Receivers that hang don't hold up the other targets' deliveries
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+async function deliverWebhook(target: NotificationTarget, notification: EventNotification): Promise<DeliveryResult> {
+	if (!target.secret) {
+		throw new Error('Webhook target has no secret');
+	}
+	const body = JSON.stringify(notification);
+	const res = await fetch(target.endpoint, {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/json',
+			'User-Agent': 'Petube-Webhooks/1',
+			[WEBHOOK_EVENT_HEADER]: `alert.${notification.event_type}`,
+			[WEBHOOK_DELIVERY_HEADER]: notification.event_id,
+			[WEBHOOK_SIGNATURE_HEADER]: await signWebhookPayload(target.secret, body),
+		},
+		body,
+		signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+	});
+	return resultOf(res);
+}
+
+async function deliverWebPush(env: NotifierEnv, target: NotificationTarget): Promise<DeliveryResult> {
+	if (!env.VAPID_PUBLIC_KEY || !env.VAPID_PRIVATE_KEY || !env.VAPID_SUBJECT) {
+		throw new Error('Web push is not configured');
+	}
+	// VAPID (RFC 8292): a JWT for the push service's origin, signed with our application server key
+	const key = await importJWK(JSON.parse(env.VAPID_PRIVATE_KEY) as JWK, 'ES256');
+	const jwt = await new SignJWT({ sub: env.VAPID_SUBJECT })
+		.setProtectedHeader({ alg: 'ES256', typ: 'JWT' })
+		.setAudience(new URL(target.endpoint).origin)
+		.setExpirationTime('12h')
+		.sign(key);
+	const res = await fetch(target.endpoint, {
+		method: 'POST',
+		headers: { Authorization: `vapid t=${jwt}, k=${env.VAPID_PUBLIC_KEY}`, TTL: '3600', Urgency: 'high' },
+	});
+	return resultOf(res);
+}
+
+// APNs provider tokens may be refreshed at most every 20 minutes and are valid for an hour; reuse one per isolate
+let apnsToken: { jwt: string; issuedAt: number } | null = null;
+const APNS_TOKEN_REUSE_MS = 30 * 60 * 1000;
+
+async function deliverApns(env: NotifierEnv, target: NotificationTarget, notification: EventNotification): Promise<DeliveryResult> {
+	if (!env.APNS_TEAM_ID || !env.APNS_KEY_ID || !env.APNS_PRIVATE_KEY || !env.APNS_TOPIC) {
+		throw new Error('APNs is not configured');
+	}
+	if (!apnsToken || Date.now() - apnsToken.issuedAt > APNS_TOKEN_REUSE_MS) {
+		const key = await importPKCS8(env.APNS_PRIVATE_KEY, 'ES256');
+		const jwt = await new SignJWT({}).setProtectedHeader({ alg: 'ES256', kid: env.APNS_KEY_ID }).setIssuer(env.APNS_TEAM_ID).setIssuedAt().sign(key);
+		apnsToken = { jwt, issuedAt: Date.now() };
+	}
+	const res = await fetch(`https://${env.APNS_HOST ?? 'api.push.apple.com'}/3/device/${target.endpoint}`, {
+		method: 'POST',
+		headers: {
+			authorization: `bearer ${apnsToken.jwt}`,
+			'apns-topic': env.APNS_TOPIC,
+			'apns-push-type': 'alert',
+			'apns-priority': '10',
+			'apns-collapse-id': `${notification.device_id}:${notification.event_type}`,
+		},
+		body: JSON.stringify({
+			aps: { alert: { title: notification.title, body: notification.body }, sound: 'default' },
+			event_id: notification.event_id,
+			group_id: notification.group_id,
+		}),
+	});
+	if (res.status === 400) {
+		// BadDeviceToken means the token will never work again
+		const { reason } = await res.json<{ reason?: string }>().catch(() => ({ reason: undefined }));
+		return reason === 'BadDeviceToken' ? 'gone' : 'failed';
+	}
+	return resultOf(res);
+}
+
+export function createNotifier(env: NotifierEnv): Notifier {
+	if (env.NOTIFIER === 'stub') {
+		return new StubNotifier();
+	}
+	return {
+		async deliver(target, notification) {
+			switch (target.channel) {
+				case 'web_push':
+					return deliverWebPush(env, target);
+				case 'apns':
+					return deliverApns(env, target, notification);
+				case 'webhook':
+					return deliverWebhook(target, notification);
+			}
+		},
+	};
+}
@@ -0,0 +1,296 @@
+import {
+	signWebhookPayload,
+	WEBHOOK_DELIVERY_HEADER,
+	WEBHOOK_EVENT_HEADER,
+	WEBHOOK_EVENT_TYPES,
+	WEBHOOK_SIGNATURE_HEADER,
+	type WebhookEvent,
+	type WebhookEventType,
+} from "@petube/shared";
+
+/**
+ * Per-user webhook subscriptions and their deliveries, kept in DeviceManager's SQLite storage.
+ * Events are queued as one delivery per matching subscription; DeviceManager's alarm sends due deliveries
+ * (signed, see webhooks.ts in @petube/shared) and retries failures with exponential backoff. Deliveries stay
+ * in the log for WEBHOOK_LOG_RETENTION_MS whatever their outcome.
+ */
+
+export interface WebhookSubscription {
+	webhook_id: string;
+	url: string;
+	events: WebhookEventType[];
+	created_at: number;
+}
+
+export interface WebhookDelivery {
+	delivery_id: string;
+	event_id: string;
+	event_type: WebhookEventType;
+	status: 'pending' | 'delivered' | 'failed';
+	attempts: number;
+	next_attempt_at: number | null;
+	last_status_code: number | null;
+	last_error: string | null;
+	created_at: number;
+	delivered_at: number | null;
+}
+
+export const MAX_WEBHOOKS_PER_USER = 10;
+// Delay before each retry; a delivery that still fails after the last one is given up
+const RETRY_DELAYS_MS = [30 * 1000, 2 * 60 * 1000, 10 * 60 * 1000, 60 * 60 * 1000, 6 * 60 * 60 * 1000];
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+const DELIVERIES_PER_RUN = 25;
+// Deliveries sent at once: a run takes at most DELIVERIES_PER_RUN / DELIVERY_CONCURRENCY timeouts
+const DELIVERY_CONCURRENCY = 5;
+// A run pushes its deliveries' next attempt this far ahead before sending them, so no other run picks them up;
+// a run that dies half way leaves the rest to be retried then (without counting an attempt)
+const DELIVERY_CLAIM_MS = 2 * 60 * 1000;
+const WEBHOOK_LOG_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export function createWebhookTables(sql: SqlStorage) {
+	sql.exec(`
+		CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+			webhook_id TEXT PRIMARY KEY,
+			user_id TEXT NOT NULL,
+			url TEXT NOT NULL,
+			secret TEXT NOT NULL,
+			events TEXT NOT NULL, -- JSON array of event types
+			created_at INTEGER NOT NULL
+		);
+		CREATE INDEX IF NOT EXISTS idx_webhook_subscriptions_user ON webhook_subscriptions(user_id);
+		CREATE TABLE IF NOT EXISTS webhook_deliveries (
+			delivery_id TEXT PRIMARY KEY,
+			webhook_id TEXT NOT NULL,
+			event_id TEXT NOT NULL,
+			event_type TEXT NOT NULL,
+			payload TEXT NOT NULL,
+			status TEXT NOT NULL CHECK (status IN ('pending', 'delivered', 'failed')),
+			attempts INTEGER NOT NULL DEFAULT 0,
+			next_attempt_at INTEGER,
+			last_status_code INTEGER,
+			last_error TEXT,
+			created_at INTEGER NOT NULL,
+			delivered_at INTEGER,
+			FOREIGN KEY (webhook_id) REFERENCES webhook_subscriptions(webhook_id) ON DELETE CASCADE
+		);
+		CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at);
+		CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, created_at);
+	`);
+}
+
+// Validate a webhook receiver URL (subscriptions here, and the notifier's webhook targets). Throws with a message
+// suitable for a 400 response.
+export function parseWebhookUrl(url: unknown): string {
+	if (typeof url !== 'string' || !URL.canParse(url)) {
+		throw new Error("url is required");
+	}
+	// Plain http only for a receiver on the same machine, when running under wrangler dev
+	const { protocol, hostname } = new URL(url);
+	if (protocol !== 'https:' && !(protocol === 'http:' && (hostname === 'localhost' || hostname === '127.0.0.1'))) {
+		throw new Error("url must be https (or http://localhost for local testing)");
+	}
+	return url;
+}
+
+// Secret a receiver verifies signatures with (see signWebhookPayload in @petube/shared)
+export function createWebhookSecret(): string {
+	const bytes = crypto.getRandomValues(new Uint8Array(24));
+	return 'whsec_' + [...bytes].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Validate a subscription request. Throws with a message suitable for a 400 response.
+export function parseSubscription(value: unknown): { url: string; events: WebhookEventType[] } {
+	const { url, events } = (value ?? {}) as Record<string, unknown>;
+	const receiver = parseWebhookUrl(url);
+	if (!Array.isArray(events) || events.length === 0 || !events.every((type) => (WEBHOOK_EVENT_TYPES as readonly string[]).includes(type))) {
+		throw new Error(`events must be a list of ${WEBHOOK_EVENT_TYPES.join(', ')}`);
+	}
+	return { url: receiver, events: [...new Set(events as WebhookEventType[])] };
+}
+
+// The secret is only ever returned here, when the subscription is created
+export function createSubscription(sql: SqlStorage, user_id: string, url: string, events: WebhookEventType[]): WebhookSubscription & { secret: string } {
+	const count = sql.exec(`SELECT COUNT(*) as count FROM webhook_subscriptions WHERE user_id = ?`, user_id).one();
+	if ((count.count as number) >= MAX_WEBHOOKS_PER_USER) {
+		throw new Error(`At most ${MAX_WEBHOOKS_PER_USER} webhooks per account`);
+	}
+	const subscription = {
+		webhook_id: crypto.randomUUID(),
+		url,
+		events,
+		created_at: Date.now(),
+		secret: createWebhookSecret(),
+	};
+	sql.exec(
+		`INSERT INTO webhook_subscriptions (webhook_id, user_id, url, secret, events, created_at) VALUES (?, ?, ?, ?, ?, ?)`,
+		subscription.webhook_id,
+		user_id,
+		url,
+		subscription.secret,
+		JSON.stringify(events),
+		subscription.created_at
+	);
+	return subscription;
+}
+
+export function listSubscriptions(sql: SqlStorage, user_id: string): WebhookSubscription[] {
+	return sql
+		.exec(`SELECT webhook_id, url, events, created_at FROM webhook_subscriptions WHERE user_id = ? ORDER BY created_at`, user_id)
+		.toArray()
+		.map((row) => ({
+			webhook_id: row.webhook_id as string,
+			url: row.url as string,
+			events: JSON.parse(row.events as string) as WebhookEventType[],
+			created_at: row.created_at as number,
+		}));
+}
+
+export function ownsSubscription(sql: SqlStorage, user_id: string, webhook_id: string): boolean {
+	return sql.exec(`SELECT 1 FROM webhook_subscriptions WHERE webhook_id = ? AND user_id = ?`, webhook_id, user_id).toArray().length > 0;
+}
+
+export function deleteSubscription(sql: SqlStorage, webhook_id: string) {
+	sql.exec(`DELETE FROM webhook_deliveries WHERE webhook_id = ?`, webhook_id);
+	sql.exec(`DELETE FROM webhook_subscriptions WHERE webhook_id = ?`, webhook_id);
+}
+
+function insertDeliveries(sql: SqlStorage, webhook_ids: string[], type: WebhookEventType, data: Record<string, unknown>): number {
+	if (webhook_ids.length === 0) return 0;
+	const now = Date.now();
+	const event: WebhookEvent = { id: crypto.randomUUID(), type, created_at: new Date(now).toISOString(), data };
+	const payload = JSON.stringify(event);
+	for (const webhook_id of webhook_ids) {
+		sql.exec(
+			`INSERT INTO webhook_deliveries (delivery_id, webhook_id, event_id, event_type, payload, status, next_attempt_at, created_at)
+			VALUES (?, ?, ?, ?, ?, 'pending', ?, ?)`,
+			crypto.randomUUID(),
+			webhook_id,
+			event.id,
+			type,
+			payload,
+			now,
+			now
+		);
+	}
+	return webhook_ids.length;
+}
+
+// Queue an event for every subscription of `user_ids` that wants it; returns the number of deliveries queued
+export function enqueueEvent(sql: SqlStorage, user_ids: string[], type: WebhookEventType, data: Record<string, unknown>): number {
+	if (user_ids.length === 0) return 0;
+	const webhook_ids = sql
+		.exec(
+			`SELECT webhook_id FROM webhook_subscriptions, json_each(events)
+			WHERE user_id IN (${user_ids.map(() => '?').join(', ')}) AND json_each.value = ?`,
+			...user_ids,
+			type
+		)
+		.toArray()
+		.map((row) => row.webhook_id as string);
+	return insertDeliveries(sql, webhook_ids, type, data);
+}
+
+export function enqueuePing(sql: SqlStorage, webhook_id: string) {
+	insertDeliveries(sql, [webhook_id], 'ping', { webhook_id });
+}
+
+async function attempt(url: string, secret: string, delivery_id: string, type: string, payload: string): Promise<{ status: number | null; error: string | null }> {
+	try {
+		const res = await fetch(url, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json',
+				'User-Agent': 'Petube-Webhooks/1',
+				[WEBHOOK_EVENT_HEADER]: type,
+				[WEBHOOK_DELIVERY_HEADER]: delivery_id,
+				[WEBHOOK_SIGNATURE_HEADER]: await signWebhookPayload(secret, payload),
+			},
+			body: payload,
+			signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+		});
+		return { status: res.status, error: res.ok ? null : `HTTP ${res.status}` };
+	} catch (err) {
+		return { status: null, error: (err as Error).message };
+	}
+}
+
+// Send deliveries that are due and schedule retries of the failed ones. Returns when deliveries are next due, if any.
+export async function deliverDueWebhooks(sql: SqlStorage, now = Date.now()): Promise<number | null> {
+	const due = sql
+		.exec(
+			`SELECT d.delivery_id, d.event_type, d.payload, d.attempts, s.url, s.secret
+			FROM webhook_deliveries d JOIN webhook_subscriptions s ON s.webhook_id = d.webhook_id
+			WHERE d.status = 'pending' AND d.next_attempt_at <= ?
+			ORDER BY d.next_attempt_at
+			LIMIT ?`,
+			now,
+			DELIVERIES_PER_RUN
+		)
+		.toArray();
+	if (due.length > 0) {
+		sql.exec(
+			`UPDATE webhook_deliveries SET next_attempt_at = ? WHERE delivery_id IN (${due.map(() => '?').join(', ')})`,
+			now + DELIVERY_CLAIM_MS,
+			...due.map((row) => row.delivery_id)
+		);
+	}
+
+	for (let i = 0; i < due.length; i += DELIVERY_CONCURRENCY) {
+		await Promise.all(
+			due.slice(i, i + DELIVERY_CONCURRENCY).map(async (row) => {
+				const { status, error } = await attempt(row.url as string, row.secret as string, row.delivery_id as string, row.event_type as string, row.payload as string);
+				const attempts = (row.attempts as number) + 1;
+				const finished = Date.now();
+				if (!error) {
+					sql.exec(
+						`UPDATE webhook_deliveries SET status = 'delivered', attempts = ?, next_attempt_at = NULL, last_status_code = ?, last_error = NULL, delivered_at = ? WHERE delivery_id = ?`,
+						attempts,
+						status,
+						finished,
+						row.delivery_id
+					);
+					return;
+				}
+				const retryDelay = RETRY_DELAYS_MS[attempts - 1];
+				console.warn(`[DeviceManager] Webhook delivery ${row.delivery_id} attempt ${attempts} failed: ${error}${retryDelay ? '' : ', giving up'}`);
+				sql.exec(
+					`UPDATE webhook_deliveries SET status = ?, attempts = ?, next_attempt_at = ?, last_status_code = ?, last_error = ? WHERE delivery_id = ?`,
+					retryDelay ? 'pending' : 'failed',
+					attempts,
+					retryDelay ? finished + retryDelay : null,
+					status,
+					error,
+					row.delivery_id
+				);
+			})
+		);
+	}
+
+	sql.exec(`DELETE FROM webhook_deliveries WHERE status != 'pending' AND created_at < ?`, now - WEBHOOK_LOG_RETENTION_MS);
+	const [next] = sql.exec(`SELECT MIN(next_attempt_at) as next FROM webhook_deliveries WHERE status = 'pending'`).toArray();
+	return (next?.next as number | null) ?? null;
+}
+
+// Latest deliveries of a subscription, newest first
+export function listDeliveries(sql: SqlStorage, webhook_id: string, limit: number): WebhookDelivery[] {
+	return sql
+		.exec(
+			`SELECT delivery_id, event_id, event_type, status, attempts, next_attempt_at, last_status_code, last_error, created_at, delivered_at
+			FROM webhook_deliveries WHERE webhook_id = ? ORDER BY created_at DESC LIMIT ?`,
+			webhook_id,
+			limit
+		)
+		.toArray()
+		.map((row) => ({
+			delivery_id: row.delivery_id as string,
+			event_id: row.event_id as string,
+			event_type: row.event_type as WebhookEventType,
+			status: row.status as WebhookDelivery['status'],
+			attempts: row.attempts as number,
+			next_attempt_at: row.next_attempt_at as number | null,
+			last_status_code: row.last_status_code as number | null,
+			last_error: row.last_error as string | null,
+			created_at: row.created_at as number,
+			delivered_at: row.delivered_at as number | null,
+		}));
+}
@@ -0,0 +1,16 @@
+import type { DeviceManager } from '../src/index';
+
+// StreamRoom stand-in (see vitest.config.mts)
+interface StreamRoomStandIn extends Rpc.DurableObjectBranded {
+	disconnectDevice(device_id: string): Promise<number>;
+	disconnectedDevices(): Promise<string[]>;
+}
+
+declare module 'cloudflare:test' {
+	interface ProvidedEnv {
+		DEVICE_MANAGER: DurableObjectNamespace<DeviceManager>;
+		STREAM_ROOM: DurableObjectNamespace<StreamRoomStandIn>;
+		SNAPSHOTS: R2Bucket;
+		TEST_SIGNING_KEY: JsonWebKey; // Private key the test tokens are signed with (see vitest.config.mts)
+	}
+}
@@ -0,0 +1,77 @@
+import { runInDurableObject } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { api, createGroup, join, manager, newMember } from './helpers';
+
+interface ReportedEvent {
+	event: { event_id: string; event_type: string; occurred_at: number };
+	duplicate: boolean;
+}
+
+const MINUTE = 60 * 1000;
+
+describe('Device events', () => {
+	it('stores a detection once, folding retries and repeats into it', async () => {
+		const { owner } = await createGroup();
+		const now = Date.now();
+		const report = (body: Record<string, unknown>) => api(owner.token, '/devices/events', { body: { device_id: owner.device_id, ...body } });
+
+		const first = await report({ type: 'motion', level: 0.8, occurred_at: now - 5 * MINUTE, client_event_id: 'c1' });
+		expect(first.status).toBe(201);
+		const { event } = await first.json<ReportedEvent>();
+
+		// A retry of the same report, and the same detection half a minute later
+		for (const body of [{ type: 'motion', client_event_id: 'c1' }, { type: 'motion', occurred_at: now - 4.5 * MINUTE }]) {
+			const res = await report(body);
+			expect(res.status).toBe(200);
+			expect(await res.json()).toEqual({ event, duplicate: true });
+		}
+		// Another kind of detection, or the same one later on, is new
+		expect((await report({ type: 'bark', occurred_at: now - 5 * MINUTE })).status).toBe(201);
+		expect((await report({ type: 'motion', occurred_at: now - 2 * MINUTE })).status).toBe(201);
+	});
+
+	it('rejects bad reports', async () => {
+		const { owner } = await createGroup();
+		for (const body of [{ type: 'smoke' }, { type: 'motion', level: 2 }, { type: 'motion', occurred_at: Date.now() + 60 * MINUTE }, { type: 'motion', client_event_id: 'x'.repeat(129) }]) {
+			expect((await api(owner.token, '/devices/events', { body: { device_id: owner.device_id, ...body } })).status).toBe(400);
+		}
+		// A device outside any group has nobody to alert
+		const loner = await newMember();
+		expect((await api(loner.token, '/devices/events', { body: { device_id: loner.device_id, type: 'motion' } })).status).toBe(400);
+	});
+
+	it('limits each device to 60 events an hour', async () => {
+		const { owner } = await createGroup();
+		const now = Date.now();
+		await runInDurableObject(manager(), async (instance) => {
+			for (let i = 0; i < 60; i++) {
+				await instance.reportEvent(owner.device_id, owner.user_id, 'motion', null, now - i * 2 * MINUTE, `c${i}`);
+			}
+		});
+
+		const res = await api(owner.token, '/devices/events', { body: { device_id: owner.device_id, type: 'noise' } });
+		expect(res.status).toBe(429);
+		expect(await res.json()).toMatchObject({ code: 'rate_limited' });
+		expect(Number(res.headers.get('Retry-After'))).toBeGreaterThan(3500);
+	});
+
+	it("lists the group's events to its members, and only cameras report them", async () => {
+		const { group_id, owner } = await createGroup();
+		const viewer = await join(owner);
+		const denied = await api(viewer.token, '/devices/events', { body: { device_id: viewer.device_id, type: 'motion' } });
+		expect(denied.status).toBe(403);
+		expect(await denied.json()).toMatchObject({ code: 'forbidden' });
+
+		const now = Date.now();
+		for (const [type, occurred_at] of [['motion', now - 10 * MINUTE], ['bark', now - 5 * MINUTE]] as const) {
+			await api(owner.token, '/devices/events', { body: { device_id: owner.device_id, type, occurred_at } });
+		}
+		const page = await (await api(viewer.token, `/devices/events?group_id=${group_id}&limit=1`)).json<{ events: ReportedEvent['event'][]; next_before: number }>();
+		expect(page.events.map((event) => event.event_type)).toEqual(['bark']);
+		const older = await (await api(viewer.token, `/devices/events?group_id=${group_id}&before=${page.next_before}`)).json<typeof page>();
+		expect(older).toMatchObject({ events: [{ event_type: 'motion' }], next_before: null });
+
+		const stranger = await newMember();
+		expect((await api(stranger.token, `/devices/events?group_id=${group_id}`)).status).toBe(403);
+	});
+});
@@ -0,0 +1,86 @@
+import { env, fetchMock, SELF } from 'cloudflare:test';
+import { importJWK, SignJWT, type JWK } from 'jose';
+
+// DeviceManager keeps its storage between tests (vitest.config.mts), so every test makes its own accounts
+export function userId(): string {
+	return `user-${crypto.randomUUID().slice(0, 8)}`;
+}
+
+export async function accessToken(user_id: string, claims: Record<string, unknown> = {}): Promise<string> {
+	const key = await importJWK(env.TEST_SIGNING_KEY as JWK, 'RS256');
+	return new SignJWT({ id: user_id, name: `User ${user_id}`, ...claims })
+		.setProtectedHeader({ alg: 'RS256', kid: 'test' })
+		.setIssuedAt()
+		.setExpirationTime('15m')
+		.sign(key);
+}
+
+export function manager() {
+	return env.DEVICE_MANAGER.get(env.DEVICE_MANAGER.idFromName('global'));
+}
+
+// A JSON request to the worker; FormData bodies are sent as they are
+export function api(token: string, path: string, init: { method?: string; body?: unknown } = {}) {
+	const isForm = init.body instanceof FormData;
+	return SELF.fetch(`https://device-management${path}`, {
+		method: init.method ?? (init.body === undefined ? 'GET' : 'POST'),
+		headers: { Authorization: `Bearer ${token}`, ...(!isForm && init.body !== undefined && { 'Content-Type': 'application/json' }) },
+		body: isForm ? (init.body as FormData) : init.body === undefined ? undefined : JSON.stringify(init.body),
+	});
+}
+
+// An account signed in on one registered device
+export interface Member {
+	user_id: string;
+	token: string;
+	device_id: string;
+}
+
+export async function newMember(device_name = 'Phone'): Promise<Member> {
+	const user_id = userId();
+	const token = await accessToken(user_id);
+	const res = await api(token, '/devices/register', { body: { device_name, device_type: 'ios' } });
+	const { device_id } = await res.json<{ device_id: string }>();
+	return { user_id, token, device_id };
+}
+
+// Pairing invitation from one of `inviter`'s devices; the first one creates the device's group
+export async function invite(inviter: Member, role?: 'admin' | 'viewer') {
+	const res = await api(inviter.token, '/generate-qr', { body: { device_id: inviter.device_id, role } });
+	if (!res.ok) {
+		throw new Error(`Invitation failed with status ${res.status}: ${await res.text()}`);
+	}
+	return res.json<{ session_id: string; group_id: string; role: string }>();
+}
+
+// A new account (or `member`) joins the group of `inviter`'s device as `role`
+export async function join(inviter: Member, role?: 'admin' | 'viewer', member?: Member): Promise<Member> {
+	const joining = member ?? (await newMember());
+	const { session_id } = await invite(inviter, role);
+	const res = await api(joining.token, '/pair-device', { body: { session_id, device_id: joining.device_id } });
+	if (!res.ok) {
+		throw new Error(`Pairing failed with status ${res.status}: ${await res.text()}`);
+	}
+	return joining;
+}
+
+// A group owned by a new account, whose device is its camera
+export async function createGroup(): Promise<{ group_id: string; owner: Member }> {
+	const owner = await newMember('Camera');
+	const { group_id } = await invite(owner);
+	return { group_id, owner };
+}
+
+// Answer the next POST to `url` with `status` (fetchMock must be active); resolves with what was sent
+export function receivePost(url: string, status = 200) {
+	const { origin, pathname } = new URL(url);
+	return new Promise<{ headers: Headers; body: string }>((resolve) => {
+		fetchMock
+			.get(origin)
+			.intercept({ path: pathname, method: 'POST' })
+			.reply((options) => {
+				resolve({ headers: new Headers(options.headers as HeadersInit), body: String(options.body) });
+				return { statusCode: status, data: '' };
+			});
+	});
+}
@@ -0,0 +1,62 @@
+import { fetchMock, runInDurableObject } from 'cloudflare:test';
+import { afterEach, beforeAll, describe, it, expect } from 'vitest';
+import { verifyWebhookSignature, WEBHOOK_EVENT_HEADER, WEBHOOK_SIGNATURE_HEADER } from '@petube/shared';
+import { api, createGroup, join, manager, receivePost } from './helpers';
+
+interface Target {
+	target_id: string;
+	endpoint: string;
+	secret: string | null;
+}
+
+beforeAll(() => {
+	fetchMock.activate();
+	fetchMock.disableNetConnect();
+});
+
+afterEach(() => fetchMock.assertNoPendingInterceptors());
+
+describe('Notification targets', () => {
+	it('checks endpoints by channel and gives webhook targets a secret', async () => {
+		const { owner } = await createGroup();
+		const register = (channel: string, endpoint: string) => api(owner.token, '/devices/notifications', { body: { device_id: owner.device_id, channel, endpoint } });
+
+		for (const [channel, endpoint] of [['webhook', 'http://hooks.example.com/alert'], ['webhook', 'not a url'], ['apns', 'abc'], ['web_push', 'http://push.example.com/1'], ['sms', '+15550100']]) {
+			expect((await register(channel, endpoint)).status).toBe(400);
+		}
+
+		const target = await (await register('webhook', 'https://hooks.example.com/alert')).json<Target>();
+		expect(target.secret).toMatch(/^whsec_[0-9a-f]{48}$/);
+		// Registering again is a no-op that hands back the same secret
+		expect(await (await register('webhook', 'https://hooks.example.com/alert')).json()).toEqual(target);
+		expect(await (await register('apns', 'a'.repeat(64))).json()).toMatchObject({ secret: null });
+	});
+
+	it("alerts the group's other devices with a signed webhook", async () => {
+		const { group_id, owner } = await createGroup();
+		const viewer = await join(owner);
+		const endpoint = `https://hooks.example.com/${viewer.device_id}`;
+		const { secret } = await (await api(viewer.token, '/devices/notifications', { body: { device_id: viewer.device_id, channel: 'webhook', endpoint } })).json<Target>();
+
+		const received = receivePost(endpoint);
+		await api(owner.token, '/devices/events', { body: { device_id: owner.device_id, type: 'bark', level: 0.5 } });
+		const { headers, body } = await received;
+		expect(headers.get(WEBHOOK_EVENT_HEADER)).toBe('alert.bark');
+		expect(await verifyWebhookSignature(secret!, body, headers.get(WEBHOOK_SIGNATURE_HEADER)!)).toBe(true);
+		expect(JSON.parse(body)).toMatchObject({ group_id, device_id: owner.device_id, event_type: 'bark', level: 0.5, body: 'Camera' });
+	});
+
+	it('forgets targets whose receiver is gone', async () => {
+		const { owner } = await createGroup();
+		const viewer = await join(owner);
+		const endpoint = `https://hooks.example.com/${viewer.device_id}`;
+		const { target_id } = await (await api(viewer.token, '/devices/notifications', { body: { device_id: viewer.device_id, channel: 'webhook', endpoint } })).json<Target>();
+
+		const received = receivePost(endpoint, 410);
+		await api(owner.token, '/devices/events', { body: { device_id: owner.device_id, type: 'motion' } });
+		await received;
+		await expect
+			.poll(() => runInDurableObject(manager(), (_, state) => state.storage.sql.exec(`SELECT 1 FROM notification_targets WHERE target_id = ?`, target_id).toArray().length))
+			.toBe(0);
+	});
+});
@@ -0,0 +1,89 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { api, createGroup, invite, join, newMember, type Member } from './helpers';
+
+interface GroupMember {
+	user_id: string;
+	role: string;
+}
+
+async function members(member: Member) {
+	const { members } = await (await api(member.token, `/my-group?device_id=${member.device_id}`)).json<{ members: GroupMember[] }>();
+	return members.map(({ user_id, role }) => [user_id, role]);
+}
+
+function removeDevice(member: Member, target_device_id: string) {
+	return api(member.token, '/remove-device', { body: { device_id: member.device_id, target_device_id } });
+}
+
+describe('Removing devices', () => {
+	it("lets an admin remove another account's device and closes its room sockets", async () => {
+		const { group_id, owner } = await createGroup();
+		const admin = await join(owner, 'admin');
+		const viewer = await join(owner);
+
+		expect((await removeDevice(admin, viewer.device_id)).status).toBe(200);
+		expect(await (await api(viewer.token, `/my-group?device_id=${viewer.device_id}`)).json()).toMatchObject({ group: null, my_role: null });
+		expect(await members(owner)).toEqual([
+			[owner.user_id, 'owner'],
+			[admin.user_id, 'admin'],
+		]);
+		const room = env.STREAM_ROOM.get(env.STREAM_ROOM.idFromName(group_id));
+		await expect.poll(() => room.disconnectedDevices()).toEqual([viewer.device_id]);
+	});
+
+	it("keeps the owner's devices from admins and everything from viewers", async () => {
+		const { owner } = await createGroup();
+		const admin = await join(owner, 'admin');
+		const viewer = await join(owner);
+		const outsider = await newMember();
+
+		expect((await removeDevice(admin, owner.device_id)).status).toBe(403);
+		expect((await removeDevice(viewer, admin.device_id)).status).toBe(403);
+		expect((await removeDevice(admin, outsider.device_id)).status).toBe(400);
+		expect((await removeDevice(owner, admin.device_id)).status).toBe(200);
+		expect(await members(owner)).toEqual([
+			[owner.user_id, 'owner'],
+			[viewer.user_id, 'viewer'],
+		]);
+	});
+});
+
+describe('Group ownership', () => {
+	it('is handed over by the owner, who stays on as an admin', async () => {
+		const { owner } = await createGroup();
+		const admin = await join(owner, 'admin');
+		const viewer = await join(owner);
+		const transfer = (from: Member, user_id: string) => api(from.token, '/transfer-ownership', { body: { device_id: from.device_id, user_id } });
+
+		expect((await transfer(admin, admin.user_id)).status).toBe(403);
+		expect((await transfer(owner, owner.user_id)).status).toBe(400);
+		expect((await transfer(owner, (await newMember()).user_id)).status).toBe(400);
+
+		expect(await (await transfer(owner, viewer.user_id)).json()).toEqual({
+			members: [
+				expect.objectContaining({ user_id: owner.user_id, role: 'admin' }),
+				expect.objectContaining({ user_id: admin.user_id, role: 'admin' }),
+				expect.objectContaining({ user_id: viewer.user_id, role: 'owner' }),
+			],
+		});
+		// Only the new owner manages roles now
+		expect((await api(owner.token, '/group-role', { body: { device_id: owner.device_id, user_id: admin.user_id, role: 'viewer' } })).status).toBe(403);
+		expect((await api(viewer.token, '/group-role', { body: { device_id: viewer.device_id, user_id: admin.user_id, role: 'viewer' } })).status).toBe(200);
+	});
+
+	it('passes to the longest-standing admin when the owner leaves, and their invitations lapse', async () => {
+		const { owner } = await createGroup();
+		const viewer = await join(owner);
+		const admin = await join(owner, 'admin');
+		const { session_id } = await invite(owner);
+
+		expect((await api(owner.token, '/leave-group', { body: { device_id: owner.device_id } })).status).toBe(200);
+		expect(await members(viewer)).toEqual([
+			[viewer.user_id, 'viewer'],
+			[admin.user_id, 'owner'],
+		]);
+		const late = await newMember();
+		expect((await api(late.token, '/pair-device', { body: { session_id, device_id: late.device_id } })).status).toBe(400);
+	});
+});
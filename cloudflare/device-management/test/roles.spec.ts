@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { api, createGroup, invite, join, type Member } from './helpers';
+
+interface ActiveGroup {
+	group: { group_id: string; camera_device_id: string | null } | null;
+	members: { user_id: string; role: string }[];
+	my_role: string | null;
+}
+
+async function activeGroup(member: Member) {
+	return (await api(member.token, `/my-group?device_id=${member.device_id}`)).json<ActiveGroup>();
+}
+
+// Roles by account, in the order they joined
+async function roles(member: Member) {
+	return (await activeGroup(member)).members.map(({ user_id, role }) => [user_id, role]);
+}
+
+describe('Group roles', () => {
+	it('makes the creator the owner and invitees what they were invited as', async () => {
+		const { group_id, owner } = await createGroup();
+		const admin = await join(owner, 'admin');
+		const viewer = await join(admin);
+		expect(await roles(viewer)).toEqual([
+			[owner.user_id, 'owner'],
+			[admin.user_id, 'admin'],
+			[viewer.user_id, 'viewer'],
+		]);
+		expect(await activeGroup(admin)).toMatchObject({ my_role: 'admin' });
+		const membership = await api(viewer.token, `/group-membership?group_id=${group_id}&device_id=${viewer.device_id}`);
+		expect(await membership.json()).toMatchObject({ member_device_ids: [viewer.device_id], role: 'viewer' });
+	});
+
+	it('lets each role do only its part', async () => {
+		const { owner } = await createGroup();
+		const admin = await join(owner, 'admin');
+		const viewer = await join(owner);
+		const forbidden = async (member: Member, path: string, body: Record<string, unknown>) => {
+			const res = await api(member.token, path, { body: { device_id: member.device_id, ...body } });
+			expect(res.status).toBe(403);
+			expect(await res.json()).toMatchObject({ code: 'forbidden' });
+		};
+
+		await forbidden(viewer, '/generate-qr', {});
+		await forbidden(viewer, '/rename-group', { group_name: 'Mine now' });
+		await forbidden(viewer, '/set-camera', {});
+		// Admins are made by the owner
+		await forbidden(admin, '/generate-qr', { role: 'admin' });
+		await forbidden(admin, '/group-role', { user_id: viewer.user_id, role: 'admin' });
+
+		expect((await api(admin.token, '/rename-group', { body: { device_id: admin.device_id, group_name: 'Living room' } })).status).toBe(200);
+		expect((await invite(admin)).role).toBe('viewer');
+		const promoted = await api(owner.token, '/group-role', { body: { device_id: owner.device_id, user_id: viewer.user_id, role: 'admin' } });
+		expect(await promoted.json()).toMatchObject({ members: [{ role: 'owner' }, { role: 'admin' }, { user_id: viewer.user_id, role: 'admin' }] });
+	});
+
+	it("keeps the owner's role and the camera to those allowed", async () => {
+		const { owner } = await createGroup();
+		const admin = await join(owner, 'admin');
+		const changeRole = (user_id: string, role: string) => api(owner.token, '/group-role', { body: { device_id: owner.device_id, user_id, role } });
+		expect((await changeRole(owner.user_id, 'viewer')).status).toBe(400);
+		expect((await changeRole(admin.user_id, 'owner')).status).toBe(400);
+		expect((await changeRole('user-unknown', 'viewer')).status).toBe(400);
+
+		// An admin's camera stops being the camera when they become a viewer
+		await api(admin.token, '/set-camera', { body: { device_id: admin.device_id } });
+		expect((await activeGroup(owner)).group?.camera_device_id).toBe(admin.device_id);
+		await changeRole(admin.user_id, 'viewer');
+		expect((await activeGroup(owner)).group?.camera_device_id).toBeNull();
+	});
+
+	it('keeps the role of a member who scans an invitation to their own group', async () => {
+		const { owner } = await createGroup();
+		const admin = await join(owner, 'admin');
+		const { session_id } = await invite(admin);
+
+		// The owner's device is already in the group: nothing changes, and the invitation is still good
+		expect((await api(owner.token, '/pair-device', { body: { session_id, device_id: owner.device_id } })).status).toBe(200);
+		expect(await roles(owner)).toEqual([
+			[owner.user_id, 'owner'],
+			[admin.user_id, 'admin'],
+		]);
+
+		// The owner's second device joins with it, and the account stays the owner rather than becoming a viewer
+		const { device_id } = await (await api(owner.token, '/devices/register', { body: { device_name: 'Tablet', device_type: 'web' } })).json<{ device_id: string }>();
+		const paired = await api(owner.token, '/pair-device', { body: { session_id, device_id } });
+		expect(await paired.json()).toMatchObject({ device_ids: expect.arrayContaining([owner.device_id, admin.device_id, device_id]) });
+		expect(await roles(owner)).toEqual([
+			[owner.user_id, 'owner'],
+			[admin.user_id, 'admin'],
+		]);
+	});
+});
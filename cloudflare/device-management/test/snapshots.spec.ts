@@ -0,0 +1,91 @@
+import { env, runInDurableObject } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { api, createGroup, join, manager, newMember, type Member } from './helpers';
+
+interface Snapshot {
+	snapshot_id: string;
+	group_id: string;
+	device_id: string;
+	captured_at: number;
+	url: string;
+	thumbnail_url: string;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function upload(camera: Member, fields: { image?: File; thumbnail?: File; captured_at?: number } = {}) {
+	const form = new FormData();
+	form.set('device_id', camera.device_id);
+	form.set('image', fields.image ?? new File(['jpeg bytes'], 'snapshot.jpg', { type: 'image/jpeg' }));
+	if (fields.thumbnail) form.set('thumbnail', fields.thumbnail);
+	if (fields.captured_at !== undefined) form.set('captured_at', String(fields.captured_at));
+	return api(camera.token, '/devices/snapshots', { body: form });
+}
+
+// Path and query of a snapshot's URL, to fetch it through the test worker
+function pathOf(url: string) {
+	const { pathname, search } = new URL(url);
+	return pathname + search;
+}
+
+// Bucket keys of the device's snapshots still on record
+function storedKeys(device_id: string) {
+	return runInDurableObject(manager(), (_, state) =>
+		state.storage.sql.exec<{ object_key: string }>(`SELECT object_key FROM snapshots WHERE device_id = ? ORDER BY captured_at`, device_id).toArray().map((row) => row.object_key)
+	);
+}
+
+describe('Snapshots', () => {
+	it("stores a camera's snapshot for the members of its group", async () => {
+		const { group_id, owner } = await createGroup();
+		const viewer = await join(owner);
+		const res = await upload(owner, { thumbnail: new File(['png bytes'], 'thumb.png', { type: 'image/png' }) });
+		expect(res.status).toBe(201);
+		const snapshot = await res.json<Snapshot>();
+		expect(snapshot).toMatchObject({ group_id, device_id: owner.device_id, url: `https://device-management/devices/snapshots/${snapshot.snapshot_id}` });
+
+		const image = await api(viewer.token, pathOf(snapshot.url));
+		expect(image.headers.get('Content-Type')).toBe('image/jpeg');
+		expect(await image.text()).toBe('jpeg bytes');
+		const thumbnail = await api(viewer.token, pathOf(snapshot.thumbnail_url));
+		expect(thumbnail.headers.get('Content-Type')).toBe('image/png');
+		expect(await thumbnail.text()).toBe('png bytes');
+
+		const devices = await (await api(owner.token, '/devices/my')).json<{ device_id: string; latest_snapshot: Snapshot | null }[]>();
+		expect(devices).toEqual([expect.objectContaining({ device_id: owner.device_id, latest_snapshot: snapshot })]);
+		// Only the camera's owner sees it in their device list
+		const viewerDevices = await (await api(viewer.token, '/devices/my')).json<{ device_id: string; latest_snapshot: Snapshot | null }[]>();
+		expect(viewerDevices).toEqual([expect.objectContaining({ device_id: viewer.device_id, latest_snapshot: null })]);
+
+		const stranger = await newMember();
+		expect((await api(stranger.token, pathOf(snapshot.url))).status).toBe(403);
+		expect((await api(viewer.token, `/devices/snapshots/${crypto.randomUUID()}`)).status).toBe(404);
+	});
+
+	it('takes snapshots only from cameras, as images', async () => {
+		const { owner } = await createGroup();
+		const viewer = await join(owner);
+		expect((await upload(viewer)).status).toBe(403);
+		expect((await upload(owner, { image: new File(['text'], 'note.txt', { type: 'text/plain' }) })).status).toBe(400);
+		expect((await upload(owner, { image: new File([new Uint8Array(2 * 1024 * 1024 + 1)], 'big.jpg', { type: 'image/jpeg' }) })).status).toBe(400);
+		expect((await upload(owner, { captured_at: Date.now() + DAY })).status).toBe(400);
+	});
+
+	it('deletes snapshots older than a week and all but the latest 20 of a device', async () => {
+		const { owner } = await createGroup();
+		const now = Date.now();
+		// Pruned as soon as it is stored
+		const expired = await (await upload(owner, { captured_at: now - 8 * DAY })).json<Snapshot>();
+		expect(await storedKeys(owner.device_id)).toEqual([]);
+		expect(await env.SNAPSHOTS.head(`${expired.group_id}/${owner.device_id}/${expired.snapshot_id}.jpg`)).toBeNull();
+		expect((await api(owner.token, pathOf(expired.url))).status).toBe(404);
+
+		for (let i = 20; i >= 0; i--) {
+			await upload(owner, { captured_at: now - i * 1000 });
+		}
+		const keys = await storedKeys(owner.device_id);
+		expect(keys).toHaveLength(20);
+		const objects = await env.SNAPSHOTS.list({ prefix: `${expired.group_id}/${owner.device_id}/` });
+		expect(objects.objects.map((object) => object.key).sort()).toEqual([...keys].sort());
+	});
+});
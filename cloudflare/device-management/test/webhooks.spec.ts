@@ -0,0 +1,119 @@
+import { fetchMock, runInDurableObject } from 'cloudflare:test';
+import { afterEach, beforeAll, describe, it, expect } from 'vitest';
+import { verifyWebhookSignature, WEBHOOK_DELIVERY_HEADER, WEBHOOK_EVENT_HEADER, WEBHOOK_SIGNATURE_HEADER, type WebhookEvent } from '@petube/shared';
+import { deliverDueWebhooks, enqueuePing, type WebhookDelivery } from '../src/webhooks';
+import { accessToken, api, createGroup, join, manager, newMember, receivePost, userId, type Member } from './helpers';
+
+interface Subscription {
+	webhook_id: string;
+	url: string;
+	events: string[];
+	secret: string;
+}
+
+beforeAll(() => {
+	fetchMock.activate();
+	fetchMock.disableNetConnect();
+});
+
+afterEach(() => fetchMock.assertNoPendingInterceptors());
+
+async function subscribe(member: Pick<Member, 'token'>, events: string[]) {
+	const res = await api(member.token, '/webhooks', { body: { url: `https://hooks.example.com/${crypto.randomUUID()}`, events } });
+	expect(res.status).toBe(201);
+	return res.json<Subscription>();
+}
+
+async function deliveries(member: Pick<Member, 'token'>, webhook_id: string) {
+	return (await api(member.token, `/webhooks/${webhook_id}/deliveries`)).json<WebhookDelivery[]>();
+}
+
+describe('Webhook subscriptions', () => {
+	it('belong to the account that made them', async () => {
+		const token = await accessToken(userId());
+		for (const body of [{ url: 'http://hooks.example.com/1', events: ['device.paired'] }, { url: 'https://hooks.example.com/1', events: ['device.exploded'] }, { url: 'https://hooks.example.com/1', events: [] }]) {
+			expect((await api(token, '/webhooks', { body })).status).toBe(400);
+		}
+		// Device-bound tokens (e.g. a TV signed in with a code) don't manage the account's webhooks
+		const deviceToken = await accessToken(userId(), { device_id: 'tv-1' });
+		expect((await api(deviceToken, '/webhooks', { body: { url: 'https://hooks.example.com/1', events: ['device.paired'] } })).status).toBe(403);
+
+		const subscription = await subscribe({ token }, ['device.paired', 'device.paired', 'stream.started']);
+		expect(subscription).toMatchObject({ events: ['device.paired', 'stream.started'], secret: expect.stringMatching(/^whsec_/) });
+		const { secret, ...listed } = subscription;
+		expect(await (await api(token, '/webhooks')).json()).toEqual([listed]);
+
+		const other = await accessToken(userId());
+		expect((await api(other, `/webhooks/${subscription.webhook_id}`, { method: 'DELETE' })).status).toBe(404);
+		expect((await api(other, `/webhooks/${subscription.webhook_id}/deliveries`)).status).toBe(404);
+		expect((await api(token, `/webhooks/${subscription.webhook_id}`, { method: 'DELETE' })).status).toBe(200);
+		expect(await (await api(token, '/webhooks')).json()).toEqual([]);
+	});
+});
+
+describe('Webhook deliveries', () => {
+	it('sends signed events and logs the outcome', async () => {
+		const user_id = userId();
+		const token = await accessToken(user_id);
+		const { webhook_id, url, secret } = await subscribe({ token }, ['device.registered']);
+
+		const received = receivePost(url);
+		const { device_id } = await (await api(token, '/devices/register', { body: { device_name: 'Kitchen', device_type: 'web' } })).json<{ device_id: string }>();
+		const { headers, body } = await received;
+		expect(headers.get(WEBHOOK_EVENT_HEADER)).toBe('device.registered');
+		expect(await verifyWebhookSignature(secret, body, headers.get(WEBHOOK_SIGNATURE_HEADER)!)).toBe(true);
+		const event = JSON.parse(body) as WebhookEvent;
+		expect(event).toMatchObject({ type: 'device.registered', data: { device_id, device_name: 'Kitchen', device_type: 'web' } });
+
+		await expect.poll(() => deliveries({ token }, webhook_id)).toEqual([
+			expect.objectContaining({ delivery_id: headers.get(WEBHOOK_DELIVERY_HEADER), event_id: event.id, status: 'delivered', attempts: 1, last_status_code: 200, next_attempt_at: null }),
+		]);
+	});
+
+	it("tells every member about the group's events, including those StreamRoom reports", async () => {
+		const { group_id, owner } = await createGroup();
+		const { url } = await subscribe(owner, ['device.paired', 'stream.started']);
+
+		const paired = receivePost(url);
+		const viewer = await join(owner);
+		expect(JSON.parse((await paired).body)).toMatchObject({ type: 'device.paired', data: { group_id, device_id: viewer.device_id } });
+
+		const started = receivePost(url);
+		await manager().emitGroupEvent(group_id, 'stream.started', { device_id: owner.device_id, viewers: 1 });
+		expect(JSON.parse((await started).body)).toMatchObject({ type: 'stream.started', data: { group_id, device_id: owner.device_id, viewers: 1 } });
+	});
+
+	it('retries failed deliveries later', async () => {
+		const member = await newMember();
+		const { webhook_id, url } = await subscribe(member, ['device.paired']);
+		const received = receivePost(url, 500);
+		expect((await api(member.token, `/webhooks/${webhook_id}/test`, { method: 'POST' })).status).toBe(202);
+		expect((await received).headers.get(WEBHOOK_EVENT_HEADER)).toBe('ping');
+
+		await expect.poll(async () => (await deliveries(member, webhook_id))[0]).toMatchObject({ status: 'pending', attempts: 1, last_status_code: 500, last_error: 'HTTP 500' });
+		const [delivery] = await deliveries(member, webhook_id);
+		expect(delivery.next_attempt_at).toBeGreaterThan(Date.now() + 20 * 1000);
+	});
+
+	it('claims due deliveries, so overlapping runs send each once', async () => {
+		const member = await newMember();
+		const { webhook_id, url } = await subscribe(member, ['device.paired']);
+		let sent = 0;
+		const { origin, pathname } = new URL(url);
+		fetchMock
+			.get(origin)
+			.intercept({ path: pathname, method: 'POST' })
+			.reply(() => {
+				sent++;
+				return { statusCode: 200, data: '' };
+			})
+			.persist();
+
+		await runInDurableObject(manager(), async (_, state) => {
+			enqueuePing(state.storage.sql, webhook_id);
+			await Promise.all([deliverDueWebhooks(state.storage.sql), deliverDueWebhooks(state.storage.sql)]);
+		});
+		expect(sent).toBe(1);
+		expect(await deliveries(member, webhook_id)).toMatchObject([{ status: 'delivered', attempts: 1 }]);
+	});
+});
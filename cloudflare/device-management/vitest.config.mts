@@ -0,0 +1,55 @@
+import { defineWorkersConfig } from '@cloudflare/vitest-pool-workers/config';
+import { exportJWK, generateKeyPair } from 'jose';
+
+// Test access tokens are signed with this key (see test/helpers.ts); the auth stand-in publishes its public half
+const { privateKey, publicKey } = await generateKeyPair('RS256', { extractable: true });
+const signingKey = { ...(await exportJWK(privateKey)), kid: 'test', alg: 'RS256' };
+const jwks = { keys: [{ ...(await exportJWK(publicKey)), kid: 'test', alg: 'RS256' }] };
+
+export default defineWorkersConfig({
+	test: {
+		poolOptions: {
+			workers: {
+				// Alerts and removals finish in the background (waitUntil), past a test's isolated storage frame, so tests
+				// share the one DeviceManager: every test uses its own user ids instead
+				isolatedStorage: false,
+				wrangler: { configPath: './wrangler.jsonc' },
+				miniflare: {
+					bindings: {
+						TEST_SIGNING_KEY: signingKey,
+					},
+					// Stand-in for the auth worker, which isn't running during tests
+					serviceBindings: {
+						AUTH: (request: Request) => {
+							const { pathname } = new URL(request.url);
+							return new Response(JSON.stringify(pathname === '/auth/introspect' ? { active: true } : jwks));
+						},
+					},
+					// StreamRoom, bound from stream-control: remembers the devices it was asked to disconnect
+					workers: [
+						{
+							name: 'stream-control',
+							modules: true,
+							compatibilityDate: '2025-06-18',
+							script: `
+								import { DurableObject } from 'cloudflare:workers';
+								export class StreamRoom extends DurableObject {
+									async disconnectDevice(device_id) {
+										const disconnected = (await this.ctx.storage.get('disconnected')) ?? [];
+										await this.ctx.storage.put('disconnected', [...disconnected, device_id]);
+										return 1;
+									}
+									async disconnectedDevices() {
+										return (await this.ctx.storage.get('disconnected')) ?? [];
+									}
+								}
+								export default { fetch: () => new Response(null, { status: 404 }) };
+							`,
+							durableObjects: { STREAM_ROOM: 'StreamRoom' },
+						},
+					],
+				},
+			},
+		},
+	},
+});
@@ -1,14 +1,18 @@
-import { importPKCS8, importSPKI, exportJWK } from 'jose';
+import { importPKCS8, importSPKI, exportJWK, calculateJwkThumbprint } from 'jose';
 import { readFile } from 'fs/promises';
 
 const privatePem = await readFile('jwt-private.pem', 'utf8');
 const publicPem = await readFile('jwt-public.pem', 'utf8');
 
-const privateKey = await importPKCS8(privatePem, 'RS256');
-const publicKey = await importSPKI(publicPem, 'RS256');
+const privateKey = await importPKCS8(privatePem, 'RS256', { extractable: true });
+const publicKey = await importSPKI(publicPem, 'RS256', { extractable: true });
 
 const jwkPrivate = await exportJWK(privateKey);
 const jwkPublic = await exportJWK(publicKey);
+// Tag the key with its thumbprint so verifiers can pick it from the JWKS by `kid`
+const kid = await calculateJwkThumbprint(jwkPublic);
 
 console.log('Private JWK:', JSON.stringify(jwkPrivate, null, 2));
-console.log('Public JWK:', JSON.stringify(jwkPublic, null, 2));
\ No newline at end of file
+console.log('Public JWK:', JSON.stringify(jwkPublic, null, 2));
+// Append this entry to the auth worker's JWT_SIGNING_KEYS secret (a JSON array) to add the key
+console.log('JWT_SIGNING_KEYS entry:', JSON.stringify({ ...jwkPrivate, kid, status: 'active' }));
@@ -0,0 +1,12 @@
+// Agora uids are derived from DeviceManager device ids, so the auth worker (which issues RTC tokens for a uid)
+// and StreamRoom (which tells the camera whose audio to play) agree on them without a lookup.
+
+// Derive a stable, non-zero Agora uid (uint32) from a device id using FNV-1a
+export function agoraUidForDevice(deviceId: string): number {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < deviceId.length; i++) {
+		hash ^= deviceId.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193) >>> 0;
+	}
+	return hash || 1;
+}
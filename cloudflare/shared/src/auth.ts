@@ -0,0 +1,128 @@
+import { createLocalJWKSet, decodeProtectedHeader, jwtVerify, type JSONWebKeySet, type JWTPayload, type JWTVerifyGetKey } from 'jose';
+
+/**
+ * Verification of the access tokens minted by the auth worker.
+ *
+ * The auth worker verifies with its own key set; stream-control and device-management use
+ * `createRemoteTokenVerifier`, which fetches the auth worker's JWKS through a service binding
+ * (cached, picked by `kid`) and checks the revocation list via /auth/introspect.
+ */
+
+// Claims carried by every access token
+export interface AccessTokenClaims extends JWTPayload {
+	id: string;
+	email?: string;
+	name?: string;
+	sid?: string; // Refresh token family (session) the token belongs to
+	device_id?: string; // Set for device-code logins: the token may only act as this DeviceManager device
+}
+
+export type AuthErrorCode = 'missing_token' | 'invalid_token' | 'token_revoked' | 'auth_unavailable' | 'device_mismatch';
+
+export class AuthError extends Error {
+	constructor(
+		public code: AuthErrorCode,
+		message: string,
+		public status = code === 'auth_unavailable' ? 503 : code === 'device_mismatch' ? 403 : 401
+	) {
+		super(message);
+		this.name = 'AuthError';
+	}
+}
+
+// Read the token from the Authorization header. Browsers can't set headers on WebSocket
+// upgrades, so callers that accept sockets may also allow a `token` query param.
+export function extractBearerToken(request: Request, options: { allowQueryParam?: boolean } = {}): string {
+	const authHeader = request.headers.get('Authorization');
+	if (authHeader?.startsWith('Bearer ')) {
+		return authHeader.slice(7);
+	}
+	const token = options.allowQueryParam ? new URL(request.url).searchParams.get('token') : null;
+	if (!token) {
+		throw new AuthError('missing_token', 'Missing or invalid authorization header');
+	}
+	return token;
+}
+
+// Verify signature and expiry, and check that the token carries a user id
+export async function verifyAccessToken(token: string, keys: JWTVerifyGetKey): Promise<AccessTokenClaims> {
+	let payload: JWTPayload;
+	try {
+		({ payload } = await jwtVerify(token, keys));
+	} catch (err) {
+		throw new AuthError('invalid_token', `Invalid token: ${(err as Error).message}`);
+	}
+	if (typeof payload.id !== 'string' || !payload.id) {
+		throw new AuthError('invalid_token', 'Invalid token: no user id');
+	}
+	if (
+		(payload.email !== undefined && typeof payload.email !== 'string') ||
+		(payload.name !== undefined && typeof payload.name !== 'string') ||
+		(payload.device_id !== undefined && typeof payload.device_id !== 'string')
+	) {
+		throw new AuthError('invalid_token', 'Invalid token: malformed claims');
+	}
+	return payload as AccessTokenClaims;
+}
+
+// A device-bound token (from the device-code login) may only act as its own device
+export function assertDeviceBinding(claims: AccessTokenClaims, device_id: string | null | undefined): void {
+	if (claims.device_id && device_id !== claims.device_id) {
+		throw new AuthError('device_mismatch', 'Token is bound to another device');
+	}
+}
+
+// The auth worker's public signing keys, cached per isolate.
+// Refetched when the cache is stale or a token names a `kid` we haven't seen (i.e. after a key rotation).
+const JWKS_TTL_MS = 5 * 60 * 1000;
+const JWKS_MIN_REFETCH_MS = 30 * 1000;
+
+export function createJWKSCache(auth: Fetcher, now: () => number = Date.now) {
+	let cache: { jwks: JSONWebKeySet; fetchedAt: number } | null = null;
+
+	return async function getJWKS(kid?: string): Promise<JSONWebKeySet> {
+		const age = cache ? now() - cache.fetchedAt : Infinity;
+		const unknownKid = !!kid && !!cache && !cache.jwks.keys.some((k) => k.kid === kid);
+		if (age > JWKS_TTL_MS || (unknownKid && age > JWKS_MIN_REFETCH_MS)) {
+			try {
+				const res = await auth.fetch('https://auth/.well-known/jwks.json');
+				if (!res.ok) {
+					throw new Error(`JWKS fetch failed with status ${res.status}`);
+				}
+				cache = { jwks: await res.json<JSONWebKeySet>(), fetchedAt: now() };
+			} catch (err) {
+				// Keep verifying with the keys we have rather than failing every request
+				if (!cache) throw new AuthError('auth_unavailable', (err as Error).message);
+				console.error(`[JWKS] Refresh failed, using cached keys: ${(err as Error).message}`);
+			}
+		}
+		return cache!.jwks;
+	};
+}
+
+// Token verifier for workers other than auth: JWKS by kid plus the shared revocation list
+export function createRemoteTokenVerifier(auth: Fetcher) {
+	const getJWKS = createJWKSCache(auth);
+
+	return async function verify(token: string): Promise<AccessTokenClaims> {
+		let kid: string | undefined;
+		try {
+			kid = decodeProtectedHeader(token).kid;
+		} catch {
+			throw new AuthError('invalid_token', 'Invalid token: malformed header');
+		}
+		const claims = await verifyAccessToken(token, createLocalJWKSet(await getJWKS(kid)));
+
+		const res = await auth.fetch('https://auth/auth/introspect', {
+			headers: { Authorization: `Bearer ${token}` },
+		});
+		if (!res.ok) {
+			throw new AuthError('auth_unavailable', `Token introspection failed with status ${res.status}`);
+		}
+		const { active } = await res.json<{ active: boolean }>();
+		if (!active) {
+			throw new AuthError('token_revoked', 'Token has been revoked');
+		}
+		return claims;
+	};
+}
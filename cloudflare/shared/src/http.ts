@@ -0,0 +1,24 @@
+// CORS and JSON response helpers used by every worker
+
+export const corsHeaders = {
+	'Access-Control-Allow-Origin': '*',
+	'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+	'Access-Control-Allow-Headers': '*',
+};
+
+// Response to a CORS preflight request
+export function preflightResponse(): Response {
+	return new Response(null, { headers: corsHeaders });
+}
+
+export function jsonResponse(body: unknown, init: ResponseInit = {}): Response {
+	return new Response(JSON.stringify(body), {
+		...init,
+		headers: { ...corsHeaders, 'Content-Type': 'application/json', ...init.headers },
+	});
+}
+
+// JSON error body: `error` is a human-readable message, `code` a stable machine-readable reason
+export function errorResponse(status: number, error: string, code?: string): Response {
+	return jsonResponse(code ? { error, code } : { error }, { status });
+}
@@ -0,0 +1,6 @@
+export * from './agora';
+export * from './auth';
+export * from './http';
+export * from './roles';
+export * from './room-protocol';
+export * from './webhooks';
@@ -0,0 +1,54 @@
+/**
+ * Roles of an account in a pairing group, kept by device-management and checked by every service that acts
+ * on a group: device-management's routes, the auth worker's Agora tokens and StreamRoom.
+ * - owner: created the group or was handed it (one per group); everything an admin can do, plus changing roles
+ *   and transferring ownership. Admins can't remove the owner's devices.
+ * - admin: invites, removes and renames; may be the camera, take it over, talk and change the streaming schedule
+ * - viewer: only watches
+ */
+
+export type GroupRole = 'owner' | 'admin' | 'viewer';
+
+export const GROUP_ROLES: GroupRole[] = ['owner', 'admin', 'viewer'];
+
+export type GroupAction =
+	| 'watch'
+	| 'publish' // Be the group's camera: Agora publisher token, publisher role in StreamRoom, camera events and snapshots
+	| 'control_camera' // Take over publishing and send owner-only camera commands (see COMMAND_PERMISSIONS)
+	| 'talk'
+	| 'invite'
+	| 'remove'
+	| 'rename'
+	| 'schedule'
+	| 'manage_roles';
+
+const GROUP_PERMISSIONS: Record<GroupAction, GroupRole[]> = {
+	watch: ['owner', 'admin', 'viewer'],
+	publish: ['owner', 'admin'],
+	control_camera: ['owner', 'admin'],
+	talk: ['owner', 'admin'],
+	invite: ['owner', 'admin'],
+	remove: ['owner', 'admin'],
+	rename: ['owner', 'admin'],
+	schedule: ['owner', 'admin'],
+	manage_roles: ['owner'],
+};
+
+export function groupRoleAllows(role: GroupRole, action: GroupAction): boolean {
+	return GROUP_PERMISSIONS[action].includes(role);
+}
+
+export class GroupPermissionError extends Error {
+	constructor(public action: GroupAction, public role: GroupRole | null) {
+		super(role ? `A group ${role} can't ${action.replace('_', ' ')}` : 'Not a member of this group');
+		this.name = 'GroupPermissionError';
+	}
+}
+
+// Throws GroupPermissionError unless `role` (null: not a member) may perform `action`
+export function assertGroupPermission(role: GroupRole | null, action: GroupAction): GroupRole {
+	if (!role || !groupRoleAllows(role, action)) {
+		throw new GroupPermissionError(action, role);
+	}
+	return role;
+}
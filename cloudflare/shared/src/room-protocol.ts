@@ -0,0 +1,328 @@
+/**
+ * StreamRoom WebSocket protocol, shared by the stream-control worker and (as the reference schema)
+ * the web page and the iOS app.
+ *
+ * Every frame is a JSON object with a `type`. Clients open with `hello` carrying their protocol version;
+ * the server answers `welcome` with the version it will speak. Clients that never say hello are treated
+ * as version 0 (the original `role`/`control` messages only) and keep working unchanged.
+ *
+ * Requests may carry a client-chosen `id`; the matching `ack` or `error` echoes it back.
+ * Heartbeats are the literal frames HEARTBEAT_PING / HEARTBEAT_PONG, answered without waking the room.
+ *
+ * Version 2 adds remote commands: a viewer sends `command` (id required), the room checks COMMAND_PERMISSIONS,
+ * relays it to the publisher under a new id and acks the viewer. The publisher answers `command_result`,
+ * which the room routes back to the viewer under the viewer's original id.
+ *
+ * Version 3 adds push-to-talk: a viewer sends `talk` with action 'request' to take the talk floor (one viewer
+ * at a time) and 'release' to give it back. The holder is listed as `talker` in `room_state`, and the publisher
+ * gets `talk_floor` with the holder's Agora uid so it plays that viewer's audio and nobody else's.
+ *
+ * Version 4 adds the `snapshot` command: the camera captures a still, uploads it to device-management
+ * (POST /devices/snapshots) and answers with `result: { snapshot_id, captured_at }`. Viewers that don't want to
+ * start the stream ask for one over HTTP instead (POST /room/<group id>/snapshot), which the room relays the same way.
+ */
+
+export const PROTOCOL_VERSION = 4;
+export const MIN_PROTOCOL_VERSION = 0;
+// Publishers below this version can't execute remote commands
+export const COMMANDS_PROTOCOL_VERSION = 2;
+// Publishers below this version don't know whose audio to play, so the talk floor isn't granted
+export const TALK_PROTOCOL_VERSION = 3;
+// Publishers below this version can't take snapshots
+export const SNAPSHOT_PROTOCOL_VERSION = 4;
+
+export const HEARTBEAT_PING = '{"type":"ping"}';
+export const HEARTBEAT_PONG = '{"type":"pong"}';
+export const HEARTBEAT_INTERVAL_MS = 20 * 1000;
+
+export type RoomRole = 'publisher' | 'subscriber';
+
+// --- Client -> server ---
+
+export interface HelloMessage {
+	type: 'hello';
+	protocol_version: number;
+	id?: string;
+}
+
+export interface RoleMessage {
+	type: 'role';
+	role: RoomRole;
+	force?: boolean; // Take over from the current publisher (see StreamRoom.canTakeOver)
+	id?: string;
+}
+
+export type CameraCommand =
+	| { name: 'switch_camera'; facing: 'front' | 'back' }
+	| { name: 'torch'; on: boolean }
+	| { name: 'resolution'; preset: '360p' | '480p' | '720p' | '1080p' }
+	| { name: 'mute_mic'; muted: boolean }
+	| { name: 'play_sound'; sound: string }
+	| { name: 'snapshot' };
+
+export type CameraCommandName = CameraCommand['name'];
+
+// Who may send each command: any viewer in the group, or only the camera's owner (same user) and the group's owner and admins
+export const COMMAND_PERMISSIONS: Record<CameraCommandName, 'viewer' | 'owner'> = {
+	switch_camera: 'viewer',
+	torch: 'viewer',
+	play_sound: 'viewer',
+	snapshot: 'viewer',
+	resolution: 'owner', // Costs the camera's bandwidth
+	mute_mic: 'owner', // Privacy of whoever is near the camera
+};
+
+// Viewer -> room: run a command on the camera
+export interface CommandMessage {
+	type: 'command';
+	id: string;
+	command: CameraCommand;
+}
+
+// Publisher -> room: outcome of a relayed command
+export interface CommandResultMessage {
+	type: 'command_result';
+	id: string; // The relay id the publisher received
+	ok: boolean;
+	error?: string;
+	result?: Record<string, unknown>;
+}
+
+// Viewer -> room: take or give back the talk floor
+export interface TalkMessage {
+	type: 'talk';
+	action: 'request' | 'release';
+	id?: string;
+}
+
+export type ClientMessage = HelloMessage | RoleMessage | CommandMessage | CommandResultMessage | TalkMessage;
+
+// --- Server -> client ---
+
+export interface WelcomeMessage {
+	type: 'welcome';
+	protocol_version: number;
+	heartbeat_interval_ms: number;
+	id?: string;
+}
+
+export interface AckMessage {
+	type: 'ack';
+	id: string;
+}
+
+export type RoomErrorCode =
+	| 'malformed_frame' // Not a JSON object
+	| 'unknown_type'
+	| 'invalid_message' // Known type, bad fields
+	| 'unsupported_version'
+	| 'publisher_exists'
+	| 'not_group_member'
+	| 'membership_check_failed'
+	| 'forbidden' // Not allowed to send this message or command
+	| 'no_publisher'
+	| 'publisher_unsupported' // The publisher speaks a protocol version without commands (or talk)
+	| 'unknown_command' // command_result for a command that isn't pending (answered or timed out)
+	| 'talk_floor_taken' // Another viewer is talking
+	| 'room_full' // The room has its maximum number of viewers
+	| 'too_many_rooms' // The account is already in its maximum number of rooms
+	| 'room_closed' // Outside the room's streaming schedule; see `opens_at`
+	| 'removed_from_group' // The device left or was removed from the group; sent right before the socket is closed
+	| 'session_revoked' // The session was logged out (or all of the user's sessions); sent right before the socket is closed
+	| 'internal_error';
+
+export interface ErrorMessage {
+	type: 'error';
+	code: RoomErrorCode;
+	message: string;
+	id?: string;
+	opens_at?: string | null; // room_closed: when the room opens next (ISO time), if ever
+}
+
+// Sent to the publisher: whether anyone is watching. `reason` says why it must pause even though someone is.
+export interface ControlMessage {
+	type: 'control';
+	action: 'start' | 'pause';
+	reason?: 'usage_cap' | 'schedule'; // The camera's account used up its monthly streaming minutes, or the room is outside its schedule
+}
+
+// A participant as shown to everyone in the room
+export interface Participant {
+	user_id: string;
+	name: string | null;
+	device_id: string | null;
+	joined_at: number;
+}
+
+// Broadcast to every socket whenever someone joins, leaves or picks a role
+export interface RoomStateMessage {
+	type: 'room_state';
+	publisher: (Participant & { online: true }) | { online: false };
+	viewers: Participant[];
+	talker: Participant | null; // Viewer holding the talk floor
+	schedule: { open: boolean; next_change_at: string | null } | null; // null: no schedule, always open
+}
+
+// Sent to a publisher that was replaced by a newer connection, right before it is closed
+export interface SupersededMessage {
+	type: 'superseded';
+	device_id: string | null;
+	user_id: string;
+}
+
+// Room -> publisher: a command from a viewer, to be answered with command_result under the same id
+export interface CommandRelayMessage {
+	type: 'command';
+	id: string;
+	command: CameraCommand;
+	from: Participant;
+}
+
+// Room -> viewer: what the publisher reported, under the viewer's original command id.
+// `error` is 'timeout' when the publisher didn't answer in time.
+export interface CommandOutcomeMessage {
+	type: 'command_result';
+	id: string;
+	command: CameraCommandName;
+	ok: boolean;
+	error?: string;
+	result?: Record<string, unknown>;
+}
+
+// Room -> publisher: whose audio to play (null: nobody's), sent along with every room_state
+export interface TalkFloorMessage {
+	type: 'talk_floor';
+	talker: (Participant & { agora_uid: number }) | null;
+}
+
+export type ServerMessage =
+	| WelcomeMessage
+	| AckMessage
+	| ErrorMessage
+	| ControlMessage
+	| RoomStateMessage
+	| SupersededMessage
+	| CommandRelayMessage
+	| CommandOutcomeMessage
+	| TalkFloorMessage;
+
+// --- Validation ---
+
+export type ParseResult<T> = { ok: true; message: T } | { ok: false; error: ErrorMessage };
+
+function invalid(code: RoomErrorCode, message: string, id?: string): { ok: false; error: ErrorMessage } {
+	return { ok: false, error: { type: 'error', code, message, ...(id !== undefined && { id }) } };
+}
+
+const RESOLUTION_PRESETS = ['360p', '480p', '720p', '1080p'];
+
+// Validate the `command` of a command message; returns an error message or the command
+function parseCameraCommand(value: unknown): CameraCommand | string {
+	if (typeof value !== 'object' || value === null) return 'command must be an object';
+	const command = value as Record<string, unknown>;
+	switch (command.name) {
+		case 'switch_camera':
+			if (command.facing !== 'front' && command.facing !== 'back') return "facing must be 'front' or 'back'";
+			return { name: 'switch_camera', facing: command.facing };
+		case 'torch':
+			if (typeof command.on !== 'boolean') return 'on must be a boolean';
+			return { name: 'torch', on: command.on };
+		case 'resolution':
+			if (!RESOLUTION_PRESETS.includes(command.preset as string)) return `preset must be one of ${RESOLUTION_PRESETS.join(', ')}`;
+			return { name: 'resolution', preset: command.preset as '360p' | '480p' | '720p' | '1080p' };
+		case 'mute_mic':
+			if (typeof command.muted !== 'boolean') return 'muted must be a boolean';
+			return { name: 'mute_mic', muted: command.muted };
+		case 'play_sound':
+			if (typeof command.sound !== 'string' || !/^[a-z0-9_-]{1,32}$/.test(command.sound)) return 'sound must be a short sound name';
+			return { name: 'play_sound', sound: command.sound };
+		case 'snapshot':
+			return { name: 'snapshot' };
+		default:
+			return `Unknown command: ${String(command.name)}`;
+	}
+}
+
+// Parse and validate a frame from a client
+export function parseClientMessage(raw: string | ArrayBuffer): ParseResult<ClientMessage> {
+	if (typeof raw !== 'string') {
+		return invalid('malformed_frame', 'Binary frames are not supported');
+	}
+	let data: unknown;
+	try {
+		data = JSON.parse(raw);
+	} catch {
+		return invalid('malformed_frame', 'Frame is not valid JSON');
+	}
+	if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+		return invalid('malformed_frame', 'Frame must be a JSON object');
+	}
+
+	const frame = data as Record<string, unknown>;
+	if (frame.id !== undefined && (typeof frame.id !== 'string' || frame.id.length === 0 || frame.id.length > 64)) {
+		return invalid('invalid_message', 'id must be a non-empty string of at most 64 characters');
+	}
+	const id = frame.id as string | undefined;
+
+	switch (frame.type) {
+		case 'hello':
+			if (!Number.isInteger(frame.protocol_version) || (frame.protocol_version as number) < 0) {
+				return invalid('invalid_message', 'protocol_version must be a non-negative integer', id);
+			}
+			return { ok: true, message: { type: 'hello', protocol_version: frame.protocol_version as number, id } };
+		case 'role':
+			if (frame.role !== 'publisher' && frame.role !== 'subscriber') {
+				return invalid('invalid_message', "role must be 'publisher' or 'subscriber'", id);
+			}
+			if (frame.force !== undefined && typeof frame.force !== 'boolean') {
+				return invalid('invalid_message', 'force must be a boolean', id);
+			}
+			return { ok: true, message: { type: 'role', role: frame.role, force: frame.force as boolean | undefined, id } };
+		case 'command': {
+			if (id === undefined) {
+				return invalid('invalid_message', 'command requires an id');
+			}
+			const command = parseCameraCommand(frame.command);
+			if (typeof command === 'string') {
+				return invalid('invalid_message', command, id);
+			}
+			return { ok: true, message: { type: 'command', id, command } };
+		}
+		case 'command_result':
+			if (id === undefined) {
+				return invalid('invalid_message', 'command_result requires an id');
+			}
+			if (typeof frame.ok !== 'boolean') {
+				return invalid('invalid_message', 'ok must be a boolean', id);
+			}
+			if (frame.error !== undefined && (typeof frame.error !== 'string' || frame.error.length > 200)) {
+				return invalid('invalid_message', 'error must be a string of at most 200 characters', id);
+			}
+			if (frame.result !== undefined && (typeof frame.result !== 'object' || frame.result === null || Array.isArray(frame.result))) {
+				return invalid('invalid_message', 'result must be an object', id);
+			}
+			return {
+				ok: true,
+				message: {
+					type: 'command_result',
+					id,
+					ok: frame.ok,
+					error: frame.error as string | undefined,
+					result: frame.result as Record<string, unknown> | undefined,
+				},
+			};
+		case 'talk':
+			if (frame.action !== 'request' && frame.action !== 'release') {
+				return invalid('invalid_message', "action must be 'request' or 'release'", id);
+			}
+			return { ok: true, message: { type: 'talk', action: frame.action, id } };
+		default:
+			return invalid('unknown_type', `Unknown message type: ${String(frame.type)}`, id);
+	}
+}
+
+// Protocol version to speak with a client that said hello with `requested`, or null if too old
+export function negotiateProtocolVersion(requested: number): number | null {
+	if (requested < MIN_PROTOCOL_VERSION) return null;
+	return Math.min(requested, PROTOCOL_VERSION);
+}
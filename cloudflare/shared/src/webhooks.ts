@@ -0,0 +1,64 @@
+/**
+ * Outbound webhooks: the event types users can subscribe to and how deliveries are signed. device-management
+ * delivers them (for its own events and those StreamRoom reports); receivers can use verifyWebhookSignature.
+ *
+ * Every delivery is a POST of a WebhookEvent as JSON with the headers
+ * - Petube-Event: the event type
+ * - Petube-Delivery: the delivery id, the same across retries
+ * - Petube-Signature: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>" with the subscription's secret>`
+ */
+
+export const WEBHOOK_EVENT_TYPES = [
+	'device.registered',
+	'device.paired',
+	'device.left_group',
+	'stream.publisher_online',
+	'stream.publisher_offline',
+	'stream.started',
+	'stream.paused',
+] as const;
+
+// 'ping' is only sent on request, to test a subscription
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number] | 'ping';
+
+export interface WebhookEvent {
+	id: string;
+	type: WebhookEventType;
+	created_at: string; // ISO time
+	data: Record<string, unknown>;
+}
+
+export const WEBHOOK_EVENT_HEADER = 'Petube-Event';
+export const WEBHOOK_DELIVERY_HEADER = 'Petube-Delivery';
+export const WEBHOOK_SIGNATURE_HEADER = 'Petube-Signature';
+
+// Signatures older (or newer) than this are rejected, so captured deliveries can't be replayed later
+export const WEBHOOK_SIGNATURE_TOLERANCE_S = 5 * 60;
+
+async function hmacHex(secret: string, message: string): Promise<string> {
+	const encoder = new TextEncoder();
+	const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+	const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+	return [...new Uint8Array(signature)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Value of the Petube-Signature header for `body`
+export async function signWebhookPayload(secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)): Promise<string> {
+	return `t=${timestamp},v1=${await hmacHex(secret, `${timestamp}.${body}`)}`;
+}
+
+// Check a Petube-Signature header against the raw request body
+export async function verifyWebhookSignature(secret: string, body: string, header: string, now = Math.floor(Date.now() / 1000)): Promise<boolean> {
+	const parts = Object.fromEntries(header.split(',').map((part) => part.trim().split('=', 2) as [string, string]));
+	const timestamp = Number(parts.t);
+	if (!Number.isInteger(timestamp) || Math.abs(now - timestamp) > WEBHOOK_SIGNATURE_TOLERANCE_S || !parts.v1) {
+		return false;
+	}
+	const expected = await hmacHex(secret, `${timestamp}.${body}`);
+	// Constant-time comparison
+	let diff = expected.length ^ parts.v1.length;
+	for (let i = 0; i < expected.length; i++) {
+		diff |= expected.charCodeAt(i) ^ (parts.v1.charCodeAt(i) || 0);
+	}
+	return diff === 0;
+}
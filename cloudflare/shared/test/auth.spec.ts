@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { createLocalJWKSet, exportJWK, generateKeyPair, SignJWT, type JWK } from 'jose';
+import { assertDeviceBinding, AuthError, createJWKSCache, createRemoteTokenVerifier, extractBearerToken, verifyAccessToken } from '../src/auth';
+
+async function newKey(kid: string) {
+	const { privateKey, publicKey } = await generateKeyPair('RS256');
+	const jwk: JWK = { ...(await exportJWK(publicKey)), kid, alg: 'RS256' };
+	return { kid, privateKey, jwk };
+}
+
+type Key = Awaited<ReturnType<typeof newKey>>;
+
+function sign(key: Key, claims: Record<string, unknown>, expiresIn: string | number = '15m') {
+	return new SignJWT(claims).setProtectedHeader({ alg: 'RS256', kid: key.kid }).setIssuedAt().setExpirationTime(expiresIn).sign(key.privateKey);
+}
+
+// Stand-in for the auth worker service binding
+function fakeAuth(state: { keys: JWK[]; active?: boolean; jwksFetches?: number }): Fetcher {
+	return {
+		async fetch(input: RequestInfo | URL) {
+			const url = new URL(input instanceof Request ? input.url : input.toString());
+			if (url.pathname === '/.well-known/jwks.json') {
+				state.jwksFetches = (state.jwksFetches ?? 0) + 1;
+				return Response.json({ keys: state.keys });
+			}
+			if (url.pathname === '/auth/introspect') {
+				return Response.json({ active: state.active ?? true });
+			}
+			return new Response('Not Found', { status: 404 });
+		},
+	} as unknown as Fetcher;
+}
+
+async function expectAuthError(promise: Promise<unknown>, code: string) {
+	const err = await promise.then(
+		() => null,
+		(e) => e
+	);
+	expect(err).toBeInstanceOf(AuthError);
+	expect(err.code).toBe(code);
+}
+
+let keyA: Key;
+let keyB: Key;
+
+beforeAll(async () => {
+	keyA = await newKey('a');
+	keyB = await newKey('b');
+});
+
+describe('extractBearerToken', () => {
+	it('reads the Authorization header', () => {
+		const request = new Request('https://example.com/', { headers: { Authorization: 'Bearer abc' } });
+		expect(extractBearerToken(request)).toBe('abc');
+	});
+
+	it('only reads the token query param when allowed', () => {
+		const request = new Request('https://example.com/room/1?token=abc');
+		expect(() => extractBearerToken(request)).toThrow(AuthError);
+		expect(extractBearerToken(request, { allowQueryParam: true })).toBe('abc');
+	});
+
+	it('rejects non-Bearer schemes', () => {
+		const request = new Request('https://example.com/', { headers: { Authorization: 'Basic abc' } });
+		expect(() => extractBearerToken(request)).toThrow('Missing or invalid authorization header');
+	});
+});
+
+describe('verifyAccessToken', () => {
+	it('returns typed claims for a valid token', async () => {
+		const token = await sign(keyA, { id: 'user-1', email: 'u@example.com', name: 'User' });
+		const claims = await verifyAccessToken(token, createLocalJWKSet({ keys: [keyA.jwk] }));
+		expect(claims).toMatchObject({ id: 'user-1', email: 'u@example.com', name: 'User' });
+	});
+
+	it('rejects expired tokens', async () => {
+		const token = await sign(keyA, { id: 'user-1' }, Math.floor(Date.now() / 1000) - 60);
+		await expectAuthError(verifyAccessToken(token, createLocalJWKSet({ keys: [keyA.jwk] })), 'invalid_token');
+	});
+
+	it('rejects tokens without a user id', async () => {
+		const token = await sign(keyA, { email: 'u@example.com' });
+		await expectAuthError(verifyAccessToken(token, createLocalJWKSet({ keys: [keyA.jwk] })), 'invalid_token');
+	});
+
+	it('rejects tokens signed with an unknown key', async () => {
+		const token = await sign(keyB, { id: 'user-1' });
+		await expectAuthError(verifyAccessToken(token, createLocalJWKSet({ keys: [keyA.jwk] })), 'invalid_token');
+	});
+});
+
+describe('createJWKSCache', () => {
+	it('serves from cache and refetches for an unknown kid after the cooldown', async () => {
+		const state = { keys: [keyA.jwk], jwksFetches: 0 };
+		let now = 0;
+		const getJWKS = createJWKSCache(fakeAuth(state), () => now);
+
+		await getJWKS('a');
+		await getJWKS('a');
+		expect(state.jwksFetches).toBe(1);
+
+		// Key rotated in: an unknown kid right away doesn't hammer the auth worker...
+		state.keys = [keyA.jwk, keyB.jwk];
+		await getJWKS('b');
+		expect(state.jwksFetches).toBe(1);
+
+		// ...but does refetch once the cooldown has passed
+		now = 60 * 1000;
+		const jwks = await getJWKS('b');
+		expect(state.jwksFetches).toBe(2);
+		expect(jwks.keys.map((k) => k.kid)).toEqual(['a', 'b']);
+	});
+});
+
+describe('createRemoteTokenVerifier', () => {
+	it('accepts an active token', async () => {
+		const verify = createRemoteTokenVerifier(fakeAuth({ keys: [keyA.jwk] }));
+		const claims = await verify(await sign(keyA, { id: 'user-1' }));
+		expect(claims.id).toBe('user-1');
+	});
+
+	it('rejects a revoked token', async () => {
+		const verify = createRemoteTokenVerifier(fakeAuth({ keys: [keyA.jwk], active: false }));
+		await expectAuthError(verify(await sign(keyA, { id: 'user-1' })), 'token_revoked');
+	});
+
+	it('rejects garbage', async () => {
+		const verify = createRemoteTokenVerifier(fakeAuth({ keys: [keyA.jwk] }));
+		await expectAuthError(verify('not-a-jwt'), 'invalid_token');
+	});
+});
+
+describe('assertDeviceBinding', () => {
+	it('only restricts device-bound tokens', () => {
+		expect(() => assertDeviceBinding({ id: 'user-1' }, 'device-1')).not.toThrow();
+		expect(() => assertDeviceBinding({ id: 'user-1', device_id: 'device-1' }, 'device-1')).not.toThrow();
+		expect(() => assertDeviceBinding({ id: 'user-1', device_id: 'device-1' }, 'device-2')).toThrow(AuthError);
+		expect(() => assertDeviceBinding({ id: 'user-1', device_id: 'device-1' }, undefined)).toThrow('Token is bound to another device');
+	});
+});
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { assertGroupPermission, GroupPermissionError, groupRoleAllows } from '../src/roles';
+
+describe('group roles', () => {
+	it('lets viewers only watch', () => {
+		expect(groupRoleAllows('viewer', 'watch')).toBe(true);
+		expect(groupRoleAllows('viewer', 'publish')).toBe(false);
+		expect(groupRoleAllows('viewer', 'talk')).toBe(false);
+		expect(groupRoleAllows('viewer', 'schedule')).toBe(false);
+	});
+
+	it('keeps role changes to the owner', () => {
+		expect(groupRoleAllows('admin', 'invite')).toBe(true);
+		expect(groupRoleAllows('admin', 'manage_roles')).toBe(false);
+		expect(groupRoleAllows('owner', 'manage_roles')).toBe(true);
+	});
+
+	it('refuses non-members and roles without the permission', () => {
+		expect(assertGroupPermission('admin', 'rename')).toBe('admin');
+		expect(() => assertGroupPermission('viewer', 'publish')).toThrow(GroupPermissionError);
+		expect(() => assertGroupPermission(null, 'watch')).toThrow('Not a member of this group');
+	});
+});
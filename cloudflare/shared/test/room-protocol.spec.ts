@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { agoraUidForDevice } from '../src/agora';
+import { negotiateProtocolVersion, parseClientMessage, PROTOCOL_VERSION } from '../src/room-protocol';
+
+describe('parseClientMessage', () => {
+	it('accepts the original role message', () => {
+		expect(parseClientMessage('{"type":"role","role":"publisher"}')).toMatchObject({ ok: true, message: { type: 'role', role: 'publisher' } });
+	});
+
+	it('accepts hello and role requests with correlation ids', () => {
+		expect(parseClientMessage('{"type":"hello","protocol_version":1,"id":"h1"}')).toMatchObject({
+			ok: true,
+			message: { type: 'hello', protocol_version: 1, id: 'h1' },
+		});
+		expect(parseClientMessage('{"type":"role","role":"publisher","force":true,"id":"r1"}')).toMatchObject({
+			ok: true,
+			message: { type: 'role', force: true, id: 'r1' },
+		});
+	});
+
+	it('rejects malformed frames with structured codes', () => {
+		expect(parseClientMessage('not json')).toMatchObject({ ok: false, error: { type: 'error', code: 'malformed_frame' } });
+		expect(parseClientMessage('[1,2]')).toMatchObject({ ok: false, error: { code: 'malformed_frame' } });
+		expect(parseClientMessage(new ArrayBuffer(4))).toMatchObject({ ok: false, error: { code: 'malformed_frame' } });
+		expect(parseClientMessage('{"type":"dance","id":"x"}')).toMatchObject({ ok: false, error: { code: 'unknown_type', id: 'x' } });
+		expect(parseClientMessage('{"type":"role","role":"admin","id":"r2"}')).toMatchObject({ ok: false, error: { code: 'invalid_message', id: 'r2' } });
+		expect(parseClientMessage('{"type":"hello","protocol_version":"1"}')).toMatchObject({ ok: false, error: { code: 'invalid_message' } });
+		expect(parseClientMessage('{"type":"role","role":"publisher","id":42}')).toMatchObject({ ok: false, error: { code: 'invalid_message' } });
+	});
+});
+
+describe('negotiateProtocolVersion', () => {
+	it('speaks the older of the two versions', () => {
+		expect(negotiateProtocolVersion(0)).toBe(0);
+		expect(negotiateProtocolVersion(PROTOCOL_VERSION + 5)).toBe(PROTOCOL_VERSION);
+	});
+});
+
+describe('remote commands', () => {
+	it('validates each command', () => {
+		expect(parseClientMessage('{"type":"command","id":"c1","command":{"name":"torch","on":true}}')).toMatchObject({
+			ok: true,
+			message: { type: 'command', id: 'c1', command: { name: 'torch', on: true } },
+		});
+		expect(parseClientMessage('{"type":"command","id":"c2","command":{"name":"resolution","preset":"4k"}}')).toMatchObject({
+			ok: false,
+			error: { code: 'invalid_message', id: 'c2' },
+		});
+		expect(parseClientMessage('{"type":"command","id":"c3","command":{"name":"self_destruct"}}')).toMatchObject({
+			ok: false,
+			error: { code: 'invalid_message', id: 'c3' },
+		});
+		expect(parseClientMessage('{"type":"command","command":{"name":"torch","on":true}}')).toMatchObject({ ok: false, error: { code: 'invalid_message' } });
+	});
+
+	it('accepts snapshot requests without extra fields', () => {
+		expect(parseClientMessage('{"type":"command","id":"s1","command":{"name":"snapshot","quality":"max"}}')).toEqual({
+			ok: true,
+			message: { type: 'command', id: 's1', command: { name: 'snapshot' } },
+		});
+	});
+
+	it('validates command results', () => {
+		expect(parseClientMessage('{"type":"command_result","id":"r1","ok":false,"error":"no torch"}')).toMatchObject({
+			ok: true,
+			message: { type: 'command_result', id: 'r1', ok: false, error: 'no torch' },
+		});
+		expect(parseClientMessage('{"type":"command_result","id":"r2","ok":true,"result":[1]}')).toMatchObject({ ok: false, error: { code: 'invalid_message' } });
+	});
+});
+
+describe('push-to-talk', () => {
+	it('validates talk requests', () => {
+		expect(parseClientMessage('{"type":"talk","action":"request","id":"t1"}')).toMatchObject({ ok: true, message: { type: 'talk', action: 'request', id: 't1' } });
+		expect(parseClientMessage('{"type":"talk","action":"shout"}')).toMatchObject({ ok: false, error: { code: 'invalid_message' } });
+	});
+
+	it('derives stable non-zero Agora uids from device ids', () => {
+		expect(agoraUidForDevice('device-1')).toBe(agoraUidForDevice('device-1'));
+		expect(agoraUidForDevice('device-1')).not.toBe(agoraUidForDevice('device-2'));
+		expect(agoraUidForDevice('')).toBeGreaterThan(0);
+	});
+});
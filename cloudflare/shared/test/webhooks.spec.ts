@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { signWebhookPayload, verifyWebhookSignature, WEBHOOK_SIGNATURE_TOLERANCE_S } from '../src/webhooks';
+
+describe('webhook signatures', () => {
+	const body = '{"id":"e1","type":"ping","created_at":"2025-01-01T00:00:00.000Z","data":{}}';
+
+	it('verifies what it signs', async () => {
+		const header = await signWebhookPayload('whsec_test', body, 1_700_000_000);
+		expect(header).toMatch(/^t=1700000000,v1=[0-9a-f]{64}$/);
+		expect(await verifyWebhookSignature('whsec_test', body, header, 1_700_000_000)).toBe(true);
+	});
+
+	it('rejects another secret, a changed body or a stale timestamp', async () => {
+		const header = await signWebhookPayload('whsec_test', body, 1_700_000_000);
+		expect(await verifyWebhookSignature('whsec_other', body, header, 1_700_000_000)).toBe(false);
+		expect(await verifyWebhookSignature('whsec_test', body.replace('ping', 'pong'), header, 1_700_000_000)).toBe(false);
+		expect(await verifyWebhookSignature('whsec_test', body, header, 1_700_000_000 + WEBHOOK_SIGNATURE_TOLERANCE_S + 1)).toBe(false);
+		expect(await verifyWebhookSignature('whsec_test', body, 'garbage', 1_700_000_000)).toBe(false);
+	});
+});
@@ -0,0 +1,53 @@
+import { DurableObject } from "cloudflare:workers";
+import type { Env } from "./env";
+
+// How long a room lease lasts without renewal. StreamRoom renews the leases of connected users on every heartbeat
+// sweep, so a room that was evicted or crashed stops counting against its users within this time.
+export const ROOM_LEASE_TTL_MS = 90 * 1000;
+
+// Rooms an account is in right now, for the per-account concurrency quota. One object per user id; each
+// room holds a lease under `room:<StreamRoom id>` while the user has a socket in it.
+export class AccountRooms extends DurableObject<Env> {
+	// Rooms with a live lease; expired leases are dropped on the way
+	async activeRooms(now = Date.now()): Promise<string[]> {
+		const leases = await this.ctx.storage.list<number>({ prefix: 'room:' });
+		const expired = [...leases].filter(([, expires_at]) => expires_at <= now).map(([key]) => key);
+		if (expired.length > 0) {
+			await this.ctx.storage.delete(expired);
+		}
+		return [...leases].filter(([, expires_at]) => expires_at > now).map(([key]) => key.slice('room:'.length));
+	}
+
+	// The account may be in the room if it already is, or if it is in fewer than `max` rooms
+	async check(room_id: string, max: number): Promise<{ allowed: boolean; active_rooms: number }> {
+		const rooms = await this.activeRooms();
+		return { allowed: rooms.includes(room_id) || rooms.length < max, active_rooms: rooms.length };
+	}
+
+	// Take a lease on the room if the quota allows it
+	async acquire(room_id: string, max: number): Promise<{ allowed: boolean; active_rooms: number }> {
+		const result = await this.check(room_id, max);
+		if (result.allowed) {
+			await this.renew(room_id);
+		}
+		return result;
+	}
+
+	async renew(room_id: string) {
+		await this.ctx.storage.put(`room:${room_id}`, Date.now() + ROOM_LEASE_TTL_MS);
+	}
+
+	async release(room_id: string) {
+		await this.ctx.storage.delete(`room:${room_id}`);
+	}
+
+	// Called by the auth worker (RPC) on logout: close the user's sockets of that session (or of every session,
+	// with null) in every room they are in. Returns the number of sockets closed.
+	async disconnectUser(user_id: string, session_id: string | null): Promise<number> {
+		const rooms = await this.activeRooms();
+		const closed = await Promise.all(
+			rooms.map((room_id) => this.env.STREAM_ROOM.get(this.env.STREAM_ROOM.idFromString(room_id)).disconnectUser(user_id, session_id))
+		);
+		return closed.reduce((sum, count) => sum + count, 0);
+	}
+}
@@ -0,0 +1,22 @@
+import type { AccountRooms } from "./account-rooms";
+import type { StreamRoom } from "./index";
+import type { UsageMeter } from "./usage-meter";
+import type { WebhookEventType } from "@petube/shared";
+
+// The part of device-management's DeviceManager called here, bound across workers (see wrangler.jsonc)
+export interface DeviceManagerRpc extends Rpc.DurableObjectBranded {
+	emitGroupEvent(group_id: string, type: WebhookEventType, data: Record<string, unknown>): Promise<void>;
+}
+
+// Bindings and vars of the stream-control worker
+export interface Env {
+	STREAM_ROOM: DurableObjectNamespace<StreamRoom>;
+	ACCOUNT_ROOMS: DurableObjectNamespace<AccountRooms>;
+	USAGE_METER: DurableObjectNamespace<UsageMeter>;
+	DEVICE_MANAGEMENT: Fetcher;
+	DEVICE_MANAGER: DurableObjectNamespace<DeviceManagerRpc>;
+	AUTH: Fetcher;
+	MAX_VIEWERS_PER_ROOM?: string;
+	MAX_ROOMS_PER_ACCOUNT?: string;
+	MONTHLY_STREAM_MINUTES_CAP?: string; // Streamed minutes per account per calendar month (UTC); unset or 0 for no cap
+}
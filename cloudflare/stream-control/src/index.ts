@@ -1,5 +1,39 @@
 import { DurableObject } from "cloudflare:workers";
-import { jwtVerify } from "jose";
+import { AccountRooms } from "./account-rooms";
+import type { Env } from "./env";
+import { isOpen, nextTransition, parseSchedule, type StreamSchedule } from "./schedule";
+import { createHistoryTable, parseHistoryQuery, queryRoomHistory, recordRoomEvent, type RoomEventActor, type RoomEventType } from "./room-history";
+import { UsageMeter } from "./usage-meter";
+import {
+	agoraUidForDevice,
+	AuthError,
+	COMMAND_PERMISSIONS,
+	COMMANDS_PROTOCOL_VERSION,
+	createRemoteTokenVerifier,
+	errorResponse,
+	extractBearerToken,
+	groupRoleAllows,
+	HEARTBEAT_INTERVAL_MS,
+	HEARTBEAT_PING,
+	HEARTBEAT_PONG,
+	jsonResponse,
+	negotiateProtocolVersion,
+	parseClientMessage,
+	preflightResponse,
+	SNAPSHOT_PROTOCOL_VERSION,
+	TALK_PROTOCOL_VERSION,
+	type AccessTokenClaims,
+	type CameraCommand,
+	type CameraCommandName,
+	type CommandResultMessage,
+	type GroupRole,
+	type RoomErrorCode,
+	type Participant,
+	type RoomRole,
+	type RoomStateMessage,
+	type ServerMessage,
+	type WebhookEventType,
+} from "@petube/shared";
 
 /**
  * Welcome to Cloudflare Workers! This is your first Durable Objects application.
@@ -14,10 +48,88 @@ import { jwtVerify } from "jose";
  * Learn more at https://developers.cloudflare.com/durable-objects
  */
 
-// StreamRoom Durable Object manages a streaming session (room)
+export { AccountRooms, UsageMeter };
+
+// Application-level WebSocket close codes (4000-4999 are reserved for applications)
+const CloseCode = {
+	PublisherExists: 4000,
+	Superseded: 4001,
+	NotGroupMember: 4003,
+	RemovedFromGroup: 4004,
+	HeartbeatTimeout: 4008,
+	RoomFull: 4029,
+	TooManyRooms: 4030,
+	RoomClosed: 4031,
+	SessionRevoked: 4401,
+	MembershipCheckFailed: 4500,
+} as const;
+
+// Heartbeats: clients send HEARTBEAT_PING every HEARTBEAT_INTERVAL_MS and the runtime answers HEARTBEAT_PONG without
+// waking the object. An alarm sweeps every HEARTBEAT_SWEEP_MS and evicts sockets silent for HEARTBEAT_TIMEOUT_MS.
+const HEARTBEAT_TIMEOUT_MS = 60 * 1000;
+const HEARTBEAT_SWEEP_MS = 30 * 1000;
+
+// Remote commands the publisher hasn't answered within this time are reported to the viewer as timed out
+// (checked by the same alarm, so the effective timeout is up to one sweep longer)
+const COMMAND_TIMEOUT_MS = 15 * 1000;
+
+// A viewer holding the talk floor longer than this (e.g. a push-to-talk button stuck down) loses it at the next sweep
+const TALK_FLOOR_MAX_MS = 2 * 60 * 1000;
+
+// Viewer and per-account room limits, from the MAX_VIEWERS_PER_ROOM and MAX_ROOMS_PER_ACCOUNT vars
+function roomLimits(env: Env): { max_viewers: number; max_rooms: number } {
+	return {
+		max_viewers: Number(env.MAX_VIEWERS_PER_ROOM) || 10,
+		max_rooms: Number(env.MAX_ROOMS_PER_ACCOUNT) || 3,
+	};
+}
+
+// Per-socket state, kept in the WebSocket attachment so it survives hibernation
+interface SocketAttachment {
+	socket_id: string; // Also the socket's hibernation tag, to find it again with getWebSockets(tag)
+	role: RoomRole | null;
+	user_id: string;
+	user_name: string | null;
+	device_id: string | null;
+	session_id?: string | null; // The token's `sid`, to close the session's sockets when it is logged out
+	joined_at: number;
+	group_role: GroupRole; // The user's role in the room's group (see roles.ts in @petube/shared)
+	protocol_version: number; // 0 until the client says hello
+	talking_since?: number | null; // Set while this viewer holds the talk floor
+	// Usage metering (see usage-meter.ts)
+	group_id?: string;
+	stream_segment_id?: string | null; // Open streaming segment of the publisher
+	watch_segment_id?: string | null; // Open watching segment of a viewer
+	metered_subscribers?: number; // Viewer count last recorded for the streaming segment
+	usage_capped?: boolean; // The publisher's account is over its monthly streaming cap
+}
+
+// A command relayed to the publisher and waiting for its result, stored under `command:<relay id>`
+interface PendingCommand {
+	viewer_socket_id: string | null; // null: a snapshot requested over HTTP, answered through snapshotWaiters
+	viewer_request_id: string;
+	publisher_socket_id: string;
+	command: CameraCommandName;
+	expires_at: number;
+}
+
+// Subset of device-management's /group-membership response used here
+interface GroupMembership {
+	group: { group_id: string; created_by: string };
+	member_device_ids: string[];
+	role: GroupRole;
+}
+
+// StreamRoom Durable Object manages a streaming session (room).
+// Each room belongs to a pairing group: the room id is the DeviceManager group id.
 export class StreamRoom extends DurableObject<Env> {
 	// Use a Map to track the role of each hibernatable WebSocket.
 	// sessions: Map<WebSocket, 'publisher' | 'subscriber' | null> = new Map();
+	private verifyToken: (token: string) => Promise<AccessTokenClaims>;
+	// Streaming schedule of the room (see schedule.ts), kept in the room's SQLite storage
+	private schedule: StreamSchedule | null;
+	// Snapshot requests made over HTTP, waiting in memory for the publisher's command_result (by relay id)
+	private snapshotWaiters = new Map<string, (result: CommandResultMessage | null) => void>();
 
 	/**
 	 * The constructor is invoked once upon creation of the Durable Object, i.e. the first call to
@@ -28,140 +140,970 @@ export class StreamRoom extends DurableObject<Env> {
 	 */
 	constructor(ctx: DurableObjectState, env: Env) {
 		super(ctx, env);
+		this.verifyToken = createRemoteTokenVerifier(env.AUTH);
+		this.ctx.setWebSocketAutoResponse(new WebSocketRequestResponsePair(HEARTBEAT_PING, HEARTBEAT_PONG));
+		createHistoryTable(this.ctx.storage.sql);
+		this.ctx.storage.sql.exec(`CREATE TABLE IF NOT EXISTS room_settings (key TEXT PRIMARY KEY, value TEXT NOT NULL)`);
+		this.schedule = JSON.parse(this.getSetting('schedule') ?? 'null');
 		console.log(`[${ctx.id.toString()}] StreamRoom Durable Object created.`);
 	}
 
-	// Helper to verify JWT
-	async verifyJWT(request: Request, publicKey: string): Promise<any> {
+	// Helper to verify JWT (browsers can't set headers on WebSocket upgrades, so `?token=` is accepted too)
+	async verifyJWT(request: Request): Promise<{ claims: AccessTokenClaims; token: string }> {
+		try {
+			const token = extractBearerToken(request, { allowQueryParam: true });
+			const claims = await this.verifyToken(token);
+			console.log(`[${this.ctx.id.toString()}] JWT verification successful. User: ${claims.id}`);
+			return { claims, token };
+		} catch (err) {
+			console.error(`[${this.ctx.id.toString()}] JWT verification failed: ${(err as Error).message}`);
+			throw err;
+		}
+	}
+
+	// Ask device-management whether the caller owns a device in the room's pairing group.
+	// Returns the group and the caller's device ids in it, or null if the caller is not a member.
+	async checkGroupMembership(groupId: string, token: string, deviceId: string | null): Promise<GroupMembership | null> {
+		const params = new URLSearchParams({ group_id: groupId });
+		if (deviceId) {
+			params.set('device_id', deviceId);
+		}
+		const res = await this.env.DEVICE_MANAGEMENT.fetch(`https://device-management/group-membership?${params.toString()}`, {
+			headers: { Authorization: `Bearer ${token}` },
+		});
+		if (res.status === 403) {
+			return null;
+		}
+		if (!res.ok) {
+			throw new Error(`Membership check failed with status ${res.status}`);
+		}
+		return res.json<GroupMembership>();
+	}
+
+	// Rejection for a request whose token didn't verify
+	unauthorized(err: unknown): Response {
+		console.error(`[${this.ctx.id.toString()}] Unauthorized access attempt: ${(err as Error).message}`);
+		const { status, code } = err instanceof AuthError ? err : { status: 401, code: 'invalid_token' };
+		return errorResponse(status, "Unauthorized: " + (err as Error).message, code);
+	}
+
+	// The account's room quota; leases are keyed by this room's object id
+	accountRooms(userId: string): DurableObjectStub<AccountRooms> {
+		return this.env.ACCOUNT_ROOMS.get(this.env.ACCOUNT_ROOMS.idFromName(userId));
+	}
+
+	// Give up the caller's room lease once their last socket in this room is gone
+	async releaseAccountLease(userId: string, closing: WebSocket[]) {
+		const stillHere = this.ctx.getWebSockets().some((ws) => !closing.includes(ws) && this.getAttachment(ws)?.user_id === userId);
+		if (!stillHere) {
+			await this.accountRooms(userId).release(this.ctx.id.toString());
+		}
+	}
+
+	// Viewers in the room, not counting `userId`'s own sockets (e.g. a viewer reconnecting)
+	countViewers(exceptUserId?: string, exceptSocket?: WebSocket): number {
+		return this.ctx.getWebSockets().filter((ws) => {
+			const attachment = this.getAttachment(ws);
+			return ws !== exceptSocket && attachment?.role === 'subscriber' && attachment.user_id !== exceptUserId;
+		}).length;
+	}
+
+	// GET /room/<id>/admission?role=&device_id=: the auth worker asks this before issuing an Agora token, so limits
+	// are enforced where the Agora minutes are handed out too
+	async checkAdmission(request: Request): Promise<Response> {
+		// Group membership first, as for the WebSocket: non-members learn nothing about the room
+		const auth = await this.authorizeMember(request);
+		if (auth instanceof Response) return auth;
+		const { claims } = auth;
+		// Outside the schedule nobody gets an Agora token, the camera included
+		if (!isOpen(this.schedule, Date.now())) {
+			return this.roomClosed();
+		}
 		const url = new URL(request.url);
-		const authHeader = request.headers.get("Authorization");
-		let token;
+		const role = url.searchParams.get('role');
+		// Talk audio is only for the viewer device holding the floor (taken over the room's socket)
+		if (role === 'talk') {
+			const deviceId = url.searchParams.get('device_id') ?? claims.device_id;
+			const talker = this.findTalker()?.attachment;
+			if (!talker || talker.user_id !== claims.id || !deviceId || talker.device_id !== deviceId) {
+				return errorResponse(403, "You don't hold the talk floor", 'talk_floor_not_held');
+			}
+		}
+		const limits = roomLimits(this.env);
+		const viewers = this.countViewers(claims.id);
+		if (role === 'subscriber' && viewers >= limits.max_viewers) {
+			return errorResponse(429, `Room is full (${limits.max_viewers} viewers)`, 'room_full');
+		}
+		const quota = await this.accountRooms(claims.id).check(this.ctx.id.toString(), limits.max_rooms);
+		if (!quota.allowed) {
+			return errorResponse(429, `You are already in ${quota.active_rooms} rooms (limit ${limits.max_rooms})`, 'too_many_rooms');
+		}
+		return jsonResponse({ viewers, max_viewers: limits.max_viewers });
+	}
 
-		if (authHeader && authHeader.startsWith("Bearer ")) {
-			token = authHeader.slice(7);
-		} else {
-			token = url.searchParams.get('token');
+	// Add to the room's session history; history must never break the room
+	recordEvent(type: RoomEventType, actor: RoomEventActor | null, detail?: string) {
+		try {
+			recordRoomEvent(this.ctx.storage.sql, type, actor, detail);
+		} catch (err) {
+			console.error(`[${this.ctx.id.toString()}] Could not record '${type}' event: ${(err as Error).message}`);
 		}
+	}
 
-		if (!token) {
-			throw new Error("Missing or invalid token");
+	// A socket gave up its role: disconnected, superseded, evicted or switched roles
+	recordLeave(attachment: SocketAttachment, detail: string) {
+		if (attachment.role === 'publisher') {
+			this.recordEvent('publisher_disconnected', attachment, detail);
+			this.emitWebhook('stream.publisher_offline', attachment, { reason: detail });
+		} else if (attachment.role === 'subscriber') {
+			this.recordEvent('viewer_left', attachment, detail);
 		}
-		
+	}
+
+	// Verify the caller of one of the room's HTTP endpoints and check they (or their `device_id`) are in the room's group
+	async authorizeMember(request: Request): Promise<{ claims: AccessTokenClaims; membership: GroupMembership } | Response> {
+		let claims: AccessTokenClaims;
+		let token: string;
 		try {
-			const { importJWK } = await import('jose');
-			const publicKeyObj = await importJWK(JSON.parse(publicKey), 'RS256');
-			const { payload } = await jwtVerify(token, publicKeyObj);
-			console.log(`[${this.ctx.id.toString()}] JWT verification successful. Payload: ${JSON.stringify(payload)}`);
-			return payload;
+			({ claims, token } = await this.verifyJWT(request));
 		} catch (err) {
-			console.error(`[${this.ctx.id.toString()}] JWT verification failed: ${(err as Error).message}`);
-			throw err;
+			return this.unauthorized(err);
+		}
+		const url = new URL(request.url);
+		const groupId = url.pathname.split("/").filter(Boolean)[1];
+		try {
+			const membership = await this.checkGroupMembership(groupId, token, url.searchParams.get('device_id') ?? claims.device_id ?? null);
+			if (!membership) {
+				return errorResponse(403, "Not a member of this group", 'not_group_member');
+			}
+			return { claims, membership };
+		} catch (err) {
+			console.error(`[${this.ctx.id.toString()}] Membership check error: ${(err as Error).message}`);
+			return errorResponse(502, "Membership check failed", 'membership_check_failed');
 		}
 	}
 
+	// GET /room/<id>/history: the room's session history, for members of the group
+	async handleHistory(request: Request): Promise<Response> {
+		const auth = await this.authorizeMember(request);
+		if (auth instanceof Response) return auth;
+		const url = new URL(request.url);
+		let query;
+		try {
+			query = parseHistoryQuery(url.searchParams);
+		} catch (err) {
+			return errorResponse(400, (err as Error).message, 'invalid_query');
+		}
+		return jsonResponse(queryRoomHistory(this.ctx.storage.sql, query));
+	}
+
+	getSetting(key: string): string | null {
+		const [row] = this.ctx.storage.sql.exec<{ value: string }>(`SELECT value FROM room_settings WHERE key = ?`, key).toArray();
+		return row?.value ?? null;
+	}
+
+	setSetting(key: string, value: string | null) {
+		if (value === null) {
+			this.ctx.storage.sql.exec(`DELETE FROM room_settings WHERE key = ?`, key);
+		} else {
+			this.ctx.storage.sql.exec(`INSERT OR REPLACE INTO room_settings (key, value) VALUES (?, ?)`, key, value);
+		}
+	}
+
+	// Whether the room is inside its streaming schedule, and when that changes next
+	scheduleState(now = Date.now()): { open: boolean; next_change_at: string | null } | null {
+		if (!this.schedule) return null;
+		const next = nextTransition(this.schedule, now);
+		return { open: isOpen(this.schedule, now), next_change_at: next ? new Date(next).toISOString() : null };
+	}
+
+	// When a closed room opens next (ISO time), for refusals
+	opensAt(now = Date.now()): string | null {
+		const next = nextTransition(this.schedule, now);
+		return next ? new Date(next).toISOString() : null;
+	}
+
+	roomClosed(): Response {
+		const opens_at = this.opensAt();
+		return jsonResponse({ error: opens_at ? `Room is closed until ${opens_at}` : 'Room is closed', code: 'room_closed', opens_at }, { status: 403 });
+	}
+
+	// POST /room/<id>/snapshot: ask the camera for a still without joining as a viewer (which would start the stream).
+	// Answers once the camera has uploaded it to device-management, with what the camera reported.
+	async handleSnapshot(request: Request): Promise<Response> {
+		const auth = await this.authorizeMember(request);
+		if (auth instanceof Response) return auth;
+		if (!isOpen(this.schedule, Date.now())) {
+			return this.roomClosed();
+		}
+		const publisher = this.findPublisher();
+		if (!publisher) {
+			return errorResponse(409, "The camera is offline", 'no_publisher');
+		}
+		if (publisher.attachment.protocol_version < SNAPSHOT_PROTOCOL_VERSION) {
+			return errorResponse(409, "The camera app does not support snapshots", 'publisher_unsupported');
+		}
+
+		const relayId = crypto.randomUUID();
+		const pending: PendingCommand = {
+			viewer_socket_id: null,
+			viewer_request_id: relayId,
+			publisher_socket_id: publisher.attachment.socket_id,
+			command: 'snapshot',
+			expires_at: Date.now() + COMMAND_TIMEOUT_MS,
+		};
+		await this.ctx.storage.put(`command:${relayId}`, pending);
+		const result = new Promise<CommandResultMessage | null>((resolve) => {
+			this.snapshotWaiters.set(relayId, resolve);
+			setTimeout(() => resolve(null), COMMAND_TIMEOUT_MS);
+		});
+		const from: Participant = { user_id: auth.claims.id, name: auth.claims.name ?? null, device_id: auth.claims.device_id ?? null, joined_at: Date.now() };
+		console.log(`[${this.ctx.id.toString()}] Relaying 'snapshot' from user ${auth.claims.id} over HTTP as ${relayId}.`);
+		this.send(publisher.ws, { type: 'command', id: relayId, command: { name: 'snapshot' }, from });
+
+		const outcome = await result;
+		this.snapshotWaiters.delete(relayId);
+		if (!outcome) {
+			await this.ctx.storage.delete(`command:${relayId}`);
+			return errorResponse(504, "The camera did not answer in time", 'timeout');
+		}
+		if (!outcome.ok) {
+			return errorResponse(502, outcome.error ?? "The camera could not take a snapshot", 'snapshot_failed');
+		}
+		return jsonResponse(outcome.result ?? {});
+	}
+
+	// /room/<id>/schedule: GET for members of the group; PUT (JSON schedule) and DELETE for the group's owner
+	async handleSchedule(request: Request): Promise<Response> {
+		const auth = await this.authorizeMember(request);
+		if (auth instanceof Response) return auth;
+		if (request.method !== "GET") {
+			if (!groupRoleAllows(auth.membership.role, 'schedule')) {
+				return errorResponse(403, "Only the group's owner and admins can change the schedule", 'forbidden');
+			}
+			let schedule: StreamSchedule | null = null;
+			if (request.method === "PUT") {
+				try {
+					schedule = parseSchedule(await request.json());
+				} catch (err) {
+					return errorResponse(400, (err as Error).message, 'invalid_schedule');
+				}
+			} else if (request.method !== "DELETE") {
+				return errorResponse(405, "Method not allowed");
+			}
+			this.schedule = schedule;
+			this.setSetting('schedule', schedule && JSON.stringify(schedule));
+			console.log(`[${this.ctx.id.toString()}] Schedule ${schedule ? 'set' : 'removed'} by user ${auth.claims.id}.`);
+			await this.applySchedule();
+			await this.scheduleAlarm();
+		}
+		return jsonResponse({ schedule: this.schedule, state: this.scheduleState() });
+	}
+
+	// Open or close the room to match its schedule: on closing, viewers are sent away and the publisher is paused;
+	// on opening, the publisher resumes as soon as viewers are back. Broadcasts only when the state changed.
+	async applySchedule(now = Date.now()) {
+		const open = isOpen(this.schedule, now);
+		const wasOpen = this.getSetting('schedule_open') !== 'false';
+		if (open === wasOpen) return;
+		this.setSetting('schedule_open', String(open));
+		console.log(`[${this.ctx.id.toString()}] Room ${open ? 'opened' : 'closed'} by its schedule.`);
+		const closing: WebSocket[] = [];
+		if (!open) {
+			const opensAt = this.opensAt(now);
+			for (const ws of this.ctx.getWebSockets()) {
+				const attachment = this.getAttachment(ws);
+				if (attachment?.role !== 'subscriber') continue;
+				this.send(ws, { type: 'error', code: 'room_closed', message: 'The room is now closed', opens_at: opensAt });
+				this.recordLeave(attachment, 'room_closed');
+				ws.serializeAttachment({ ...attachment, role: null, talking_since: null });
+				try {
+					ws.close(CloseCode.RoomClosed, opensAt ? `Room opens at ${opensAt}` : 'Room is closed');
+				} catch {}
+				closing.push(ws);
+			}
+		}
+		this.broadcastState(closing);
+	}
+
+	// Called by DeviceManager (RPC) when a device leaves or is removed from the room's group: its sockets are closed
+	// right away rather than at their next membership check. Returns the number of sockets closed.
+	async disconnectDevice(device_id: string): Promise<number> {
+		return this.closeSockets(
+			(attachment) => attachment.device_id === device_id,
+			CloseCode.RemovedFromGroup,
+			'removed_from_group',
+			'This device was removed from the group'
+		);
+	}
+
+	// Called by AccountRooms (RPC) when the user logs out: the sockets of that session (session_id, the token's
+	// `sid`), or of every session with null, are closed. Tokens are only verified when a socket connects.
+	async disconnectUser(user_id: string, session_id: string | null): Promise<number> {
+		return this.closeSockets(
+			(attachment) => attachment.user_id === user_id && (session_id === null || attachment.session_id === session_id),
+			CloseCode.SessionRevoked,
+			'session_revoked',
+			'The session was logged out'
+		);
+	}
+
+	// Close the matching sockets (all of one user) with an error, then update the room and the user's lease
+	async closeSockets(match: (attachment: SocketAttachment) => boolean, code: number, errorCode: RoomErrorCode, message: string): Promise<number> {
+		const closing: WebSocket[] = [];
+		for (const ws of this.ctx.getWebSockets()) {
+			const attachment = this.getAttachment(ws);
+			// Sockets closed earlier stay listed until the client answers the close
+			if (!attachment || !match(attachment) || ws.readyState !== WebSocket.OPEN) continue;
+			this.send(ws, { type: 'error', code: errorCode, message });
+			this.recordLeave(attachment, errorCode);
+			ws.serializeAttachment({ ...attachment, role: null, talking_since: null });
+			try {
+				ws.close(code, message);
+			} catch {}
+			closing.push(ws);
+		}
+		if (closing.length === 0) return 0;
+		console.log(`[${this.ctx.id.toString()}] Closed ${closing.length} socket(s): ${errorCode}.`);
+		this.broadcastState(closing);
+		const user_id = this.getAttachment(closing[0])!.user_id;
+		await this.releaseAccountLease(user_id, closing);
+		return closing.length;
+	}
+
+	// Accept the socket without hibernation just long enough to report why it is rejected
+	rejectWebSocket(code: number, errorCode: RoomErrorCode, reason: string, actor: RoomEventActor): Response {
+		this.recordEvent('error', actor, `${errorCode}: ${reason}`);
+		const { 0: clientSocket, 1: serverSocket } = new WebSocketPair();
+		serverSocket.accept();
+		this.send(serverSocket, { type: 'error', code: errorCode, message: reason });
+		serverSocket.close(code, reason);
+		return new Response(null, { status: 101, webSocket: clientSocket });
+	}
+
 	// Handle WebSocket upgrade and room logic
 	async fetch(request: Request): Promise<Response> {
 		console.log(`[${this.ctx.id.toString()}] fetch() called for path: ${new URL(request.url).pathname}`);
+		if (request.method === "GET" && new URL(request.url).pathname.endsWith("/admission")) {
+			return this.checkAdmission(request);
+		}
+		if (request.method === "GET" && new URL(request.url).pathname.endsWith("/history")) {
+			return this.handleHistory(request);
+		}
+		if (new URL(request.url).pathname.endsWith("/schedule")) {
+			return this.handleSchedule(request);
+		}
+		if (request.method === "POST" && new URL(request.url).pathname.endsWith("/snapshot")) {
+			return this.handleSnapshot(request);
+		}
 		// Only handle WebSocket upgrade requests
 		if (request.headers.get("Upgrade") !== "websocket") {
 			console.log(`[${this.ctx.id.toString()}] Request is not a WebSocket upgrade request.`);
-			return new Response("Expected WebSocket", { status: 426 });
+			return errorResponse(426, "Expected WebSocket");
 		}
 		// Extract and verify JWT from Authorization header
-		let payload;
+		let claims: AccessTokenClaims;
+		let token: string;
 		try {
-			if (!this.env.JWT_PUBLIC_KEY) {
-				throw new Error("JWT_PUBLIC_KEY is not set.");
+			({ claims, token } = await this.verifyJWT(request));
+		} catch (err) {
+			return this.unauthorized(err);
+		}
+		// Only devices in the room's pairing group may join
+		const url = new URL(request.url);
+		const groupId = url.pathname.split("/").filter(Boolean)[1];
+		const deviceId = url.searchParams.get('device_id') ?? claims.device_id ?? null;
+		const actor: RoomEventActor = { user_id: claims.id, user_name: claims.name ?? null, device_id: deviceId };
+		let membership: GroupMembership | null;
+		try {
+			membership = await this.checkGroupMembership(groupId, token, deviceId);
+			if (!membership) {
+				console.warn(`[${this.ctx.id.toString()}] User ${claims.id} is not a member of group ${groupId}.`);
+				return this.rejectWebSocket(CloseCode.NotGroupMember, 'not_group_member', 'Not a member of this group', actor);
 			}
-			payload = await this.verifyJWT(request, this.env.JWT_PUBLIC_KEY);
 		} catch (err) {
-			console.error(`[${this.ctx.id.toString()}] Unauthorized access attempt: ${(err as Error).message}`);
-			return new Response("Unauthorized: " + (err as Error).message, { status: 401 });
+			console.error(`[${this.ctx.id.toString()}] Membership check error: ${(err as Error).message}`);
+			return this.rejectWebSocket(CloseCode.MembershipCheckFailed, 'membership_check_failed', 'Membership check failed', actor);
+		}
+		// Per-account concurrency: every room the user is in holds a lease until their last socket leaves
+		const { max_rooms } = roomLimits(this.env);
+		const quota = await this.accountRooms(claims.id).acquire(this.ctx.id.toString(), max_rooms);
+		if (!quota.allowed) {
+			console.warn(`[${this.ctx.id.toString()}] User ${claims.id} is already in ${quota.active_rooms} rooms.`);
+			return this.rejectWebSocket(CloseCode.TooManyRooms, 'too_many_rooms', `You are already in ${quota.active_rooms} rooms (limit ${max_rooms})`, actor);
 		}
 		const { 0: clientSocket, 1: serverSocket } = new WebSocketPair();
+		const socketId = crypto.randomUUID();
 		// Enable hibernation for this WebSocket connection
-		this.ctx.acceptWebSocket(serverSocket);
-		// Add to sessions map, but without a role yet
-		// this.sessions.set(serverSocket, null);
-		serverSocket.serializeAttachment({ role: null });
-		console.log(`[${this.ctx.id.toString()}] WebSocket accepted. Total sessions: ${this.ctx.getWebSockets().length}`);
+		this.ctx.acceptWebSocket(serverSocket, [socketId]);
+		// Remember who is behind the socket; the role is picked later with a 'role' message
+		const attachment: SocketAttachment = {
+			socket_id: socketId,
+			role: null,
+			user_id: claims.id,
+			user_name: claims.name ?? null,
+			device_id: deviceId,
+			session_id: claims.sid ?? null,
+			joined_at: Date.now(),
+			group_role: membership.role,
+			protocol_version: 0,
+			group_id: groupId,
+		};
+		serverSocket.serializeAttachment(attachment);
+		console.log(`[${this.ctx.id.toString()}] WebSocket accepted for user ${claims.id}. Total sessions: ${this.ctx.getWebSockets().length}`);
+		await this.scheduleAlarm();
+		this.broadcastState();
 
 		return new Response(null, { status: 101, webSocket: clientSocket });
 	}
 
-	// Handle WebSocket messages
-	async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer) {
+	// Send a protocol message; sockets that are already gone are only logged. Errors go into the history.
+	send(ws: WebSocket, message: ServerMessage) {
+		if (message.type === 'error') {
+			const attachment = this.getAttachment(ws);
+			if (attachment) this.recordEvent('error', attachment, `${message.code}: ${message.message}`);
+		}
 		try {
-			console.log(`[${this.ctx.id.toString()}] Received message: ${message}`);
-			if (typeof message !== 'string') {
-				throw new Error('Message must be a string');
-			}
+			ws.send(JSON.stringify(message));
+		} catch (error) {
+			console.error(`[${this.ctx.id.toString()}] Error sending '${message.type}': ${(error as Error).message}`);
+		}
+	}
+
+	// Handle WebSocket messages (see room-protocol.ts in @petube/shared for the schema)
+	async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer) {
+		console.log(`[${this.ctx.id.toString()}] Received message: ${message}`);
+		const parsed = parseClientMessage(message);
+		if (!parsed.ok) {
+			console.warn(`[${this.ctx.id.toString()}] Rejected frame: ${parsed.error.code}: ${parsed.error.message}`);
+			this.send(ws, parsed.error);
+			return;
+		}
 
-			const data = JSON.parse(message);
-			if (data.type === 'role' && (data.role === 'publisher' || data.role === 'subscriber')) {
-				console.log(`[${this.ctx.id.toString()}] Role message received: ${data.role}`);
-				this.handleRoleAssignment(ws, data.role);
-			} else {
-				throw new Error('Received unknown message type or role');
+		const data = parsed.message;
+		try {
+			switch (data.type) {
+				case 'hello':
+					this.handleHello(ws, data.protocol_version, data.id);
+					break;
+				case 'role':
+					console.log(`[${this.ctx.id.toString()}] Role message received: ${data.role}${data.force ? ' (force)' : ''}`);
+					if (data.role === 'publisher') {
+						await this.refreshUsageCap(ws);
+					}
+					this.handleRoleAssignment(ws, data.role, data.force === true, data.id);
+					break;
+				case 'command':
+					await this.handleCommand(ws, data.id, data.command);
+					break;
+				case 'command_result':
+					await this.handleCommandResult(ws, data);
+					break;
+				case 'talk':
+					this.handleTalk(ws, data.action, data.id);
+					break;
 			}
 		} catch (e) {
 			const errorMessage = (e as Error).message;
 			console.error(`[${this.ctx.id.toString()}] Error processing message: ${errorMessage}`);
-			ws.send(JSON.stringify({ type: 'error', message: errorMessage }));
+			this.send(ws, { type: 'error', code: 'internal_error', message: errorMessage, id: data.id });
+		}
+	}
+
+	// Handshake: agree on a protocol version and tell the client how often to send heartbeats
+	handleHello(ws: WebSocket, requested: number, id?: string) {
+		const attachment = this.getAttachment(ws);
+		if (!attachment) {
+			throw new Error('Socket has no identity, please reconnect');
 		}
+		const version = negotiateProtocolVersion(requested);
+		if (version === null) {
+			this.send(ws, { type: 'error', code: 'unsupported_version', message: `Protocol version ${requested} is no longer supported`, id });
+			return;
+		}
+		ws.serializeAttachment({ ...attachment, protocol_version: version });
+		this.send(ws, { type: 'welcome', protocol_version: version, heartbeat_interval_ms: HEARTBEAT_INTERVAL_MS, id });
 	}
 
 	// Handle WebSocket closure
-	webSocketClose(ws: WebSocket, code: number, reason: string, wasClean: boolean) {
-		const userData = (ws.deserializeAttachment() as { role: 'publisher' | 'subscriber' | null }) || {};
-		const role = userData.role;
+	async webSocketClose(ws: WebSocket, code: number, reason: string, wasClean: boolean) {
+		const attachment = this.getAttachment(ws);
+		const role = attachment?.role;
+		if (attachment) {
+			this.recordLeave(attachment, `closed (${code}${reason ? `: ${reason}` : ''})`);
+		}
 		console.log(
 			`[${this.ctx.id.toString()}] WebSocket with role '${
 				role ?? 'unassigned'
 			}' closed. Code: ${code}, Reason: ${reason}, WasClean: ${wasClean}. Total sessions: ${this.ctx.getWebSockets().length}`
 		);
-		this.broadcastState();
+		this.broadcastState([ws]);
+		if (attachment) {
+			await this.releaseAccountLease(attachment.user_id, [ws]);
+		}
 	}
 
 	// Handle WebSocket errors
 	webSocketError(ws: WebSocket, error: any) {
-		const userData = (ws.deserializeAttachment() as { role: 'publisher' | 'subscriber' | null }) || {};
-		const role = userData.role;
+		const role = this.getAttachment(ws)?.role;
 		console.error(`[${this.ctx.id.toString()}] WebSocket error for role '${role ?? 'unassigned'}':`, error);
 	}
 
-	handleRoleAssignment(socket: WebSocket, role: 'publisher' | 'subscriber') {
+	// Attachment of a socket, or null for sockets accepted before attachments carried the user
+	getAttachment(ws: WebSocket): SocketAttachment | null {
+		const attachment = ws.deserializeAttachment() as SocketAttachment | null;
+		return attachment?.user_id ? attachment : null;
+	}
+
+	participant(attachment: SocketAttachment): Participant {
+		return {
+			user_id: attachment.user_id,
+			name: attachment.user_name,
+			device_id: attachment.device_id,
+			joined_at: attachment.joined_at,
+		};
+	}
+
+	findPublisher(): { ws: WebSocket; attachment: SocketAttachment } | null {
+		for (const ws of this.ctx.getWebSockets()) {
+			const attachment = this.getAttachment(ws);
+			if (attachment?.role === 'publisher') {
+				return { ws, attachment };
+			}
+		}
+		return null;
+	}
+
+	// Relay a viewer's command to the publisher, after checking the viewer may send it
+	async handleCommand(ws: WebSocket, id: string, command: CameraCommand) {
+		const viewer = this.getAttachment(ws);
+		if (viewer?.role !== 'subscriber') {
+			this.send(ws, { type: 'error', code: 'forbidden', message: 'Only viewers can send commands', id });
+			return;
+		}
+		const publisher = this.findPublisher();
+		if (!publisher) {
+			this.send(ws, { type: 'error', code: 'no_publisher', message: 'The camera is offline', id });
+			return;
+		}
+		if (COMMAND_PERMISSIONS[command.name] === 'owner' && !groupRoleAllows(viewer.group_role, 'control_camera') && viewer.user_id !== publisher.attachment.user_id) {
+			this.send(ws, { type: 'error', code: 'forbidden', message: `Only the camera's owner can use ${command.name}`, id });
+			return;
+		}
+		if (publisher.attachment.protocol_version < COMMANDS_PROTOCOL_VERSION) {
+			this.send(ws, { type: 'error', code: 'publisher_unsupported', message: 'The camera app does not support remote commands', id });
+			return;
+		}
+		if (command.name === 'snapshot' && publisher.attachment.protocol_version < SNAPSHOT_PROTOCOL_VERSION) {
+			this.send(ws, { type: 'error', code: 'publisher_unsupported', message: 'The camera app does not support snapshots', id });
+			return;
+		}
+
+		const relayId = crypto.randomUUID();
+		const pending: PendingCommand = {
+			viewer_socket_id: viewer.socket_id,
+			viewer_request_id: id,
+			publisher_socket_id: publisher.attachment.socket_id,
+			command: command.name,
+			expires_at: Date.now() + COMMAND_TIMEOUT_MS,
+		};
+		await this.ctx.storage.put(`command:${relayId}`, pending);
+		console.log(`[${this.ctx.id.toString()}] Relaying '${command.name}' from user ${viewer.user_id} as ${relayId}.`);
+		this.send(publisher.ws, { type: 'command', id: relayId, command, from: this.participant(viewer) });
+		this.send(ws, { type: 'ack', id });
+	}
+
+	// Route the publisher's answer back to the viewer that sent the command
+	async handleCommandResult(ws: WebSocket, message: CommandResultMessage) {
+		const publisher = this.getAttachment(ws);
+		const key = `command:${message.id}`;
+		const pending = await this.ctx.storage.get<PendingCommand>(key);
+		if (!pending || publisher?.role !== 'publisher' || pending.publisher_socket_id !== publisher.socket_id) {
+			this.send(ws, { type: 'error', code: 'unknown_command', message: 'No such pending command', id: message.id });
+			return;
+		}
+		await this.ctx.storage.delete(key);
+		if (pending.viewer_socket_id === null) {
+			this.snapshotWaiters.get(message.id)?.(message);
+			return;
+		}
+		const [viewer] = this.ctx.getWebSockets(pending.viewer_socket_id);
+		if (viewer) {
+			this.send(viewer, {
+				type: 'command_result',
+				id: pending.viewer_request_id,
+				command: pending.command,
+				ok: message.ok,
+				error: message.error,
+				result: message.result,
+			});
+		}
+	}
+
+	// Report commands the publisher never answered as timed out
+	async expireCommands(now: number) {
+		const pending = await this.ctx.storage.list<PendingCommand>({ prefix: 'command:' });
+		const expired = [...pending].filter(([, command]) => command.expires_at <= now);
+		if (expired.length === 0) return;
+		await this.ctx.storage.delete(expired.map(([key]) => key));
+		for (const [, command] of expired) {
+			// HTTP snapshot requests time out on their own
+			if (command.viewer_socket_id === null) continue;
+			const [viewer] = this.ctx.getWebSockets(command.viewer_socket_id);
+			if (viewer) {
+				this.send(viewer, { type: 'command_result', id: command.viewer_request_id, command: command.command, ok: false, error: 'timeout' });
+			}
+		}
+	}
+
+	findTalker(): { ws: WebSocket; attachment: SocketAttachment } | null {
+		for (const ws of this.ctx.getWebSockets()) {
+			const attachment = this.getAttachment(ws);
+			if (attachment?.role === 'subscriber' && attachment.talking_since) {
+				return { ws, attachment };
+			}
+		}
+		return null;
+	}
+
+	// Push-to-talk: one viewer at a time holds the talk floor, and the publisher plays only that viewer's audio
+	handleTalk(ws: WebSocket, action: 'request' | 'release', id?: string) {
+		const viewer = this.getAttachment(ws);
+		if (viewer?.role !== 'subscriber') {
+			this.send(ws, { type: 'error', code: 'forbidden', message: 'Only viewers can talk', id });
+			return;
+		}
+		const talker = this.findTalker();
+		if (action === 'release') {
+			// Releasing a floor we don't hold (e.g. it timed out) is not an error
+			if (talker?.ws === ws) {
+				ws.serializeAttachment({ ...viewer, talking_since: null });
+				console.log(`[${this.ctx.id.toString()}] Talk floor released by user ${viewer.user_id}.`);
+				this.broadcastState();
+			}
+			if (id) this.send(ws, { type: 'ack', id });
+			return;
+		}
+
+		if (!groupRoleAllows(viewer.group_role, 'talk')) {
+			this.send(ws, { type: 'error', code: 'forbidden', message: 'Viewers of this group can only watch', id });
+			return;
+		}
+		if (talker && talker.ws !== ws) {
+			this.send(ws, { type: 'error', code: 'talk_floor_taken', message: `${talker.attachment.user_name ?? 'Someone'} is talking`, id });
+			return;
+		}
+		if (!viewer.device_id) {
+			// The publisher finds the viewer's audio by the Agora uid derived from the device id
+			this.send(ws, { type: 'error', code: 'forbidden', message: 'Talking requires a registered device', id });
+			return;
+		}
+		const publisher = this.findPublisher();
+		if (!publisher) {
+			this.send(ws, { type: 'error', code: 'no_publisher', message: 'The camera is offline', id });
+			return;
+		}
+		if (publisher.attachment.protocol_version < TALK_PROTOCOL_VERSION) {
+			this.send(ws, { type: 'error', code: 'publisher_unsupported', message: 'The camera app does not support talking', id });
+			return;
+		}
+		if (!talker) {
+			ws.serializeAttachment({ ...viewer, talking_since: Date.now() });
+			console.log(`[${this.ctx.id.toString()}] Talk floor taken by user ${viewer.user_id}.`);
+		}
+		if (id) this.send(ws, { type: 'ack', id });
+		if (!talker) this.broadcastState();
+	}
+
+	// A new publisher may replace the current one if it is the same device reconnecting (the old socket
+	// is probably half-dead), or if it forces the takeover and is the current publisher's user or a group owner or admin
+	canTakeOver(current: SocketAttachment, next: SocketAttachment, force: boolean): boolean {
+		if (next.device_id && next.device_id === current.device_id) {
+			return true;
+		}
+		return force && (next.user_id === current.user_id || groupRoleAllows(next.group_role, 'control_camera'));
+	}
+
+	handleRoleAssignment(socket: WebSocket, role: RoomRole, force = false, id?: string) {
 		console.log(`[${this.ctx.id.toString()}] Handling role assignment for role: ${role}`);
-		// Prevent multiple publishers
+		const attachment = this.getAttachment(socket);
+		if (!attachment) {
+			throw new Error('Socket has no identity, please reconnect');
+		}
+
+		// Viewers only watch
+		if (role === 'publisher' && !groupRoleAllows(attachment.group_role, 'publish')) {
+			this.send(socket, { type: 'error', code: 'forbidden', message: 'Viewers of this group cannot be the camera', id });
+			return;
+		}
+
+		// Outside the schedule nobody may watch or start publishing; a publisher connected when the room closed waits paused
+		if (attachment.role !== role && !isOpen(this.schedule, Date.now())) {
+			const opensAt = this.opensAt();
+			console.warn(`[${this.ctx.id.toString()}] Room is closed until ${opensAt ?? 'further notice'}. Closing new ${role}.`);
+			this.send(socket, { type: 'error', code: 'room_closed', message: 'The room is closed right now', id, opens_at: opensAt });
+			socket.close(CloseCode.RoomClosed, opensAt ? `Room opens at ${opensAt}` : 'Room is closed');
+			return;
+		}
+
+		// Only one publisher at a time: either take over from the current one or reject the new one
+		let superseded: WebSocket | null = null;
 		if (role === 'publisher') {
 			for (const ws of this.ctx.getWebSockets()) {
-				const userData = (ws.deserializeAttachment() as { role: 'publisher' | 'subscriber' | null }) || {};
-				if (userData.role === 'publisher' && ws !== socket) {
+				const current = this.getAttachment(ws);
+				if (current?.role !== 'publisher' || ws === socket) continue;
+				if (!this.canTakeOver(current, attachment, force)) {
 					console.warn(`[${this.ctx.id.toString()}] Publisher role conflict. Closing new connection.`);
-					socket.send(JSON.stringify({ type: 'error', message: 'Publisher already exists' }));
-					socket.close(4000, 'Publisher already exists');
+					this.send(socket, { type: 'error', code: 'publisher_exists', message: 'Publisher already exists', id });
+					socket.close(CloseCode.PublisherExists, 'Publisher already exists');
 					return;
 				}
+				superseded = ws;
+				this.recordLeave(current, 'superseded');
+				ws.serializeAttachment({ ...current, role: null });
 			}
 		}
-		const userData = (socket.deserializeAttachment() as object) || {};
-		socket.serializeAttachment({ ...userData, role: role });
+
+		// Viewers are capped per room; a socket that already is a viewer keeps its place
+		if (role === 'subscriber' && attachment.role !== 'subscriber') {
+			const { max_viewers } = roomLimits(this.env);
+			if (this.countViewers(undefined, socket) >= max_viewers) {
+				console.warn(`[${this.ctx.id.toString()}] Room is full (${max_viewers} viewers). Closing new viewer.`);
+				this.send(socket, { type: 'error', code: 'room_full', message: 'Room is full', id });
+				socket.close(CloseCode.RoomFull, 'Room is full');
+				return;
+			}
+		}
+
+		// Only viewers hold the talk floor
+		socket.serializeAttachment({ ...attachment, role, talking_since: role === 'subscriber' ? attachment.talking_since : null });
+		if (attachment.role !== role) {
+			this.recordLeave(attachment, 'role_change');
+			this.recordEvent(role === 'publisher' ? 'publisher_connected' : 'viewer_joined', attachment);
+			if (role === 'publisher') this.emitWebhook('stream.publisher_online', attachment);
+		}
 		console.log(`[${this.ctx.id.toString()}] Role '${role}' assigned. Total sessions: ${this.ctx.getWebSockets().length}`);
-		this.broadcastState();
+
+		if (superseded) {
+			console.log(`[${this.ctx.id.toString()}] Publisher taken over by device ${attachment.device_id ?? 'unknown'} (user ${attachment.user_id}).`);
+			this.send(superseded, { type: 'superseded', device_id: attachment.device_id, user_id: attachment.user_id });
+			try {
+				superseded.close(CloseCode.Superseded, 'Superseded by a new publisher');
+			} catch (error) {
+				// The old socket is often already dead, which is why it is being replaced
+				console.warn(`[${this.ctx.id.toString()}] Could not close superseded publisher: ${(error as Error).message}`);
+			}
+		}
+		if (id) {
+			this.send(socket, { type: 'ack', id });
+		}
+		// A single broadcast, so viewers see the publisher change hands without going offline in between
+		this.broadcastState(superseded ? [superseded] : []);
+	}
+
+	usageMeter(): DurableObjectStub<UsageMeter> {
+		return this.env.USAGE_METER.get(this.env.USAGE_METER.idFromName('global'));
 	}
 
-	broadcastState() {
-		const sockets = this.ctx.getWebSockets();
+	// Metering must never break the room: run it in the background and only log failures
+	meter(operation: string, promise: Promise<unknown>) {
+		this.ctx.waitUntil(
+			promise.catch((err) => console.error(`[${this.ctx.id.toString()}] Usage metering (${operation}) failed: ${(err as Error).message}`))
+		);
+	}
+
+	// Webhook event for the group's members, queued by DeviceManager; like metering, it never holds up the room
+	emitWebhook(type: WebhookEventType, attachment: SocketAttachment, data: Record<string, unknown> = {}) {
+		if (!attachment.group_id) return;
+		const manager = this.env.DEVICE_MANAGER.get(this.env.DEVICE_MANAGER.idFromName('global'));
+		const event = { device_id: attachment.device_id, user_id: attachment.user_id, user_name: attachment.user_name, ...data };
+		this.ctx.waitUntil(
+			manager.emitGroupEvent(attachment.group_id, type, event).catch((err) => console.error(`[${this.ctx.id.toString()}] Webhook '${type}' failed: ${(err as Error).message}`))
+		);
+	}
+
+	// Open and close streaming and watching segments to match the room. Runs with every broadcast, so
+	// segments follow exactly the 'start' and 'pause' sent to the publisher and the viewers' roles (as do the
+	// stream.started and stream.paused webhooks).
+	meterUsage(sockets: WebSocket[], closing: WebSocket[], streaming: boolean, subscribers: number) {
+		const meter = this.usageMeter();
+		const now = Date.now();
+		for (const ws of closing) {
+			const attachment = this.getAttachment(ws);
+			for (const segmentId of [attachment?.stream_segment_id, attachment?.watch_segment_id]) {
+				if (segmentId) this.meter('end', meter.endSegment(segmentId, now));
+			}
+			if (attachment?.stream_segment_id) this.emitWebhook('stream.paused', attachment);
+		}
+		for (const ws of sockets) {
+			const attachment = this.getAttachment(ws);
+			if (!attachment?.group_id) continue;
+			const next = { ...attachment };
+			const segment = { group_id: attachment.group_id, user_id: attachment.user_id, device_id: attachment.device_id, started_at: now };
+
+			const isStreaming = attachment.role === 'publisher' && streaming;
+			if (isStreaming && !attachment.stream_segment_id) {
+				next.stream_segment_id = crypto.randomUUID();
+				next.metered_subscribers = undefined;
+				this.meter('start', meter.startSegment({ ...segment, segment_id: next.stream_segment_id, role: 'publisher' }));
+				this.emitWebhook('stream.started', attachment, { viewers: subscribers });
+			} else if (!isStreaming && attachment.stream_segment_id) {
+				this.meter('end', meter.endSegment(attachment.stream_segment_id, now));
+				next.stream_segment_id = null;
+				this.emitWebhook('stream.paused', attachment);
+			}
+			if (next.stream_segment_id && next.metered_subscribers !== subscribers) {
+				next.metered_subscribers = subscribers;
+				this.meter('subscribers', meter.recordSubscribers(next.stream_segment_id, now, subscribers));
+			}
+
+			const isWatching = attachment.role === 'subscriber';
+			if (isWatching && !attachment.watch_segment_id) {
+				next.watch_segment_id = crypto.randomUUID();
+				this.meter('start', meter.startSegment({ ...segment, segment_id: next.watch_segment_id, role: 'subscriber' }));
+			} else if (!isWatching && attachment.watch_segment_id) {
+				this.meter('end', meter.endSegment(attachment.watch_segment_id, now));
+				next.watch_segment_id = null;
+			}
+
+			if (
+				next.stream_segment_id !== attachment.stream_segment_id ||
+				next.watch_segment_id !== attachment.watch_segment_id ||
+				next.metered_subscribers !== attachment.metered_subscribers
+			) {
+				ws.serializeAttachment(next);
+			}
+		}
+	}
+
+	// Check the monthly streaming cap of a (would-be) publisher's account; returns whether it changed
+	async refreshUsageCap(ws: WebSocket): Promise<boolean> {
+		const cap = Number(this.env.MONTHLY_STREAM_MINUTES_CAP) || 0;
+		const attachment = this.getAttachment(ws);
+		if (!attachment) return false;
+		let capped = false;
+		if (cap > 0) {
+			try {
+				capped = (await this.usageMeter().monthlyStreamMinutes(attachment.user_id)) >= cap;
+			} catch (err) {
+				// Keep the last known state rather than cutting off (or letting through) a camera on a metering hiccup
+				console.error(`[${this.ctx.id.toString()}] Usage cap check failed: ${(err as Error).message}`);
+				return false;
+			}
+		}
+		// Re-read: the socket may have changed while the check was in flight
+		const current = this.getAttachment(ws);
+		if (!current || !!current.usage_capped === capped) return false;
+		if (capped) {
+			console.warn(`[${this.ctx.id.toString()}] User ${attachment.user_id} is over the monthly streaming cap of ${cap} minutes.`);
+		}
+		ws.serializeAttachment({ ...current, usage_capped: capped });
+		return true;
+	}
+
+	// The one alarm serves both the heartbeat sweep and the schedule: it fires at the next sweep or the next
+	// opening or closing, whichever comes first, and alarm() does whatever is due
+	nextAlarmTime(now: number): number {
+		const transition = nextTransition(this.schedule, now);
+		return Math.min(now + HEARTBEAT_SWEEP_MS, transition ?? Infinity);
+	}
+
+	// Make sure the alarm is pending, and early enough, while sockets are connected
+	async scheduleAlarm() {
+		const current = await this.ctx.storage.getAlarm();
+		const next = this.nextAlarmTime(Date.now());
+		if (current === null || current > next) {
+			await this.ctx.storage.setAlarm(next);
+		}
+	}
+
+	// Last sign of life of a socket: its latest heartbeat, or when it joined
+	lastSeen(ws: WebSocket, attachment: SocketAttachment): number {
+		return Math.max(this.ctx.getWebSocketAutoResponseTimestamp(ws)?.getTime() ?? 0, attachment.joined_at);
+	}
+
+	// Heartbeat sweep: evict sockets that stopped sending pings, e.g. a camera that silently dropped off mobile data.
+	// Also opens and closes the room on its schedule.
+	async alarm() {
+		const now = Date.now();
+		await this.applySchedule(now);
+		const evicted: WebSocket[] = [];
+		let floorExpired = false;
+		for (const ws of this.ctx.getWebSockets()) {
+			const attachment = this.getAttachment(ws);
+			if (!attachment) continue;
+			if (attachment.talking_since && now - attachment.talking_since > TALK_FLOOR_MAX_MS) {
+				console.warn(`[${this.ctx.id.toString()}] Talk floor of user ${attachment.user_id} expired.`);
+				ws.serializeAttachment({ ...attachment, talking_since: null });
+				floorExpired = true;
+			}
+			if (now - this.lastSeen(ws, attachment) <= HEARTBEAT_TIMEOUT_MS) continue;
+			console.warn(`[${this.ctx.id.toString()}] Evicting ${attachment.role ?? 'unassigned'} socket of user ${attachment.user_id}: missed heartbeats.`);
+			// Drop the role first: a half-dead socket can stay listed by getWebSockets() until the close completes
+			this.recordLeave(attachment, 'heartbeat_timeout');
+			ws.serializeAttachment({ ...attachment, role: null, talking_since: null });
+			try {
+				ws.close(CloseCode.HeartbeatTimeout, 'Heartbeat timeout');
+			} catch {}
+			evicted.push(ws);
+		}
+		// Streaming counts against the monthly cap as it goes, and the cap lifts when a new month starts
+		const publisher = this.findPublisher();
+		const capChanged = publisher && !evicted.includes(publisher.ws) ? await this.refreshUsageCap(publisher.ws) : false;
+		if (evicted.length > 0 || floorExpired || capChanged) {
+			this.broadcastState(evicted);
+		}
+		const openSegments = this.ctx
+			.getWebSockets()
+			.filter((ws) => !evicted.includes(ws))
+			.flatMap((ws) => [this.getAttachment(ws)?.stream_segment_id, this.getAttachment(ws)?.watch_segment_id])
+			.filter((segmentId): segmentId is string => !!segmentId);
+		if (openSegments.length > 0) {
+			this.meter('checkpoint', this.usageMeter().checkpoint(openSegments, now));
+		}
+		// Keep the room leases of everyone still here alive, and give up those of users who are gone
+		const present = new Set<string>();
+		for (const ws of this.ctx.getWebSockets()) {
+			const attachment = this.getAttachment(ws);
+			if (attachment && !evicted.includes(ws)) present.add(attachment.user_id);
+		}
+		for (const userId of present) {
+			await this.accountRooms(userId).renew(this.ctx.id.toString());
+		}
+		for (const ws of evicted) {
+			const userId = this.getAttachment(ws)?.user_id;
+			if (userId && !present.has(userId)) {
+				await this.accountRooms(userId).release(this.ctx.id.toString());
+			}
+		}
+		await this.expireCommands(now);
+		if (this.ctx.getWebSockets().some((ws) => !evicted.includes(ws))) {
+			await this.ctx.storage.setAlarm(this.nextAlarmTime(Date.now()));
+		}
+	}
+
+	// Tell every participant who is in the room, and tell the publisher whether anyone is watching and whom to listen to.
+	// `closing` are sockets going away that may still be listed by getWebSockets().
+	broadcastState(closing: WebSocket[] = []) {
+		const sockets = this.ctx.getWebSockets().filter((ws) => !closing.includes(ws));
 		let publisher: WebSocket | null = null;
-		let subscriberCount = 0;
+		let publisherInfo: Participant | null = null;
+		const viewers: Participant[] = [];
+		let talker: Participant | null = null;
 		for (const ws of sockets) {
-			const userData = (ws.deserializeAttachment() as { role: 'publisher' | 'subscriber' | null }) || {};
-			if (userData.role === 'publisher') {
+			const attachment = this.getAttachment(ws);
+			if (!attachment) continue;
+			const participant = this.participant(attachment);
+			if (attachment.role === 'publisher') {
 				publisher = ws;
-			} else if (userData.role === 'subscriber') {
-				subscriberCount++;
+				publisherInfo = participant;
+			} else if (attachment.role === 'subscriber') {
+				viewers.push(participant);
+				if (attachment.talking_since) talker = participant;
 			}
 		}
+		viewers.sort((a, b) => a.joined_at - b.joined_at);
+		const subscriberCount = viewers.length;
 
 		console.log(
 			`[${this.ctx.id.toString()}] Broadcasting state. Publisher: ${!!publisher}, Subscribers: ${subscriberCount}, total sockets: ${
@@ -169,18 +1111,32 @@ export class StreamRoom extends DurableObject<Env> {
 			}`
 		);
 
-		try {
-			if (publisher) {
-				if (subscriberCount > 0) {
-					console.log(`[${this.ctx.id.toString()}] Sending 'start' to publisher.`);
-					publisher.send(JSON.stringify({ type: 'control', action: 'start' }));
-				} else {
-					console.log(`[${this.ctx.id.toString()}] Sending 'pause' to publisher.`);
-					publisher.send(JSON.stringify({ type: 'control', action: 'pause' }));
-				}
+		const capped = publisher ? !!this.getAttachment(publisher)?.usage_capped : false;
+		const schedule = this.scheduleState();
+		const closed = schedule ? !schedule.open : false;
+		const streaming = !!publisher && subscriberCount > 0 && !capped && !closed;
+		this.meterUsage(sockets, closing, streaming, subscriberCount);
+
+		if (publisher) {
+			const action = streaming ? 'start' : 'pause';
+			console.log(`[${this.ctx.id.toString()}] Sending '${action}' to publisher.`);
+			const reason = capped ? 'usage_cap' : closed ? 'schedule' : undefined;
+			this.send(publisher, { type: 'control', action, ...(reason && { reason }) });
+			if ((this.getAttachment(publisher)?.protocol_version ?? 0) >= TALK_PROTOCOL_VERSION) {
+				const agora_uid = talker?.device_id ? agoraUidForDevice(talker.device_id) : null;
+				this.send(publisher, { type: 'talk_floor', talker: talker && agora_uid ? { ...talker, agora_uid } : null });
 			}
-		} catch (error) {
-			console.error(`[${this.ctx.id.toString()}] Error sending message to publisher: ${(error as Error).message}`);
+		}
+
+		const roomState: RoomStateMessage = {
+			type: 'room_state',
+			publisher: publisherInfo ? { ...publisherInfo, online: true } : { online: false },
+			viewers,
+			talker,
+			schedule,
+		};
+		for (const ws of sockets) {
+			this.send(ws, roomState);
 		}
 	}
 }
@@ -197,11 +1153,18 @@ export default {
 	async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
 		const url = new URL(request.url);
 		console.log(`[Worker] Received request for: ${url.pathname}`);
-		// Expect path: /room/<roomId>
+		// Expect path: /room/<roomId>, where roomId is the pairing group id
+		if (request.method === "OPTIONS") {
+			return preflightResponse();
+		}
 		const parts = url.pathname.split("/").filter(Boolean);
+		// Streamed and watched minutes of the caller's account
+		if (url.pathname === "/usage") {
+			return env.USAGE_METER.get(env.USAGE_METER.idFromName("global")).fetch(request);
+		}
 		if (parts[0] !== "room" || !parts[1]) {
 			console.error(`[Worker] Invalid path: ${url.pathname}`);
-			return new Response("Missing or invalid roomId", { status: 400 });
+			return errorResponse(400, "Missing or invalid roomId");
 		}
 		const roomId = parts[1];
 		console.log(`[Worker] Using roomId: ${roomId}`);
@@ -213,9 +1176,3 @@ export default {
 		return stub.fetch(request);
 	},
 } satisfies ExportedHandler<Env>;
-
-// Update Env type to use JWT_PUBLIC_KEY
-interface Env {
-	STREAM_ROOM: DurableObjectNamespace;
-	JWT_PUBLIC_KEY: string;
-}
@@ -0,0 +1,144 @@
+/**
+ * Session history of a StreamRoom, kept in the room's own SQLite storage: publisher connects and disconnects,
+ * viewer joins and leaves, and errors sent to clients. Bounded to the latest HISTORY_MAX_EVENTS events.
+ * Served newest first by GET /room/<group id>/history to members of the group.
+ */
+
+export type RoomEventType = 'publisher_connected' | 'publisher_disconnected' | 'viewer_joined' | 'viewer_left' | 'error';
+
+const ROOM_EVENT_TYPES: RoomEventType[] = ['publisher_connected', 'publisher_disconnected', 'viewer_joined', 'viewer_left', 'error'];
+
+const HISTORY_MAX_EVENTS = 5000;
+const HISTORY_DEFAULT_PAGE = 50;
+const HISTORY_MAX_PAGE = 200;
+
+// Who an event is about
+export interface RoomEventActor {
+	user_id: string;
+	user_name: string | null;
+	device_id: string | null;
+}
+
+export interface RoomEvent {
+	id: number;
+	at: string; // ISO time
+	type: RoomEventType;
+	user_id: string | null;
+	name: string | null;
+	device_id: string | null;
+	detail: string | null;
+}
+
+export interface HistoryQuery {
+	from: number | null;
+	to: number | null;
+	types: RoomEventType[] | null;
+	limit: number;
+	cursor: number | null; // Continue with events older than this id
+}
+
+export function createHistoryTable(sql: SqlStorage) {
+	sql.exec(`
+		CREATE TABLE IF NOT EXISTS room_events (
+			id INTEGER PRIMARY KEY AUTOINCREMENT,
+			at INTEGER NOT NULL,
+			type TEXT NOT NULL,
+			user_id TEXT,
+			user_name TEXT,
+			device_id TEXT,
+			detail TEXT
+		);
+		CREATE INDEX IF NOT EXISTS room_events_at ON room_events (at);
+	`);
+}
+
+export function recordRoomEvent(sql: SqlStorage, type: RoomEventType, actor: RoomEventActor | null, detail?: string) {
+	sql.exec(
+		`INSERT INTO room_events (at, type, user_id, user_name, device_id, detail) VALUES (?, ?, ?, ?, ?, ?)`,
+		Date.now(),
+		type,
+		actor?.user_id ?? null,
+		actor?.user_name ?? null,
+		actor?.device_id ?? null,
+		detail ?? null
+	);
+	sql.exec(`DELETE FROM room_events WHERE id <= (SELECT MAX(id) FROM room_events) - ?`, HISTORY_MAX_EVENTS);
+}
+
+// Epoch milliseconds or an ISO date
+function parseTime(value: string | null, name: string): number | null {
+	if (value === null) return null;
+	const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+	if (Number.isNaN(time)) {
+		throw new Error(`${name} must be a timestamp in milliseconds or an ISO date`);
+	}
+	return time;
+}
+
+// Query params of the history endpoint: from, to, type (comma-separated), limit, cursor. Throws on bad values.
+export function parseHistoryQuery(params: URLSearchParams): HistoryQuery {
+	const types = params.get('type')?.split(',') ?? null;
+	const unknown = types?.find((type) => !ROOM_EVENT_TYPES.includes(type as RoomEventType));
+	if (unknown !== undefined) {
+		throw new Error(`Unknown event type: ${unknown}`);
+	}
+	const limit = params.has('limit') ? Number(params.get('limit')) : HISTORY_DEFAULT_PAGE;
+	if (!Number.isInteger(limit) || limit < 1) {
+		throw new Error('limit must be a positive integer');
+	}
+	const cursor = params.has('cursor') ? Number(params.get('cursor')) : null;
+	if (cursor !== null && !Number.isInteger(cursor)) {
+		throw new Error('Invalid cursor');
+	}
+	return {
+		from: parseTime(params.get('from'), 'from'),
+		to: parseTime(params.get('to'), 'to'),
+		types: types as RoomEventType[] | null,
+		limit: Math.min(limit, HISTORY_MAX_PAGE),
+		cursor,
+	};
+}
+
+// One page of events, newest first, and the cursor of the next (older) page
+export function queryRoomHistory(sql: SqlStorage, query: HistoryQuery): { events: RoomEvent[]; next_cursor: string | null } {
+	const conditions: string[] = [];
+	const bindings: (string | number)[] = [];
+	if (query.from !== null) {
+		conditions.push('at >= ?');
+		bindings.push(query.from);
+	}
+	if (query.to !== null) {
+		conditions.push('at < ?');
+		bindings.push(query.to);
+	}
+	if (query.types) {
+		conditions.push(`type IN (${query.types.map(() => '?').join(', ')})`);
+		bindings.push(...query.types);
+	}
+	if (query.cursor !== null) {
+		conditions.push('id < ?');
+		bindings.push(query.cursor);
+	}
+	const rows = sql
+		.exec<{ id: number; at: number; type: RoomEventType; user_id: string | null; user_name: string | null; device_id: string | null; detail: string | null }>(
+			`SELECT id, at, type, user_id, user_name, device_id, detail FROM room_events
+			${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+			ORDER BY id DESC LIMIT ?`,
+			...bindings,
+			query.limit + 1
+		)
+		.toArray();
+	const page = rows.slice(0, query.limit);
+	return {
+		events: page.map((row) => ({
+			id: row.id,
+			at: new Date(row.at).toISOString(),
+			type: row.type,
+			user_id: row.user_id,
+			name: row.user_name,
+			device_id: row.device_id,
+			detail: row.detail,
+		})),
+		next_cursor: rows.length > query.limit ? String(page[page.length - 1].id) : null,
+	};
+}
@@ -0,0 +1,133 @@
+/**
+ * Streaming schedules: the weekly windows in which a room is open, in the group's time zone, e.g.
+ * `{ "time_zone": "Europe/Kyiv", "windows": [{ "days": ["mon", "tue", "wed", "thu", "fri"], "start": "08:00", "end": "18:00" }] }`.
+ * A window whose end is not after its start runs overnight into the next day. A room without a schedule is always open.
+ */
+
+export type Weekday = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+export interface ScheduleWindow {
+	days: Weekday[];
+	start: string; // HH:MM, local time
+	end: string;
+}
+
+export interface StreamSchedule {
+	time_zone: string; // IANA name
+	windows: ScheduleWindow[];
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+function parseClock(value: unknown, name: string): string {
+	if (typeof value !== 'string' || !/^([01]\d|2[0-3]):[0-5]\d$/.test(value)) {
+		throw new Error(`${name} must be a time as HH:MM`);
+	}
+	return value;
+}
+
+function clockMinutes(clock: string): number {
+	return Number(clock.slice(0, 2)) * 60 + Number(clock.slice(3));
+}
+
+// Validate a schedule sent by a client. Throws with a message suitable for a 400 response.
+export function parseSchedule(value: unknown): StreamSchedule {
+	if (typeof value !== 'object' || value === null) throw new Error('Schedule must be an object');
+	const { time_zone, windows } = value as Record<string, unknown>;
+	if (typeof time_zone !== 'string') throw new Error('time_zone is required');
+	try {
+		new Intl.DateTimeFormat('en-US', { timeZone: time_zone });
+	} catch {
+		throw new Error(`Unknown time zone: ${time_zone}`);
+	}
+	if (!Array.isArray(windows) || windows.length === 0 || windows.length > 28) {
+		throw new Error('windows must be a list of 1 to 28 windows');
+	}
+	return {
+		time_zone,
+		windows: windows.map((window, i) => {
+			const { days, start, end } = (window ?? {}) as Record<string, unknown>;
+			if (!Array.isArray(days) || days.length === 0 || !days.every((day) => WEEKDAYS.includes(day))) {
+				throw new Error(`windows[${i}].days must be a list of ${WEEKDAYS.join(', ')}`);
+			}
+			return { days: [...new Set(days as Weekday[])], start: parseClock(start, `windows[${i}].start`), end: parseClock(end, `windows[${i}].end`) };
+		}),
+	};
+}
+
+// Wall-clock date and time of an instant in a time zone
+function localTime(time_zone: string, at: number): { year: number; month: number; day: number; weekday: number; minutes: number } {
+	const parts = Object.fromEntries(
+		new Intl.DateTimeFormat('en-US', {
+			timeZone: time_zone,
+			hourCycle: 'h23',
+			year: 'numeric',
+			month: 'numeric',
+			day: 'numeric',
+			weekday: 'short',
+			hour: 'numeric',
+			minute: 'numeric',
+		})
+			.formatToParts(at)
+			.map((part) => [part.type, part.value])
+	);
+	return {
+		year: Number(parts.year),
+		month: Number(parts.month),
+		day: Number(parts.day),
+		weekday: WEEKDAYS.indexOf(parts.weekday.toLowerCase().slice(0, 3) as Weekday),
+		minutes: Number(parts.hour) * 60 + Number(parts.minute),
+	};
+}
+
+// Instant at which the wall clock in `time_zone` shows the given date and minute of the day
+function zonedInstant(time_zone: string, year: number, month: number, day: number, minutes: number): number {
+	const wall = Date.UTC(year, month - 1, day) + minutes * MINUTE_MS;
+	// Guess with the offset at the wall time read as UTC, then correct once for a DST change in between
+	let instant = wall;
+	for (let i = 0; i < 2; i++) {
+		const local = localTime(time_zone, instant);
+		const shown = Date.UTC(local.year, local.month - 1, local.day) + local.minutes * MINUTE_MS;
+		instant += wall - shown;
+	}
+	return instant;
+}
+
+export function isOpen(schedule: StreamSchedule | null, at: number): boolean {
+	if (!schedule) return true;
+	const local = localTime(schedule.time_zone, at);
+	const today = WEEKDAYS[local.weekday];
+	const yesterday = WEEKDAYS[(local.weekday + 6) % 7];
+	return schedule.windows.some((window) => {
+		const start = clockMinutes(window.start);
+		const end = clockMinutes(window.end);
+		if (start < end) {
+			return window.days.includes(today) && local.minutes >= start && local.minutes < end;
+		}
+		// Overnight: from start today until end tomorrow
+		return (window.days.includes(today) && local.minutes >= start) || (window.days.includes(yesterday) && local.minutes < end);
+	});
+}
+
+// Next instant after `at` at which the room opens or closes, or null if it never changes (no schedule, or always open)
+export function nextTransition(schedule: StreamSchedule | null, at: number): number | null {
+	if (!schedule) return null;
+	const open = isOpen(schedule, at);
+	const local = localTime(schedule.time_zone, at);
+	// Openings and closings can only happen at a window's start or end; try those over the coming week
+	const candidates: number[] = [];
+	for (let offset = 0; offset <= 8; offset++) {
+		const date = new Date(Date.UTC(local.year, local.month - 1, local.day) + offset * DAY_MS);
+		for (const window of schedule.windows) {
+			for (const clock of [window.start, window.end]) {
+				const instant = zonedInstant(schedule.time_zone, date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), clockMinutes(clock));
+				if (instant > at) candidates.push(instant);
+			}
+		}
+	}
+	candidates.sort((a, b) => a - b);
+	return candidates.find((candidate) => isOpen(schedule, candidate) !== open) ?? null;
+}
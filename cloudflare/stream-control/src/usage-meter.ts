@@ -0,0 +1,189 @@
+import { DurableObject } from "cloudflare:workers";
+import { AuthError, createRemoteTokenVerifier, errorResponse, extractBearerToken, jsonResponse, preflightResponse, type AccessTokenClaims } from "@petube/shared";
+import type { Env } from "./env";
+
+/**
+ * Usage metering of Agora minutes. StreamRoom records a segment for every stretch of streaming (publisher
+ * sending video because someone watches) and of watching (a socket in the viewer role), plus the viewer count
+ * of each streaming segment over time. One global object keeps them all so totals can be summed per user,
+ * device and group across rooms.
+ *
+ * Segments left open by a room that crashed count up to their last checkpoint, written on every heartbeat sweep.
+ */
+
+export type UsageRole = 'publisher' | 'subscriber';
+
+export interface UsageSegment {
+	segment_id: string;
+	group_id: string;
+	role: UsageRole;
+	user_id: string;
+	device_id: string | null;
+	started_at: number;
+}
+
+export type UsagePeriod = 'day' | 'week' | 'month';
+
+interface UsageTotals {
+	streamed_minutes: number;
+	watched_minutes: number;
+}
+
+// Segments older than this are pruned; monthly totals only ever look one month back
+const USAGE_RETENTION_MS = 400 * 24 * 60 * 60 * 1000;
+
+// Start of the current day, ISO week (Monday) or calendar month, in UTC
+export function periodStart(period: UsagePeriod, now: number): number {
+	const date = new Date(now);
+	const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+	switch (period) {
+		case 'day':
+			return day;
+		case 'week':
+			return day - ((date.getUTCDay() + 6) % 7) * 24 * 60 * 60 * 1000;
+		case 'month':
+			return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+	}
+}
+
+export class UsageMeter extends DurableObject<Env> {
+	private verifyToken: (token: string) => Promise<AccessTokenClaims>;
+
+	constructor(ctx: DurableObjectState, env: Env) {
+		super(ctx, env);
+		this.verifyToken = createRemoteTokenVerifier(env.AUTH);
+		this.ctx.storage.sql.exec(`
+			CREATE TABLE IF NOT EXISTS usage_segments (
+				segment_id TEXT PRIMARY KEY,
+				group_id TEXT NOT NULL,
+				role TEXT NOT NULL,
+				user_id TEXT NOT NULL,
+				device_id TEXT,
+				started_at INTEGER NOT NULL,
+				ended_at INTEGER,
+				last_seen_at INTEGER NOT NULL
+			);
+			CREATE INDEX IF NOT EXISTS usage_segments_user ON usage_segments (user_id, started_at);
+			CREATE INDEX IF NOT EXISTS usage_segments_started ON usage_segments (started_at);
+			CREATE TABLE IF NOT EXISTS subscriber_samples (
+				segment_id TEXT NOT NULL,
+				at INTEGER NOT NULL,
+				subscribers INTEGER NOT NULL
+			);
+			CREATE INDEX IF NOT EXISTS subscriber_samples_segment ON subscriber_samples (segment_id, at);
+		`);
+	}
+
+	async startSegment(segment: UsageSegment) {
+		this.ctx.storage.sql.exec(
+			`INSERT OR IGNORE INTO usage_segments (segment_id, group_id, role, user_id, device_id, started_at, last_seen_at) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+			segment.segment_id,
+			segment.group_id,
+			segment.role,
+			segment.user_id,
+			segment.device_id,
+			segment.started_at,
+			segment.started_at
+		);
+		const cutoff = segment.started_at - USAGE_RETENTION_MS;
+		this.ctx.storage.sql.exec(`DELETE FROM subscriber_samples WHERE segment_id IN (SELECT segment_id FROM usage_segments WHERE started_at < ?)`, cutoff);
+		this.ctx.storage.sql.exec(`DELETE FROM usage_segments WHERE started_at < ?`, cutoff);
+	}
+
+	// Idempotent: a socket can be reported closing more than once
+	async endSegment(segment_id: string, ended_at: number) {
+		this.ctx.storage.sql.exec(`UPDATE usage_segments SET ended_at = ?, last_seen_at = ? WHERE segment_id = ? AND ended_at IS NULL`, ended_at, ended_at, segment_id);
+	}
+
+	// Viewer count of a streaming segment, recorded whenever it changes
+	async recordSubscribers(segment_id: string, at: number, subscribers: number) {
+		this.ctx.storage.sql.exec(`INSERT INTO subscriber_samples (segment_id, at, subscribers) VALUES (?, ?, ?)`, segment_id, at, subscribers);
+	}
+
+	// Open segments are still going at `at`
+	async checkpoint(segment_ids: string[], at: number) {
+		for (const segment_id of segment_ids) {
+			this.ctx.storage.sql.exec(`UPDATE usage_segments SET last_seen_at = ? WHERE segment_id = ? AND ended_at IS NULL`, at, segment_id);
+		}
+	}
+
+	// Minutes `user_id` streamed as a publisher since the start of the current month, for the monthly cap
+	async monthlyStreamMinutes(user_id: string, now = Date.now()): Promise<number> {
+		const [row] = this.totals(periodStart('month', now), now, 'user_id', user_id);
+		return row?.streamed_minutes ?? 0;
+	}
+
+	// Minutes per `key` (user, device or group) over [from, to), clipping segments to the range
+	private totals(from: number, to: number, key: 'user_id' | 'device_id' | 'group_id', user_id: string): (UsageTotals & { key: string })[] {
+		// Device and group totals cover the groups and devices the user has used in the period
+		const scope =
+			key === 'user_id'
+				? `user_id = ?`
+				: `${key} IN (SELECT ${key} FROM usage_segments WHERE user_id = ? AND started_at < ? AND last_seen_at > ? AND ${key} IS NOT NULL)`;
+		const scopeBindings = key === 'user_id' ? [user_id] : [user_id, to, from];
+		const rows = this.ctx.storage.sql
+			.exec<{ key: string; role: UsageRole; ms: number }>(
+				`SELECT ${key} AS key, role, SUM(MIN(last_seen_at, ?) - MAX(started_at, ?)) AS ms
+				FROM usage_segments
+				WHERE ${scope} AND started_at < ? AND last_seen_at > ?
+				GROUP BY ${key}, role`,
+				to,
+				from,
+				...scopeBindings,
+				to,
+				from
+			)
+			.toArray();
+		const byKey = new Map<string, UsageTotals & { key: string }>();
+		for (const row of rows) {
+			const totals = byKey.get(row.key) ?? { key: row.key, streamed_minutes: 0, watched_minutes: 0 };
+			const minutes = Math.round((row.ms / 60000) * 10) / 10;
+			if (row.role === 'publisher') {
+				totals.streamed_minutes += minutes;
+			} else {
+				totals.watched_minutes += minutes;
+			}
+			byKey.set(row.key, totals);
+		}
+		return [...byKey.values()];
+	}
+
+	// Totals of one period for the caller's account, their devices and their groups
+	private periodUsage(period: UsagePeriod, user_id: string, now: number) {
+		const from = periodStart(period, now);
+		const [user] = this.totals(from, now, 'user_id', user_id);
+		return {
+			from: new Date(from).toISOString(),
+			to: new Date(now).toISOString(),
+			user: { streamed_minutes: user?.streamed_minutes ?? 0, watched_minutes: user?.watched_minutes ?? 0 },
+			devices: this.totals(from, now, 'device_id', user_id).map(({ key, ...totals }) => ({ device_id: key, ...totals })),
+			groups: this.totals(from, now, 'group_id', user_id).map(({ key, ...totals }) => ({ group_id: key, ...totals })),
+		};
+	}
+
+	// GET /usage: daily, weekly and monthly totals for the caller, and where they stand against the monthly cap
+	async fetch(request: Request): Promise<Response> {
+		if (request.method === "OPTIONS") {
+			return preflightResponse();
+		}
+		if (request.method !== "GET") {
+			return errorResponse(405, "Method not allowed");
+		}
+		let claims: AccessTokenClaims;
+		try {
+			claims = await this.verifyToken(extractBearerToken(request));
+		} catch (err) {
+			const { status, code } = err instanceof AuthError ? err : { status: 401, code: 'invalid_token' };
+			return errorResponse(status, "Unauthorized: " + (err as Error).message, code);
+		}
+		const now = Date.now();
+		const cap = Number(this.env.MONTHLY_STREAM_MINUTES_CAP) || null;
+		return jsonResponse({
+			user_id: claims.id,
+			monthly_stream_minutes_cap: cap,
+			day: this.periodUsage('day', claims.id, now),
+			week: this.periodUsage('week', claims.id, now),
+			month: this.periodUsage('month', claims.id, now),
+		});
+	}
+}
@@ -0,0 +1,72 @@
+import { runDurableObjectAlarm, runInDurableObject } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { connect, room, roomId, userId } from './helpers';
+
+async function cameraAndViewer(viewerRole: 'viewer' | 'admin' = 'viewer', cameraVersion = 4) {
+	const group = roomId();
+	const camera = await connect(group, userId('owner'), { device_id: 'camera-1', protocol_version: cameraVersion });
+	camera.send({ type: 'role', role: 'publisher' });
+	await camera.next('control');
+	const viewer = await connect(group, userId(viewerRole), { device_id: 'phone-1', protocol_version: 4 });
+	viewer.send({ type: 'role', role: 'subscriber' });
+	await viewer.next('room_state', (state) => state.viewers.length === 1);
+	return { group, camera, viewer };
+}
+
+describe('StreamRoom remote commands', () => {
+	it('relays a command to the camera and its result back to the viewer', async () => {
+		const { camera, viewer } = await cameraAndViewer();
+		viewer.send({ type: 'command', id: 'c1', command: { name: 'torch', on: true } });
+		expect(await viewer.next('ack')).toEqual({ type: 'ack', id: 'c1' });
+
+		const relayed = await camera.next('command');
+		expect(relayed).toMatchObject({ command: { name: 'torch', on: true }, from: { device_id: 'phone-1' } });
+		expect(relayed.id).not.toBe('c1');
+		camera.send({ type: 'command_result', id: relayed.id, ok: true });
+		expect(await viewer.next('command_result')).toEqual({ type: 'command_result', id: 'c1', command: 'torch', ok: true });
+		camera.close();
+		viewer.close();
+	});
+
+	it("keeps owner-only commands to the group's owner and admins", async () => {
+		const { camera, viewer } = await cameraAndViewer('viewer');
+		viewer.send({ type: 'command', id: 'c1', command: { name: 'resolution', preset: '1080p' } });
+		expect(await viewer.next('error')).toMatchObject({ code: 'forbidden', id: 'c1' });
+		camera.close();
+		viewer.close();
+
+		const admin = await cameraAndViewer('admin');
+		admin.viewer.send({ type: 'command', id: 'c2', command: { name: 'resolution', preset: '1080p' } });
+		expect(await admin.viewer.next('ack')).toEqual({ type: 'ack', id: 'c2' });
+		expect(await admin.camera.next('command')).toMatchObject({ command: { name: 'resolution', preset: '1080p' } });
+		admin.camera.close();
+		admin.viewer.close();
+	});
+
+	it('refuses commands for a camera app that predates them', async () => {
+		const { camera, viewer } = await cameraAndViewer('viewer', 1);
+		viewer.send({ type: 'command', id: 'c1', command: { name: 'torch', on: true } });
+		expect(await viewer.next('error')).toMatchObject({ code: 'publisher_unsupported', id: 'c1' });
+		camera.close();
+		viewer.close();
+	});
+
+	it('reports commands the camera never answered as timed out', async () => {
+		const { group, camera, viewer } = await cameraAndViewer();
+		viewer.send({ type: 'command', id: 'c1', command: { name: 'play_sound', sound: 'whistle' } });
+		const relayed = await camera.next('command');
+
+		await runInDurableObject(room(group), async (_, state) => {
+			const pending = await state.storage.list<{ expires_at: number }>({ prefix: 'command:' });
+			for (const [key, command] of pending) await state.storage.put(key, { ...command, expires_at: Date.now() - 1 });
+		});
+		await runDurableObjectAlarm(room(group));
+		expect(await viewer.next('command_result')).toEqual({ type: 'command_result', id: 'c1', command: 'play_sound', ok: false, error: 'timeout' });
+
+		// A late answer finds nothing waiting
+		camera.send({ type: 'command_result', id: relayed.id, ok: true });
+		expect(await camera.next('error')).toMatchObject({ code: 'unknown_command', id: relayed.id });
+		camera.close();
+		viewer.close();
+	});
+});
@@ -0,0 +1,13 @@
+import type { DeviceManagerRpc, Env } from '../src/env';
+
+// DeviceManager stand-in (see vitest.config.mts), which keeps the webhook events the rooms emit
+interface DeviceManagerStandIn extends DeviceManagerRpc {
+	emittedEvents(group_id: string): Promise<{ group_id: string; type: string; data: Record<string, string | number | null> }[]>;
+}
+
+declare module 'cloudflare:test' {
+	interface ProvidedEnv extends Env {
+		DEVICE_MANAGER: DurableObjectNamespace<DeviceManagerStandIn>;
+		TEST_SIGNING_KEY: JsonWebKey; // Private key the test tokens are signed with (see vitest.config.mts)
+	}
+}
@@ -0,0 +1,39 @@
+import { runDurableObjectAlarm } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { HEARTBEAT_INTERVAL_MS, HEARTBEAT_PING, HEARTBEAT_PONG } from '@petube/shared';
+import { connect, room, roomId, updateSockets, userId } from './helpers';
+
+describe('StreamRoom heartbeats', () => {
+	it('tells clients how often to ping and answers pings', async () => {
+		const socket = await connect(roomId(), userId('owner'));
+		socket.send({ type: 'hello', protocol_version: 1 });
+		expect(await socket.next('welcome')).toEqual({ type: 'welcome', protocol_version: 1, heartbeat_interval_ms: HEARTBEAT_INTERVAL_MS });
+
+		const pong = new Promise((resolve) => socket.ws.addEventListener('message', (event) => event.data === HEARTBEAT_PONG && resolve(event.data)));
+		socket.ws.send(HEARTBEAT_PING);
+		expect(await pong).toBe(HEARTBEAT_PONG);
+		socket.close();
+	});
+
+	it('evicts sockets that stopped sending heartbeats at the next sweep', async () => {
+		const group = roomId();
+		const camera = await connect(group, userId('owner'), { device_id: 'camera-1' });
+		camera.send({ type: 'role', role: 'publisher' });
+		await camera.next('control');
+		const silent = await connect(group, userId('viewer'), { device_id: 'phone-1' });
+		silent.send({ type: 'role', role: 'subscriber' });
+		await camera.next('control', (control) => control.action === 'start');
+
+		// Both joined two minutes ago; only the camera pinged since
+		await updateSockets(group, (attachment) => ({ ...attachment, joined_at: (attachment.joined_at as number) - 2 * 60 * 1000 }));
+		const pong = new Promise((resolve) => camera.ws.addEventListener('message', (event) => event.data === HEARTBEAT_PONG && resolve(event.data)));
+		camera.ws.send(HEARTBEAT_PING);
+		await pong;
+
+		expect(await runDurableObjectAlarm(room(group))).toBe(true);
+		expect((await silent.closed).code).toBe(4008);
+		await camera.next('control', (control) => control.action === 'pause');
+		expect(await camera.next('room_state')).toMatchObject({ publisher: { online: true }, viewers: [] });
+		camera.close();
+	});
+});
@@ -0,0 +1,105 @@
+import { env, runInDurableObject, SELF } from 'cloudflare:test';
+import { importJWK, SignJWT, type JWK } from 'jose';
+import type { ServerMessage } from '@petube/shared';
+
+// A user id the group stand-in (vitest.config.mts) gives `role`, or no membership for 'stranger'. Fresh per call,
+// since rooms and account quotas keep their storage between tests.
+export function userId(role: 'owner' | 'admin' | 'viewer' | 'stranger'): string {
+	return `${role}-${crypto.randomUUID().slice(0, 8)}`;
+}
+
+export function roomId(): string {
+	return `group-${crypto.randomUUID()}`;
+}
+
+export async function accessToken(user_id: string, claims: Record<string, unknown> = {}): Promise<string> {
+	const key = await importJWK(env.TEST_SIGNING_KEY as JWK, 'RS256');
+	return new SignJWT({ id: user_id, name: `User ${user_id}`, ...claims })
+		.setProtectedHeader({ alg: 'RS256', kid: 'test' })
+		.setIssuedAt()
+		.setExpirationTime('15m')
+		.sign(key);
+}
+
+export function room(group_id: string) {
+	return env.STREAM_ROOM.get(env.STREAM_ROOM.idFromName(group_id));
+}
+
+// Change the attachments of the room's sockets, e.g. to make them look older than they are
+export async function updateSockets(group_id: string, update: (attachment: Record<string, unknown>) => Record<string, unknown>) {
+	await runInDurableObject(room(group_id), (_, state) => {
+		for (const ws of state.getWebSockets()) {
+			ws.serializeAttachment(update(ws.deserializeAttachment()));
+		}
+	});
+}
+
+// A client socket that keeps what the room sent it
+export class TestSocket {
+	private messages: ServerMessage[] = [];
+	private waiters: (() => void)[] = [];
+	readonly closed: Promise<{ code: number; reason: string }>;
+
+	constructor(readonly ws: WebSocket) {
+		ws.accept();
+		ws.addEventListener('message', (event) => {
+			this.messages.push(JSON.parse(event.data as string));
+			this.waiters.splice(0).forEach((wake) => wake());
+		});
+		this.closed = new Promise((resolve) =>
+			ws.addEventListener('close', (event) => {
+				// Complete the closing handshake, as browsers do
+				this.close();
+				resolve({ code: event.code, reason: event.reason });
+			})
+		);
+	}
+
+	send(message: Record<string, unknown>) {
+		this.ws.send(JSON.stringify(message));
+	}
+
+	// The next message of `type` matching `match`, skipping (and dropping) those before it
+	async next<T extends ServerMessage['type']>(type: T, match: (message: Extract<ServerMessage, { type: T }>) => boolean = () => true) {
+		const deadline = Date.now() + 2000;
+		for (;;) {
+			const index = this.messages.findIndex((message) => message.type === type && match(message as Extract<ServerMessage, { type: T }>));
+			if (index >= 0) {
+				return this.messages.splice(0, index + 1)[index] as Extract<ServerMessage, { type: T }>;
+			}
+			if (Date.now() > deadline) {
+				throw new Error(`No '${type}' message; got ${JSON.stringify(this.messages)}`);
+			}
+			await new Promise<void>((wake) => {
+				this.waiters.push(wake);
+				setTimeout(wake, 50);
+			});
+		}
+	}
+
+	close() {
+		try {
+			this.ws.close(1000, 'done');
+		} catch {}
+	}
+}
+
+// Join a room as `user_id` (optionally from a device), saying hello with `protocol_version` when given
+export async function connect(group_id: string, user_id: string, options: { device_id?: string; protocol_version?: number; claims?: Record<string, unknown> } = {}) {
+	const params = new URLSearchParams({ token: await accessToken(user_id, options.claims) });
+	if (options.device_id) params.set('device_id', options.device_id);
+	const res = await SELF.fetch(`https://stream-control/room/${group_id}?${params}`, { headers: { Upgrade: 'websocket' } });
+	if (!res.webSocket) {
+		throw new Error(`Upgrade failed with status ${res.status}: ${await res.text()}`);
+	}
+	const socket = new TestSocket(res.webSocket);
+	if (options.protocol_version !== undefined) {
+		socket.send({ type: 'hello', protocol_version: options.protocol_version });
+		await socket.next('welcome');
+	}
+	return socket;
+}
+
+export function request(group_id: string, path: string, token: string, init: RequestInit = {}) {
+	return SELF.fetch(`https://stream-control/room/${group_id}${path}`, { ...init, headers: { Authorization: `Bearer ${token}`, ...init.headers } });
+}
@@ -0,0 +1,75 @@
+import { runInDurableObject } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import type { RoomEvent } from '../src/room-history';
+import { accessToken, connect, request, room, roomId, userId } from './helpers';
+
+interface HistoryPage {
+	events: RoomEvent[];
+	next_cursor: string | null;
+}
+
+async function history(group_id: string, query = '', user_id = userId('viewer')): Promise<HistoryPage> {
+	const res = await request(group_id, `/history${query}`, await accessToken(user_id));
+	expect(res.status).toBe(200);
+	return res.json();
+}
+
+describe('StreamRoom history', () => {
+	it('records who streamed and watched, newest first', async () => {
+		const group = roomId();
+		const owner = userId('owner');
+		const camera = await connect(group, owner, { device_id: 'camera-1' });
+		camera.send({ type: 'role', role: 'publisher' });
+		await camera.next('control');
+		const viewer = await connect(group, userId('viewer'), { device_id: 'phone-1' });
+		viewer.send({ type: 'role', role: 'subscriber' });
+		await viewer.next('room_state', (state) => state.viewers.length === 1);
+		viewer.close();
+		await camera.next('room_state', (state) => state.viewers.length === 0);
+
+		const { events, next_cursor } = await history(group);
+		expect(events.map((event) => [event.type, event.device_id])).toEqual([
+			['viewer_left', 'phone-1'],
+			['viewer_joined', 'phone-1'],
+			['publisher_connected', 'camera-1'],
+		]);
+		expect(events[0].detail).toBe('closed (1000: done)');
+		expect(events[2]).toMatchObject({ user_id: owner, name: `User ${owner}` });
+		expect(next_cursor).toBeNull();
+		camera.close();
+	});
+
+	it('pages through events and filters them by type and time', async () => {
+		const group = roomId();
+		await runInDurableObject(room(group), (instance) => {
+			for (const device_id of ['phone-1', 'phone-2', 'phone-3']) {
+				instance.recordEvent('viewer_joined', { user_id: 'viewer-1', user_name: null, device_id });
+			}
+			instance.recordEvent('error', null, 'room_full: Room is full');
+		});
+
+		const first = await history(group, '?limit=3');
+		expect(first.events.map((event) => event.type)).toEqual(['error', 'viewer_joined', 'viewer_joined']);
+		expect(first.next_cursor).not.toBeNull();
+		const second = await history(group, `?limit=3&cursor=${first.next_cursor}`);
+		expect(second.events.map((event) => event.device_id)).toEqual(['phone-1']);
+		expect(second.next_cursor).toBeNull();
+
+		expect((await history(group, '?type=error')).events).toMatchObject([{ type: 'error', detail: 'room_full: Room is full' }]);
+		expect((await history(group, '?type=viewer_left,error&limit=1')).events).toHaveLength(1);
+		expect((await history(group, `?from=${Date.now() + 60_000}`)).events).toEqual([]);
+		expect((await history(group, `?to=${new Date(Date.now() + 60_000).toISOString()}`)).events).toHaveLength(4);
+	});
+
+	it('rejects bad queries and callers outside the group', async () => {
+		const group = roomId();
+		const token = await accessToken(userId('viewer'));
+		for (const query of ['?type=stream_started', '?limit=0', '?cursor=abc', '?from=yesterday']) {
+			const res = await request(group, `/history${query}`, token);
+			expect(res.status).toBe(400);
+			expect(await res.json()).toMatchObject({ code: 'invalid_query' });
+		}
+		const stranger = await request(group, '/history', await accessToken(userId('stranger')));
+		expect(stranger.status).toBe(403);
+	});
+});
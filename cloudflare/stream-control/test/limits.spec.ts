@@ -0,0 +1,68 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { ROOM_LEASE_TTL_MS } from '../src/account-rooms';
+import { accessToken, connect, request, room, roomId, userId } from './helpers';
+
+// MAX_VIEWERS_PER_ROOM and MAX_ROOMS_PER_ACCOUNT are 2 in tests (vitest.config.mts)
+describe('StreamRoom viewer limit', () => {
+	it('turns away viewers beyond the limit, before and after the Agora token', async () => {
+		const group = roomId();
+		const viewers = [];
+		for (const device_id of ['phone-1', 'phone-2']) {
+			const viewer = await connect(group, userId('viewer'), { device_id });
+			viewer.send({ type: 'role', role: 'subscriber' });
+			await viewer.next('room_state', (state) => state.viewers.some((participant) => participant.device_id === device_id));
+			viewers.push(viewer);
+		}
+
+		const late = userId('viewer');
+		const admission = await request(group, '/admission?role=subscriber', await accessToken(late));
+		expect(admission.status).toBe(429);
+		expect(await admission.json()).toMatchObject({ code: 'room_full' });
+		// Someone outside the group doesn't even learn the room is full
+		const stranger = await request(group, '/admission?role=subscriber', await accessToken(userId('stranger')));
+		expect(stranger.status).toBe(403);
+		expect(await stranger.json()).toEqual({ error: 'Not a member of this group', code: 'not_group_member' });
+		// The camera isn't a viewer and still gets in
+		const camera = await request(group, '/admission?role=publisher', await accessToken(userId('owner')));
+		expect(await camera.json()).toEqual({ viewers: 2, max_viewers: 2 });
+
+		const third = await connect(group, late, { device_id: 'phone-3' });
+		third.send({ type: 'role', role: 'subscriber', id: 'r1' });
+		expect(await third.next('error')).toMatchObject({ code: 'room_full', id: 'r1' });
+		expect((await third.closed).code).toBe(4029);
+		viewers.forEach((viewer) => viewer.close());
+	});
+});
+
+describe('Per-account room quota', () => {
+	it('keeps an account to its number of rooms until it leaves one', async () => {
+		const owner = userId('owner');
+		const [first, second, third] = [roomId(), roomId(), roomId()];
+		const sockets = [await connect(first, owner), await connect(second, owner)];
+
+		const refused = await connect(third, owner);
+		expect(await refused.next('error')).toMatchObject({ code: 'too_many_rooms' });
+		expect((await refused.closed).code).toBe(4030);
+		const admission = await request(third, '/admission?role=subscriber', await accessToken(owner));
+		expect(await admission.json()).toMatchObject({ code: 'too_many_rooms' });
+		// Another socket in a room the account is already in is fine
+		const again = await connect(first, owner);
+		await again.next('room_state');
+
+		sockets[1].close();
+		const rooms = env.ACCOUNT_ROOMS.get(env.ACCOUNT_ROOMS.idFromName(owner));
+		await expect.poll(() => rooms.activeRooms()).toEqual([room(first).id.toString()]);
+		const admitted = await connect(third, owner);
+		expect(await admitted.next('room_state')).toMatchObject({ type: 'room_state' });
+		for (const socket of [sockets[0], again, admitted]) socket.close();
+	});
+
+	it('forgets leases that were not renewed', async () => {
+		const rooms = env.ACCOUNT_ROOMS.get(env.ACCOUNT_ROOMS.idFromName(userId('owner')));
+		expect(await rooms.acquire('room-a', 1)).toEqual({ allowed: true, active_rooms: 0 });
+		expect(await rooms.acquire('room-b', 1)).toEqual({ allowed: false, active_rooms: 1 });
+		expect(await rooms.activeRooms(Date.now() + ROOM_LEASE_TTL_MS + 1)).toEqual([]);
+		expect(await rooms.acquire('room-b', 1)).toEqual({ allowed: true, active_rooms: 0 });
+	});
+});
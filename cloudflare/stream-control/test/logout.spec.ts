@@ -0,0 +1,24 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { connect, roomId, userId } from './helpers';
+
+describe('Closing the sockets of a logged out session', () => {
+	it("closes the session's sockets in every room, then all of the user's", async () => {
+		const owner = userId('owner');
+		const [first, second] = [roomId(), roomId()];
+		const loggedOut = [await connect(first, owner, { claims: { sid: 'session-1' } }), await connect(second, owner, { claims: { sid: 'session-1' } })];
+		const other = await connect(first, owner, { claims: { sid: 'session-2' } });
+		const rooms = env.ACCOUNT_ROOMS.get(env.ACCOUNT_ROOMS.idFromName(owner));
+
+		expect(await rooms.disconnectUser(owner, 'session-1')).toBe(2);
+		for (const socket of loggedOut) {
+			expect(await socket.next('error')).toMatchObject({ code: 'session_revoked' });
+			expect((await socket.closed).code).toBe(4401);
+		}
+
+		// Log out everywhere
+		expect(await rooms.disconnectUser(owner, null)).toBe(1);
+		expect((await other.closed).code).toBe(4401);
+		await expect.poll(() => rooms.activeRooms()).toEqual([]);
+	});
+});
@@ -0,0 +1,29 @@
+import { env, runInDurableObject } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { connect, room, roomId, userId } from './helpers';
+
+// Group membership comes from the device-management stand-in (vitest.config.mts)
+describe('StreamRoom membership', () => {
+	it("accepts a member's upgrade, as the device of its token", async () => {
+		const group = roomId();
+		const member = userId('viewer');
+		const socket = await connect(group, member, { claims: { device_id: 'phone-1' } });
+		socket.send({ type: 'role', role: 'subscriber' });
+		const state = await socket.next('room_state', (state) => state.viewers.length === 1);
+		expect(state.viewers).toEqual([{ user_id: member, name: `User ${member}`, device_id: 'phone-1', joined_at: expect.any(Number) }]);
+		socket.close();
+	});
+
+	it("rejects a non-member's upgrade without letting it into the room", async () => {
+		const group = roomId();
+		const stranger = userId('stranger');
+		const socket = await connect(group, stranger, { device_id: 'phone-1' });
+		expect(await socket.next('error')).toEqual({ type: 'error', code: 'not_group_member', message: 'Not a member of this group' });
+		expect((await socket.closed).code).toBe(4003);
+
+		expect(await runInDurableObject(room(group), (_, state) => state.getWebSockets().length)).toBe(0);
+		// Nor does it hold one of its account's rooms
+		const rooms = env.ACCOUNT_ROOMS.get(env.ACCOUNT_ROOMS.idFromName(stranger));
+		expect(await rooms.activeRooms()).toEqual([]);
+	});
+});
@@ -0,0 +1,38 @@
+import { SELF } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { connect, roomId, userId } from './helpers';
+
+describe('StreamRoom presence', () => {
+	it('lists the publisher and viewers with their metadata', async () => {
+		const group = roomId();
+		const owner = userId('owner');
+		const viewer = userId('viewer');
+		const camera = await connect(group, owner, { device_id: 'camera-1' });
+		camera.send({ type: 'role', role: 'publisher' });
+		const watcher = await connect(group, viewer, { device_id: 'phone-1' });
+		watcher.send({ type: 'role', role: 'subscriber' });
+
+		const state = await watcher.next('room_state', (state) => state.viewers.length === 1 && state.publisher.online);
+		expect(state.publisher).toMatchObject({ online: true, user_id: owner, name: `User ${owner}`, device_id: 'camera-1' });
+		expect(state.viewers).toEqual([{ user_id: viewer, name: `User ${viewer}`, device_id: 'phone-1', joined_at: expect.any(Number) }]);
+		await camera.next('control', (control) => control.action === 'start');
+
+		watcher.close();
+		// The publisher hears it should pause, then who is left
+		await camera.next('control', (control) => control.action === 'pause');
+		expect(await camera.next('room_state')).toMatchObject({ publisher: { online: true }, viewers: [] });
+		camera.close();
+	});
+
+	it('turns away accounts that are not in the group', async () => {
+		const socket = await connect(roomId(), userId('stranger'));
+		expect(await socket.next('error')).toMatchObject({ code: 'not_group_member' });
+		expect((await socket.closed).code).toBe(4003);
+	});
+
+	it('rejects upgrades without a valid token', async () => {
+		const res = await SELF.fetch(`https://stream-control/room/${roomId()}?token=not-a-token`, { headers: { Upgrade: 'websocket' } });
+		expect(res.status).toBe(401);
+		expect(await res.json()).toMatchObject({ code: 'invalid_token' });
+	});
+});
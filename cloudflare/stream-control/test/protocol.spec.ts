@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { PROTOCOL_VERSION } from '@petube/shared';
+import { connect, roomId, userId } from './helpers';
+
+describe('StreamRoom protocol', () => {
+	it('answers bad frames with an error and keeps the socket open', async () => {
+		const socket = await connect(roomId(), userId('owner'));
+		socket.ws.send('not json');
+		expect(await socket.next('error')).toMatchObject({ code: 'malformed_frame' });
+		socket.send({ type: 'dance', id: 'd1' });
+		expect(await socket.next('error')).toMatchObject({ code: 'unknown_type', id: 'd1' });
+		socket.send({ type: 'role', role: 'judge', id: 'r1' });
+		expect(await socket.next('error')).toMatchObject({ code: 'invalid_message', id: 'r1' });
+
+		socket.send({ type: 'role', role: 'subscriber', id: 'r2' });
+		expect(await socket.next('ack')).toEqual({ type: 'ack', id: 'r2' });
+		socket.close();
+	});
+
+	it('speaks the newest version it knows to newer clients', async () => {
+		const socket = await connect(roomId(), userId('owner'));
+		socket.send({ type: 'hello', protocol_version: PROTOCOL_VERSION + 5, id: 'h1' });
+		expect(await socket.next('welcome')).toMatchObject({ protocol_version: PROTOCOL_VERSION, id: 'h1' });
+		socket.close();
+	});
+
+	it('keeps clients that never say hello working', async () => {
+		const socket = await connect(roomId(), userId('owner'));
+		socket.send({ type: 'role', role: 'publisher' });
+		expect(await socket.next('control')).toEqual({ type: 'control', action: 'pause' });
+		socket.close();
+	});
+});
@@ -0,0 +1,97 @@
+import { runDurableObjectAlarm, runInDurableObject } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { isOpen, nextTransition, type StreamSchedule, type Weekday } from '../src/schedule';
+import { accessToken, connect, request, room, roomId, userId } from './helpers';
+
+const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const HOUR = 60 * 60 * 1000;
+
+// Three days from now (UTC) is the one day the open schedule leaves out, and the only day of the closed one
+const now = new Date();
+const offDayStart = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 3);
+const offDay = WEEKDAYS[new Date(offDayStart).getUTCDay()];
+const openSchedule: StreamSchedule = { time_zone: 'UTC', windows: [{ days: WEEKDAYS.filter((day) => day !== offDay), start: '00:00', end: '00:00' }] };
+const closedSchedule: StreamSchedule = { time_zone: 'UTC', windows: [{ days: [offDay], start: '00:00', end: '01:00' }] };
+
+function putSchedule(group_id: string, token: string, schedule: unknown) {
+	return request(group_id, '/schedule', token, { method: 'PUT', body: JSON.stringify(schedule) });
+}
+
+describe('Streaming schedules', () => {
+	it('opens overnight windows and finds the next change in the local time zone', () => {
+		const schedule: StreamSchedule = { time_zone: 'Europe/Kyiv', windows: [{ days: ['fri'], start: '22:00', end: '06:00' }] };
+		// Friday 2026-03-06 22:30 and Saturday 05:30 in Kyiv (UTC+2)
+		expect(isOpen(schedule, Date.parse('2026-03-06T20:30:00Z'))).toBe(true);
+		expect(isOpen(schedule, Date.parse('2026-03-07T03:30:00Z'))).toBe(true);
+		expect(isOpen(schedule, Date.parse('2026-03-07T04:30:00Z'))).toBe(false);
+		expect(nextTransition(schedule, Date.parse('2026-03-07T03:30:00Z'))).toBe(Date.parse('2026-03-07T04:00:00Z'));
+		// After the switch to summer time (UTC+3) on 2026-03-29
+		expect(nextTransition(schedule, Date.parse('2026-03-30T00:00:00Z'))).toBe(Date.parse('2026-04-03T19:00:00Z'));
+		expect(nextTransition(null, Date.now())).toBeNull();
+	});
+
+	it("lets the group's owner and admins change the schedule, and members read it", async () => {
+		const group = roomId();
+		const viewerToken = await accessToken(userId('viewer'));
+		const refused = await putSchedule(group, viewerToken, openSchedule);
+		expect(refused.status).toBe(403);
+		expect(await refused.json()).toMatchObject({ code: 'forbidden' });
+
+		const adminToken = await accessToken(userId('admin'));
+		const invalid = await putSchedule(group, adminToken, { time_zone: 'Mars/Olympus', windows: [] });
+		expect(invalid.status).toBe(400);
+		expect(await invalid.json()).toMatchObject({ code: 'invalid_schedule' });
+
+		const expected = { schedule: openSchedule, state: { open: true, next_change_at: new Date(offDayStart).toISOString() } };
+		expect(await (await putSchedule(group, adminToken, openSchedule)).json()).toEqual(expected);
+		expect(await (await request(group, '/schedule', viewerToken)).json()).toEqual(expected);
+		const removed = await request(group, '/schedule', await accessToken(userId('owner')), { method: 'DELETE' });
+		expect(await removed.json()).toEqual({ schedule: null, state: null });
+		expect((await request(group, '/schedule', await accessToken(userId('stranger')))).status).toBe(403);
+	});
+
+	it('keeps viewers and the camera out while the room is closed', async () => {
+		const group = roomId();
+		const ownerId = userId('owner');
+		await putSchedule(group, await accessToken(ownerId), closedSchedule);
+		const opens_at = new Date(offDayStart).toISOString();
+
+		for (const role of ['publisher', 'subscriber', 'talk']) {
+			const admission = await request(group, `/admission?role=${role}&device_id=phone-1`, await accessToken(ownerId));
+			expect(admission.status).toBe(403);
+			expect(await admission.json()).toMatchObject({ code: 'room_closed', opens_at });
+		}
+		const camera = await connect(group, ownerId, { device_id: 'camera-1' });
+		camera.send({ type: 'role', role: 'publisher', id: 'r1' });
+		expect(await camera.next('error')).toMatchObject({ code: 'room_closed', id: 'r1', opens_at });
+		expect((await camera.closed).code).toBe(4031);
+		const viewer = await connect(group, userId('viewer'), { device_id: 'phone-1' });
+		viewer.send({ type: 'role', role: 'subscriber', id: 'r2' });
+		expect(await viewer.next('error')).toMatchObject({ code: 'room_closed', id: 'r2', opens_at });
+		expect((await viewer.closed).code).toBe(4031);
+	});
+
+	it('sends viewers away when the room closes, and the alarm opens it again', async () => {
+		const group = roomId();
+		await putSchedule(group, await accessToken(userId('owner')), openSchedule);
+		const camera = await connect(group, userId('owner'), { device_id: 'camera-1' });
+		camera.send({ type: 'role', role: 'publisher' });
+		await camera.next('control');
+		const viewer = await connect(group, userId('viewer'), { device_id: 'phone-1' });
+		viewer.send({ type: 'role', role: 'subscriber' });
+		await camera.next('control', (message) => message.action === 'start');
+
+		// The alarm is due when the room closes, if that comes before the next heartbeat sweep
+		expect(await runInDurableObject(room(group), (instance) => instance.nextAlarmTime(offDayStart - 1000))).toBe(offDayStart);
+		await runInDurableObject(room(group), (instance) => instance.applySchedule(offDayStart + 12 * HOUR));
+		expect(await viewer.next('error')).toMatchObject({ code: 'room_closed' });
+		expect((await viewer.closed).code).toBe(4031);
+		// Nobody left to watch (the pause reason follows the real clock, at which the room is open)
+		expect(await camera.next('control')).toMatchObject({ action: 'pause' });
+
+		// Back to the real clock, at which the room is open
+		await runDurableObjectAlarm(room(group));
+		expect(await camera.next('room_state')).toMatchObject({ schedule: { open: true } });
+		camera.close();
+	});
+});
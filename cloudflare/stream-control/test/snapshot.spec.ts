@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { accessToken, connect, request, roomId, userId } from './helpers';
+
+async function camera(group: string, protocol_version = 4) {
+	const socket = await connect(group, userId('owner'), { device_id: 'camera-1', protocol_version });
+	socket.send({ type: 'role', role: 'publisher' });
+	await socket.next('control');
+	return socket;
+}
+
+describe('StreamRoom snapshots', () => {
+	it('asks the camera for a snapshot over HTTP and answers with its result', async () => {
+		const group = roomId();
+		const publisher = await camera(group);
+		const response = request(group, '/snapshot', await accessToken(userId('viewer')), { method: 'POST' });
+
+		const relayed = await publisher.next('command');
+		expect(relayed.command).toEqual({ name: 'snapshot' });
+		publisher.send({ type: 'command_result', id: relayed.id, ok: true, result: { snapshot_id: 'snapshot-1' } });
+		const res = await response;
+		expect(res.status).toBe(200);
+		expect(await res.json()).toEqual({ snapshot_id: 'snapshot-1' });
+
+		// A failed capture is reported as such
+		const failing = request(group, '/snapshot', await accessToken(userId('viewer')), { method: 'POST' });
+		const second = await publisher.next('command');
+		publisher.send({ type: 'command_result', id: second.id, ok: false, error: 'camera_busy' });
+		expect(await (await failing).json()).toMatchObject({ code: 'snapshot_failed', error: 'camera_busy' });
+		publisher.close();
+	});
+
+	it('needs a camera that is online and supports snapshots', async () => {
+		const group = roomId();
+		const token = await accessToken(userId('viewer'));
+		const offline = await request(group, '/snapshot', token, { method: 'POST' });
+		expect(offline.status).toBe(409);
+		expect(await offline.json()).toMatchObject({ code: 'no_publisher' });
+
+		const publisher = await camera(group, 3);
+		expect(await (await request(group, '/snapshot', token, { method: 'POST' })).json()).toMatchObject({ code: 'publisher_unsupported' });
+		expect((await request(group, '/snapshot', await accessToken(userId('stranger')), { method: 'POST' })).status).toBe(403);
+		publisher.close();
+	});
+});
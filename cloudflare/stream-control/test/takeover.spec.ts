@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { connect, roomId, userId } from './helpers';
+
+describe('StreamRoom publisher takeover', () => {
+	it('hands the camera to the same device reconnecting', async () => {
+		const group = roomId();
+		const owner = userId('owner');
+		const stale = await connect(group, owner, { device_id: 'camera-1' });
+		stale.send({ type: 'role', role: 'publisher' });
+		await stale.next('control');
+
+		const fresh = await connect(group, owner, { device_id: 'camera-1' });
+		fresh.send({ type: 'role', role: 'publisher', id: 'r1' });
+		expect(await fresh.next('ack')).toEqual({ type: 'ack', id: 'r1' });
+		expect(await stale.next('superseded')).toEqual({ type: 'superseded', device_id: 'camera-1', user_id: owner });
+		expect((await stale.closed).code).toBe(4001);
+		fresh.close();
+	});
+
+	it('rejects a second camera unless it forces the takeover', async () => {
+		const group = roomId();
+		const owner = userId('owner');
+		const first = await connect(group, owner, { device_id: 'camera-1' });
+		first.send({ type: 'role', role: 'publisher' });
+		await first.next('control');
+
+		const second = await connect(group, owner, { device_id: 'camera-2' });
+		second.send({ type: 'role', role: 'publisher', id: 'r1' });
+		expect(await second.next('error')).toMatchObject({ code: 'publisher_exists', id: 'r1' });
+		expect((await second.closed).code).toBe(4000);
+
+		const forced = await connect(group, owner, { device_id: 'camera-2' });
+		forced.send({ type: 'role', role: 'publisher', force: true });
+		await first.next('superseded');
+		const state = await forced.next('room_state', (state) => state.publisher.online && state.publisher.device_id === 'camera-2');
+		expect(state.publisher).toMatchObject({ user_id: owner });
+		forced.close();
+	});
+
+	it("lets a group admin force a takeover of another member's camera", async () => {
+		const group = roomId();
+		const camera = await connect(group, userId('owner'), { device_id: 'camera-1' });
+		camera.send({ type: 'role', role: 'publisher' });
+		await camera.next('control');
+
+		const admin = userId('admin');
+		const takeover = await connect(group, admin, { device_id: 'camera-2' });
+		takeover.send({ type: 'role', role: 'publisher', force: true });
+		expect(await camera.next('superseded')).toMatchObject({ user_id: admin });
+		takeover.close();
+	});
+});
@@ -0,0 +1,85 @@
+import { runDurableObjectAlarm } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { agoraUidForDevice } from '@petube/shared';
+import { accessToken, connect, request, room, roomId, updateSockets, userId } from './helpers';
+
+async function joinAsViewer(group: string, user_id: string, device_id: string) {
+	const viewer = await connect(group, user_id, { device_id, protocol_version: 4 });
+	viewer.send({ type: 'role', role: 'subscriber' });
+	await viewer.next('room_state', (state) => state.viewers.some((participant) => participant.device_id === device_id));
+	return viewer;
+}
+
+describe('StreamRoom push-to-talk', () => {
+	it('gives the floor to one viewer at a time and tells the camera whose audio to play', async () => {
+		const group = roomId();
+		const camera = await connect(group, userId('owner'), { device_id: 'camera-1', protocol_version: 4 });
+		camera.send({ type: 'role', role: 'publisher' });
+		await camera.next('control');
+		const first = await joinAsViewer(group, userId('admin'), 'phone-1');
+		const second = await joinAsViewer(group, userId('admin'), 'phone-2');
+
+		first.send({ type: 'talk', action: 'request', id: 't1' });
+		expect(await first.next('ack')).toEqual({ type: 'ack', id: 't1' });
+		const floor = await camera.next('talk_floor', (message) => message.talker !== null);
+		expect(floor.talker).toMatchObject({ device_id: 'phone-1', agora_uid: agoraUidForDevice('phone-1') });
+		expect(await second.next('room_state', (state) => state.talker !== null)).toMatchObject({ talker: { device_id: 'phone-1' } });
+
+		second.send({ type: 'talk', action: 'request', id: 't2' });
+		expect(await second.next('error')).toMatchObject({ code: 'talk_floor_taken', id: 't2' });
+
+		first.send({ type: 'talk', action: 'release', id: 't3' });
+		expect(await first.next('ack')).toEqual({ type: 'ack', id: 't3' });
+		expect(await camera.next('talk_floor')).toEqual({ type: 'talk_floor', talker: null });
+		for (const socket of [camera, first, second]) socket.close();
+	});
+
+	it('admits only the device holding the floor for a talk token', async () => {
+		const group = roomId();
+		const camera = await connect(group, userId('owner'), { device_id: 'camera-1', protocol_version: 4 });
+		camera.send({ type: 'role', role: 'publisher' });
+		await camera.next('control');
+		const talkerId = userId('admin');
+		const talker = await joinAsViewer(group, talkerId, 'phone-1');
+		const talkAdmission = async (user_id: string, device_id: string) =>
+			request(group, `/admission?role=talk&device_id=${device_id}`, await accessToken(user_id));
+
+		expect((await talkAdmission(talkerId, 'phone-1')).status).toBe(403);
+		talker.send({ type: 'talk', action: 'request', id: 't1' });
+		await talker.next('ack');
+
+		expect((await talkAdmission(talkerId, 'phone-1')).status).toBe(200);
+		const otherDevice = await talkAdmission(talkerId, 'phone-2');
+		expect(otherDevice.status).toBe(403);
+		expect(await otherDevice.json()).toMatchObject({ code: 'talk_floor_not_held' });
+		expect((await talkAdmission(userId('admin'), 'phone-1')).status).toBe(403);
+		camera.close();
+		talker.close();
+	});
+
+	it("doesn't let viewers of the group talk", async () => {
+		const group = roomId();
+		const camera = await connect(group, userId('owner'), { device_id: 'camera-1', protocol_version: 4 });
+		camera.send({ type: 'role', role: 'publisher' });
+		const viewer = await joinAsViewer(group, userId('viewer'), 'phone-1');
+		viewer.send({ type: 'talk', action: 'request', id: 't1' });
+		expect(await viewer.next('error')).toMatchObject({ code: 'forbidden', id: 't1' });
+		camera.close();
+		viewer.close();
+	});
+
+	it('takes back a floor held too long at the next sweep', async () => {
+		const group = roomId();
+		const camera = await connect(group, userId('owner'), { device_id: 'camera-1', protocol_version: 4 });
+		camera.send({ type: 'role', role: 'publisher' });
+		const viewer = await joinAsViewer(group, userId('owner'), 'phone-1');
+		viewer.send({ type: 'talk', action: 'request' });
+		await camera.next('talk_floor', (message) => message.talker !== null);
+
+		await updateSockets(group, (attachment) => (attachment.talking_since ? { ...attachment, talking_since: Date.now() - 10 * 60 * 1000 } : attachment));
+		await runDurableObjectAlarm(room(group));
+		expect(await camera.next('talk_floor')).toEqual({ type: 'talk_floor', talker: null });
+		camera.close();
+		viewer.close();
+	});
+});
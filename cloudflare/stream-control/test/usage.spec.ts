@@ -0,0 +1,96 @@
+import { env, runInDurableObject, SELF } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { accessToken, connect, roomId, userId } from './helpers';
+
+const MINUTE = 60 * 1000;
+
+function globalMeter() {
+	return env.USAGE_METER.get(env.USAGE_METER.idFromName('global'));
+}
+
+// Segments of `user_id` as the meter stored them, oldest first
+function segments(user_id: string) {
+	return runInDurableObject(globalMeter(), (_, state) =>
+		state.storage.sql
+			.exec<{ role: string; device_id: string | null; ended_at: number | null }>(
+				`SELECT role, device_id, ended_at FROM usage_segments WHERE user_id = ? ORDER BY started_at, role`,
+				user_id
+			)
+			.toArray()
+	);
+}
+
+describe('UsageMeter totals', () => {
+	it('counts open segments up to their last checkpoint and clips them to the month', async () => {
+		const meter = env.USAGE_METER.get(env.USAGE_METER.idFromName('totals'));
+		const monthStart = Date.UTC(2026, 2, 1);
+		const base = { group_id: 'group-1', user_id: 'user-1', device_id: 'camera-1' };
+		// Ten of its twenty minutes fall in March
+		await meter.startSegment({ ...base, segment_id: 'across', role: 'publisher', started_at: monthStart - 10 * MINUTE });
+		await meter.endSegment('across', monthStart + 10 * MINUTE);
+		// Still open, last seen five minutes in
+		await meter.startSegment({ ...base, segment_id: 'open', role: 'publisher', started_at: monthStart + 60 * MINUTE });
+		await meter.checkpoint(['open'], monthStart + 65 * MINUTE);
+		// Watching doesn't count against the streaming cap
+		await meter.startSegment({ ...base, segment_id: 'watch', role: 'subscriber', started_at: monthStart });
+		await meter.endSegment('watch', monthStart + 30 * MINUTE);
+
+		expect(await meter.monthlyStreamMinutes('user-1', monthStart + 24 * 60 * MINUTE)).toBe(15);
+		expect(await meter.monthlyStreamMinutes('user-2', monthStart + 24 * 60 * MINUTE)).toBe(0);
+	});
+
+	it('reports usage only to signed-in users', async () => {
+		const res = await SELF.fetch('https://stream-control/usage');
+		expect(res.status).toBe(401);
+
+		const user = userId('owner');
+		const authorized = await SELF.fetch('https://stream-control/usage', { headers: { Authorization: `Bearer ${await accessToken(user)}` } });
+		expect(await authorized.json()).toMatchObject({
+			user_id: user,
+			monthly_stream_minutes_cap: 60,
+			month: { user: { streamed_minutes: 0, watched_minutes: 0 }, devices: [], groups: [] },
+		});
+	});
+});
+
+describe('StreamRoom metering', () => {
+	it('opens a streaming segment while someone watches and closes it on pause', async () => {
+		const group = roomId();
+		const owner = userId('owner');
+		const viewerId = userId('viewer');
+		const camera = await connect(group, owner, { device_id: 'camera-1' });
+		camera.send({ type: 'role', role: 'publisher' });
+		await camera.next('control', (message) => message.action === 'pause');
+		const viewer = await connect(group, viewerId, { device_id: 'phone-1' });
+		viewer.send({ type: 'role', role: 'subscriber' });
+		await camera.next('control', (message) => message.action === 'start');
+		await expect.poll(() => segments(owner)).toEqual([{ role: 'publisher', device_id: 'camera-1', ended_at: null }]);
+		await expect.poll(() => segments(viewerId)).toEqual([{ role: 'subscriber', device_id: 'phone-1', ended_at: null }]);
+
+		viewer.close();
+		await camera.next('control', (message) => message.action === 'pause');
+		await expect.poll(async () => (await segments(owner))[0].ended_at).not.toBeNull();
+		await expect.poll(async () => (await segments(viewerId))[0].ended_at).not.toBeNull();
+		camera.close();
+	});
+
+	it('keeps a camera over its monthly cap paused', async () => {
+		const group = roomId();
+		const owner = userId('owner');
+		const now = Date.now();
+		// 61 minutes streamed this month, over the cap of 60 (vitest.config.mts)
+		const segment_id = crypto.randomUUID();
+		await globalMeter().startSegment({ segment_id, group_id: group, role: 'publisher', user_id: owner, device_id: 'camera-1', started_at: now - 61 * MINUTE });
+		await globalMeter().endSegment(segment_id, now);
+
+		const camera = await connect(group, owner, { device_id: 'camera-1' });
+		camera.send({ type: 'role', role: 'publisher' });
+		expect(await camera.next('control')).toEqual({ type: 'control', action: 'pause', reason: 'usage_cap' });
+		const viewer = await connect(group, userId('viewer'), { device_id: 'phone-1' });
+		viewer.send({ type: 'role', role: 'subscriber' });
+		await viewer.next('room_state', (state) => state.viewers.length === 1);
+		expect(await camera.next('control')).toEqual({ type: 'control', action: 'pause', reason: 'usage_cap' });
+		expect(await segments(owner)).toHaveLength(1);
+		for (const socket of [camera, viewer]) socket.close();
+	});
+});
@@ -0,0 +1,29 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { connect, roomId, userId } from './helpers';
+
+// Webhook events the rooms reported to DeviceManager for the group, in order
+function emitted(group_id: string) {
+	return env.DEVICE_MANAGER.get(env.DEVICE_MANAGER.idFromName('global')).emittedEvents(group_id);
+}
+
+describe('StreamRoom webhook events', () => {
+	it('reports the camera coming and going and the stream starting and pausing', async () => {
+		const group = roomId();
+		const owner = userId('owner');
+		const camera = await connect(group, owner, { device_id: 'camera-1' });
+		camera.send({ type: 'role', role: 'publisher' });
+		await camera.next('control', (message) => message.action === 'pause');
+		const viewer = await connect(group, userId('viewer'), { device_id: 'phone-1' });
+		viewer.send({ type: 'role', role: 'subscriber' });
+		await camera.next('control', (message) => message.action === 'start');
+		viewer.close();
+		await camera.next('control', (message) => message.action === 'pause');
+		camera.close();
+
+		await expect
+			.poll(async () => (await emitted(group)).map((event) => event.type))
+			.toEqual(['stream.publisher_online', 'stream.started', 'stream.paused', 'stream.publisher_offline']);
+		expect((await emitted(group))[1].data).toMatchObject({ device_id: 'camera-1', user_id: owner, viewers: 1 });
+	});
+});
@@ -0,0 +1,74 @@
+import { defineWorkersConfig } from '@cloudflare/vitest-pool-workers/config';
+import { exportJWK, generateKeyPair } from 'jose';
+
+// Test access tokens are signed with this key (see test/helpers.ts); the auth stand-in publishes its public half
+const { privateKey, publicKey } = await generateKeyPair('RS256', { extractable: true });
+const signingKey = { ...(await exportJWK(privateKey)), kid: 'test', alg: 'RS256' };
+const jwks = { keys: [{ ...(await exportJWK(publicKey)), kid: 'test', alg: 'RS256' }] };
+
+// Group role of the caller, by the prefix of their user id: owner-*, admin-* and viewer-* are members, anyone else isn't
+function groupMembership(request: Request): Response {
+	const url = new URL(request.url);
+	const token = request.headers.get('Authorization')!.slice('Bearer '.length);
+	const { id } = JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString()) as { id: string };
+	const role = id.split('-')[0];
+	if (!['owner', 'admin', 'viewer'].includes(role)) {
+		return new Response(JSON.stringify({ error: 'Not a member of this group' }), { status: 403 });
+	}
+	const device_id = url.searchParams.get('device_id');
+	return new Response(
+		JSON.stringify({ group: { group_id: url.searchParams.get('group_id'), created_by: 'owner' }, member_device_ids: device_id ? [device_id] : [], role })
+	);
+}
+
+export default defineWorkersConfig({
+	test: {
+		poolOptions: {
+			workers: {
+				// Hibernatable WebSockets outlive a test's isolated storage frame, so rooms share storage: every test
+				// uses its own room and user ids instead
+				isolatedStorage: false,
+				wrangler: { configPath: './wrangler.jsonc' },
+				miniflare: {
+					bindings: {
+						TEST_SIGNING_KEY: signingKey,
+						MAX_VIEWERS_PER_ROOM: '2',
+						MAX_ROOMS_PER_ACCOUNT: '2',
+						MONTHLY_STREAM_MINUTES_CAP: '60',
+					},
+					// Stand-ins for the auth and device-management workers, which aren't running during tests
+					serviceBindings: {
+						AUTH: (request: Request) => {
+							const { pathname } = new URL(request.url);
+							return new Response(JSON.stringify(pathname === '/auth/introspect' ? { active: true } : jwks));
+						},
+						DEVICE_MANAGEMENT: groupMembership,
+					},
+					// DeviceManager, bound from device-management: keeps the webhook events the rooms emit
+					workers: [
+						{
+							name: 'device-management',
+							modules: true,
+							compatibilityDate: '2025-06-18',
+							script: `
+								import { DurableObject } from 'cloudflare:workers';
+								export class DeviceManager extends DurableObject {
+									async emitGroupEvent(group_id, type, data) {
+										const seq = ((await this.ctx.storage.get('seq')) ?? 0) + 1;
+										await this.ctx.storage.put({ seq, ['event:' + String(seq).padStart(8, '0')]: { group_id, type, data } });
+									}
+									async emittedEvents(group_id) {
+										const events = await this.ctx.storage.list({ prefix: 'event:' });
+										return [...events.values()].filter((event) => event.group_id === group_id);
+									}
+								}
+								export default { fetch: () => new Response(null, { status: 404 }) };
+							`,
+							durableObjects: { DEVICE_MANAGER: 'DeviceManager' },
+						},
+					],
+				},
+			},
+		},
+	},
+});
@@ -9,6 +9,7 @@ import SwiftUI
 import AgoraRtcKit
 import UIKit
 import AuthenticationServices
+import AudioToolbox
 
 class WebAuthPresentationContextProvider: NSObject, ASWebAuthenticationPresentationContextProviding {
     func presentationAnchor(for session: ASWebAuthenticationSession) -> ASPresentationAnchor {
@@ -36,6 +37,11 @@ struct ContentView: View {
     @State private var agoraAppId: String = "2464efe13ff5419b9c635dfdcd70005e"
     @State private var channel: String = ""
     @State private var uid: String = ""
+    @State private var deviceId: String = ""
+    @State private var presenceText: String = ""
+    @State private var commandStatus: String = ""
+    @State private var usageCapNotified = false
+    @State private var reconnectDelay: Double = 3
     @StateObject private var agoraManager = AgoraManager()
     @State private var webSocketManager = WebSocketManager()
     @State private var showWebAuth = false
@@ -67,13 +73,26 @@ struct ContentView: View {
                         .cornerRadius(8)
                         .overlay(RoundedRectangle(cornerRadius: 8).stroke(Color.gray, lineWidth: 1))
                     }
+                    Button(action: { startAppleSignIn() }) {
+                        HStack {
+                            Image(systemName: "applelogo")
+                                .resizable().scaledToFit().frame(width: 20, height: 20)
+                            Text("Sign in with Apple")
+                        }
+                        .padding()
+                        .background(Color.black)
+                        .foregroundColor(.white)
+                        .cornerRadius(8)
+                    }
                 }.padding()
             } else if !started {
                 VStack(spacing: 20) {
                     if let user = user {
                         Text("Signed in as \(user["name"] as? String ?? "") (\(user["email"] as? String ?? ""))")
                             .font(.subheadline)
-                        Button("Log out") { signOut() }
+                        Button("Log out") { logout(path: "/auth/logout") }
+                            .foregroundColor(.red)
+                        Button("Log out everywhere") { logout(path: "/auth/logout-all") }
                             .foregroundColor(.red)
                     }
                     Picker("Role", selection: $role) {
@@ -102,6 +121,23 @@ struct ContentView: View {
                     .frame(height: 320)
                     Text(role == .monitor ? "Streaming to channel: \(channel)" : "Watching channel: \(channel)")
                         .foregroundColor(.gray)
+                    if !presenceText.isEmpty {
+                        Text(presenceText)
+                            .font(.subheadline)
+                    }
+                    if role == .owner {
+                        HStack {
+                            Button("Switch camera") { webSocketManager.sendCommand(["name": "switch_camera", "facing": "back"]) }
+                            Button("Torch") { webSocketManager.sendCommand(["name": "torch", "on": true]) }
+                            Button("Call pet 🔔") { webSocketManager.sendCommand(["name": "play_sound", "sound": "chime"]) }
+                        }
+                        .buttonStyle(.bordered)
+                        if !commandStatus.isEmpty {
+                            Text(commandStatus)
+                                .font(.footnote)
+                                .foregroundColor(.gray)
+                        }
+                    }
                     Button(role == .monitor ? "Stop Streaming" : "Leave") {
                         agoraManager.leaveChannel()
                         webSocketManager.disconnect()
@@ -128,6 +164,17 @@ struct ContentView: View {
         let authURL = URL(string: "https://auth.petube.workers.dev/devicelogin")!
         let callbackScheme = "com.googleusercontent.apps.378632047532-17q6rg6m36ga5c6ntg5an17mnhgpgsds" // Google iOS client scheme
         print("[Auth] Starting Google Sign-In with URL: \(authURL)")
+        startWebAuthSession(url: authURL, callbackScheme: callbackScheme)
+    }
+    
+    func startAppleSignIn() {
+        let authURL = URL(string: "https://auth.petube.workers.dev/devicelogin/apple")!
+        print("[Auth] Starting Sign in with Apple with URL: \(authURL)")
+        startWebAuthSession(url: authURL, callbackScheme: "petube")
+    }
+    
+    // Runs a login in the system browser and picks the tokens up from the petube://auth-callback redirect
+    func startWebAuthSession(url authURL: URL, callbackScheme: String) {
         webAuthSession = ASWebAuthenticationSession(url: authURL, callbackURLScheme: callbackScheme) { callbackURL, error in
             print("[Auth] WebAuthSession callbackURL: \(String(describing: callbackURL))")
             print("[Auth] WebAuthSession error: \(String(describing: error))")
@@ -135,6 +182,9 @@ struct ContentView: View {
                 print("[Auth] Received JWT token: \(token)")
                 jwt = token
                 UserDefaults.standard.set(token, forKey: "pawwatch-jwt")
+                if let refreshToken = components.queryItems?.first(where: { $0.name == "refresh_token" })?.value {
+                    UserDefaults.standard.set(refreshToken, forKey: "pawwatch-refresh-token")
+                }
                 fetchUserInfo()
             } else {
                 alertMsg = "Authentication failed."
@@ -147,75 +197,216 @@ struct ContentView: View {
     }
     
     func fetchUserInfo() {
-        guard let jwt = jwt else { return }
+        guard jwt != nil else { return }
         isLoading = true
-        var req = URLRequest(url: URL(string: "https://auth.petube.workers.dev/auth/me")!)
-        req.setValue("Bearer \(jwt)", forHTTPHeaderField: "Authorization")
-        print("[Auth] Fetching user info with JWT: \(jwt.prefix(10))...")
+        apiRequest(URL(string: "https://auth.petube.workers.dev/auth/me")!) { status, json in
+            isLoading = false
+            print("[Auth] User info response status: \(status)")
+            if status == 200, let obj = json as? [String: Any] {
+                user = obj
+                print("[Auth] User info: \(obj)")
+            } else if status == 401 {
+                print("[Auth] Session expired and could not be renewed. Signing out.")
+                signOut()
+            } else {
+                alertMsg = "Could not reach the server. Please try again."
+                showAlert = true
+            }
+        }
+    }
+
+    // Trade the stored refresh token for a new access token (the refresh token rotates too)
+    func refreshSession(completion: @escaping (Bool) -> Void) {
+        guard let refreshToken = UserDefaults.standard.string(forKey: "pawwatch-refresh-token") else {
+            completion(false)
+            return
+        }
+        var req = URLRequest(url: URL(string: "https://auth.petube.workers.dev/auth/refresh")!)
+        req.httpMethod = "POST"
+        req.setValue("application/json", forHTTPHeaderField: "Content-Type")
+        req.httpBody = try? JSONSerialization.data(withJSONObject: ["refresh_token": refreshToken])
         URLSession.shared.dataTask(with: req) { data, response, error in
             DispatchQueue.main.async {
-                isLoading = false
-                if let error = error {
-                    print("[Auth] Error fetching user info: \(error)")
-                }
-                if let response = response as? HTTPURLResponse {
-                    print("[Auth] User info response status: \(response.statusCode)")
+                guard let data = data,
+                      (response as? HTTPURLResponse)?.statusCode == 200,
+                      let obj = try? JSONSerialization.jsonObject(with: data) as? [String: Any],
+                      let token = obj["token"] as? String,
+                      let newRefreshToken = obj["refresh_token"] as? String else {
+                    print("[Auth] Session refresh failed: \(String(describing: error))")
+                    completion(false)
+                    return
                 }
-                if let data = data {
-                    print("[Auth] User info response data: \(String(data: data, encoding: .utf8) ?? "<nil>")")
+                print("[Auth] Session refreshed")
+                jwt = token
+                UserDefaults.standard.set(token, forKey: "pawwatch-jwt")
+                UserDefaults.standard.set(newRefreshToken, forKey: "pawwatch-refresh-token")
+                completion(true)
+            }
+        }.resume()
+    }
+    
+    // One authenticated request to our workers; completes on the main queue with the HTTP status (0 when there was
+    // no response) and the decoded JSON body. Access tokens last 15 minutes, so a 401 renews the session and
+    // retries once; a 401 that reaches the caller means the session is gone.
+    func apiRequest(_ url: URL, method: String = "GET", body: [String: Any]? = nil, allowRefresh: Bool = true, completion: @escaping (Int, Any?) -> Void) {
+        var req = URLRequest(url: url)
+        req.httpMethod = method
+        req.setValue("Bearer \(jwt ?? "")", forHTTPHeaderField: "Authorization")
+        if let body = body {
+            req.setValue("application/json", forHTTPHeaderField: "Content-Type")
+            req.httpBody = try? JSONSerialization.data(withJSONObject: body)
+        }
+        URLSession.shared.dataTask(with: req) { data, response, error in
+            if let error = error {
+                print("[API] \(method) \(url.path) failed: \(error)")
+            }
+            let status = (response as? HTTPURLResponse)?.statusCode ?? 0
+            let json = data.flatMap { try? JSONSerialization.jsonObject(with: $0) }
+            DispatchQueue.main.async {
+                guard status == 401, allowRefresh else {
+                    completion(status, json)
+                    return
                 }
-                if let data = data, let obj = try? JSONSerialization.jsonObject(with: data) as? [String: Any] {
-                    user = obj
-                    print("[Auth] User info: \(obj)")
-                } else {
-                    print("[Auth] Failed to parse user info or not authenticated. Signing out.")
-                    signOut()
+                print("[Auth] Access token rejected. Trying to refresh the session.")
+                refreshSession { success in
+                    if success {
+                        apiRequest(url, method: method, body: body, allowRefresh: false, completion: completion)
+                    } else {
+                        completion(status, json)
+                    }
                 }
             }
         }.resume()
     }
-    
+
+    // This phone's device in device-management, registered on first use. Agora tokens and the room are scoped
+    // to the pairing group it is in. Completes with the device, or nil and the failed request's status.
+    func loadMyDevice(completion: @escaping ([String: Any]?, Int) -> Void) {
+        apiRequest(URL(string: "https://device-management.petube.workers.dev/devices/my")!) { status, json in
+            guard status == 200, let devices = json as? [[String: Any]] else {
+                completion(nil, status)
+                return
+            }
+            let savedId = UserDefaults.standard.string(forKey: "pawwatch-device-id")
+            if let device = devices.first(where: { $0["device_id"] as? String == savedId }) {
+                completion(device, status)
+                return
+            }
+            let body: [String: Any] = [
+                "device_name": UIDevice.current.name,
+                "device_type": "ios",
+                "device_identifier": UIDevice.current.identifierForVendor?.uuidString ?? UUID().uuidString
+            ]
+            apiRequest(URL(string: "https://device-management.petube.workers.dev/devices/register")!, method: "POST", body: body) { status, json in
+                guard status == 200, let device = json as? [String: Any], let deviceId = device["device_id"] as? String else {
+                    completion(nil, status)
+                    return
+                }
+                UserDefaults.standard.set(deviceId, forKey: "pawwatch-device-id")
+                completion(device, status)
+            }
+        }
+    }
+
     func startSession() {
-        guard let jwt = jwt, let user = user, let userId = user["id"] else {
+        guard jwt != nil, user != nil else {
             alertMsg = "User info missing."
             showAlert = true
             return
         }
         isLoading = true
-        let rolePath = (role == .monitor) ? "publisher" : "subscriber"
-        var req = URLRequest(url: URL(string: "https://auth.petube.workers.dev/auth/agora/\(rolePath)/token")!)
-        req.setValue("Bearer \(jwt)", forHTTPHeaderField: "Authorization")
-        URLSession.shared.dataTask(with: req) { data, response, error in
-            DispatchQueue.main.async {
-                isLoading = false
-                if let data = data, let obj = try? JSONSerialization.jsonObject(with: data) as? [String: Any], let token = obj["token"] as? String {
-                    agoraToken = token
-                    channel = String(describing: userId)
-                    uid = "0"
-                    print("[Agora] Starting session. Role: \(self.role.rawValue), Channel: \(self.channel), UID: \(self.uid)")
-                    UserDefaults.standard.set(self.role.rawValue, forKey: "pawwatch-role")
-                    // Connect WebSocket
-                    self.webSocketManager.connect(roomId: self.channel, token: jwt)
-                    let wsRole = self.role == .monitor ? "publisher" : "subscriber"
-                    // A slight delay to ensure the connection is open before sending the role
-                    DispatchQueue.main.asyncAfter(deadline: .now() + 0.5) {
-                        self.webSocketManager.sendRole(wsRole)
+        loadMyDevice { device, status in
+            guard let device = device, let deviceId = device["device_id"] as? String else {
+                sessionFailed(status: status, json: nil, fallback: "Could not load this device.")
+                return
+            }
+            guard let groupId = device["current_group_id"] as? String else {
+                sessionFailed(status: 0, json: nil, fallback: "This device is not in a pairing group yet. Pair it with your other devices first.")
+                return
+            }
+            self.deviceId = deviceId
+            if role == .monitor {
+                // Only the group's designated camera gets a publisher token
+                apiRequest(URL(string: "https://device-management.petube.workers.dev/set-camera")!, method: "POST", body: ["device_id": deviceId]) { status, json in
+                    if status == 200 {
+                        fetchAgoraToken(groupId: groupId, deviceId: deviceId)
+                    } else {
+                        sessionFailed(status: status, json: json, fallback: "This device can't be the camera of its group.")
                     }
-                    agoraManager.setup(appId: self.agoraAppId, token: self.agoraToken, channel: self.channel, uid: self.uid, asHost: self.role == .monitor)
-                    UIApplication.shared.isIdleTimerDisabled = true
-                    self.started = true
-                } else {
-                    self.alertMsg = "Failed to fetch Agora token."
-                    self.showAlert = true
                 }
+            } else {
+                fetchAgoraToken(groupId: groupId, deviceId: deviceId)
             }
-        }.resume()
+        }
+    }
+
+    func fetchAgoraToken(groupId: String, deviceId: String) {
+        let rolePath = (role == .monitor) ? "publisher" : "subscriber"
+        var components = URLComponents(string: "https://auth.petube.workers.dev/auth/agora/\(rolePath)/token")!
+        components.queryItems = [URLQueryItem(name: "group_id", value: groupId), URLQueryItem(name: "device_id", value: deviceId)]
+        apiRequest(components.url!) { status, json in
+            guard status == 200, let obj = json as? [String: Any], let token = obj["token"] as? String,
+                  let tokenChannel = obj["channel"] as? String, let tokenUid = obj["uid"] as? UInt else {
+                // Not a member, a viewer or not the group's camera (403), room full or too many rooms (429),
+                // or the room is closed by its schedule (403)
+                sessionFailed(status: status, json: json, fallback: "Failed to fetch Agora token.")
+                return
+            }
+            isLoading = false
+            agoraToken = token
+            // The channel is the pairing group and the token is bound to this device's uid (agoraUidForDevice)
+            channel = tokenChannel
+            uid = String(tokenUid)
+            print("[Agora] Starting session. Role: \(self.role.rawValue), Channel: \(self.channel), UID: \(self.uid)")
+            UserDefaults.standard.set(self.role.rawValue, forKey: "pawwatch-role")
+            connectRoom()
+            agoraManager.setup(appId: self.agoraAppId, token: self.agoraToken, channel: self.channel, uid: self.uid, asHost: self.role == .monitor)
+            UIApplication.shared.isIdleTimerDisabled = true
+            self.started = true
+        }
+    }
+
+    // Connect to the group's room with the current access token
+    func connectRoom() {
+        guard let jwt = jwt else { return }
+        webSocketManager.connect(roomId: channel, token: jwt, deviceId: deviceId)
+        let wsRole = role == .monitor ? "publisher" : "subscriber"
+        // A slight delay to ensure the connection is open before sending the role
+        DispatchQueue.main.asyncAfter(deadline: .now() + 0.5) {
+            self.webSocketManager.sendRole(wsRole)
+        }
+    }
+
+    // Starting a session failed: only a 401 means the session itself is gone, anything else is shown to the user
+    func sessionFailed(status: Int, json: Any?, fallback: String) {
+        isLoading = false
+        if status == 401 {
+            signOut()
+            return
+        }
+        alertMsg = (json as? [String: Any])?["error"] as? String ?? fallback
+        showAlert = true
     }
     
+    // Revoke the session server-side (or every session with /auth/logout-all), then forget it locally
+    func logout(path: String) {
+        guard jwt != nil else {
+            signOut()
+            return
+        }
+        apiRequest(URL(string: "https://auth.petube.workers.dev\(path)")!, method: "POST") { status, _ in
+            if status != 200 {
+                print("[Auth] Logout request failed with status \(status)")
+            }
+            signOut()
+        }
+    }
+
     func signOut() {
         jwt = nil
         user = nil
         UserDefaults.standard.removeObject(forKey: "pawwatch-jwt")
+        UserDefaults.standard.removeObject(forKey: "pawwatch-refresh-token")
     }
 }
 
@@ -225,8 +416,70 @@ extension ContentView: WebSocketManagerDelegate {
             agoraManager.publish()
         } else if action == "pause" {
             agoraManager.unpublish()
+        } else if action == "usage_cap" {
+            agoraManager.unpublish()
+            if !usageCapNotified {
+                usageCapNotified = true
+                alertMsg = "This account has used up its streaming minutes for the month. The camera is paused."
+                showAlert = true
+            }
+        } else if action == "superseded" {
+            agoraManager.unpublish()
+            alertMsg = "This camera was replaced by a newer connection."
+            showAlert = true
         }
     }
+    
+    func webSocketDidReceiveRoomState(viewerNames: [String], publisherOnline: Bool) {
+        // In the room again: the next drop reconnects quickly
+        reconnectDelay = 3
+        var text: String
+        switch viewerNames.count {
+        case 0: text = "Nobody is watching"
+        case 1: text = "\(viewerNames[0]) is watching"
+        default: text = "\(viewerNames.dropLast().joined(separator: ", ")) and \(viewerNames.last!) are watching"
+        }
+        if !publisherOnline {
+            text += " · camera offline"
+        }
+        presenceText = text
+    }
+    
+    func webSocketDidReceiveCameraCommand(id: String, command: [String: Any]) {
+        let error = agoraManager.runCommand(command)
+        webSocketManager.sendCommandResult(id: id, ok: error == nil, error: error)
+    }
+    
+    func webSocketDidReceiveCommandResult(command: String, ok: Bool, error: String?) {
+        commandStatus = ok ? "\(command): done" : "\(command) failed: \(error ?? "unknown error")"
+    }
+    
+    func webSocketDidReceiveTalkFloor(agoraUid: UInt?) {
+        agoraManager.listenOnly(to: agoraUid)
+    }
+    
+    // The room connection dropped (network, heartbeat timeout...). The access token in the room URL is only checked
+    // when connecting and lasts 15 minutes, so the session is renewed before reconnecting, backing off up to a minute.
+    func webSocketDidDrop() {
+        guard started else { return }
+        print("[WebSocket] Reconnecting in \(reconnectDelay) seconds")
+        DispatchQueue.main.asyncAfter(deadline: .now() + reconnectDelay) {
+            guard started else { return }
+            refreshSession { success in
+                if success {
+                    connectRoom()
+                } else {
+                    webSocketDidDrop()
+                }
+            }
+        }
+        reconnectDelay = min(reconnectDelay * 2, 60)
+    }
+
+    func webSocketDidClose(reason: String) {
+        alertMsg = reason
+        showAlert = true
+    }
 }
 
 class AgoraManager: NSObject, ObservableObject {
@@ -266,6 +519,8 @@ class AgoraManager: NSObject, ObservableObject {
                 videoCanvas.renderMode = .hidden
                 agoraKit?.setupLocalVideo(videoCanvas)
                 print("[Agora] Local video setup complete (host)")
+                // Viewers' audio is only played for the one holding the talk floor
+                agoraKit?.muteAllRemoteAudioStreams(true)
             }
             agoraKit?.joinChannel(byToken: token, channelId: channel, info: nil, uid: uidUInt) { (sid, uid, elapsed) in
                 print("[Agora] Joined channel. SID: \(sid), UID: \(uid), elapsed: \(elapsed)")
@@ -291,6 +546,45 @@ class AgoraManager: NSObject, ObservableObject {
         }
     }
 
+    // Push-to-talk on the camera: play the audio of the viewer holding the talk floor, and nobody else's
+    func listenOnly(to uid: UInt?) {
+        guard let agoraKit = agoraKit, isHost else { return }
+        agoraKit.muteAllRemoteAudioStreams(true)
+        if let uid = uid {
+            agoraKit.muteRemoteAudioStream(uid, mute: false)
+        }
+        print("[Agora] Talk floor: \(uid.map { String($0) } ?? "nobody")")
+    }
+
+    // Run a viewer's remote command on the camera; returns an error message, or nil on success
+    private var isFrontCamera = true
+
+    func runCommand(_ command: [String: Any]) -> String? {
+        guard let agoraKit = agoraKit, isHost else { return "not_streaming" }
+        switch command["name"] as? String {
+        case "switch_camera":
+            let wantsFront = (command["facing"] as? String) == "front"
+            if wantsFront != isFrontCamera {
+                agoraKit.switchCamera()
+                isFrontCamera = wantsFront
+            }
+        case "torch":
+            guard agoraKit.isCameraTorchSupported() else { return "unsupported" }
+            agoraKit.setCameraTorchOn(command["on"] as? Bool ?? false)
+        case "resolution":
+            let sizes: [String: CGSize] = ["360p": CGSize(width: 640, height: 360), "480p": CGSize(width: 854, height: 480), "720p": CGSize(width: 1280, height: 720), "1080p": CGSize(width: 1920, height: 1080)]
+            guard let size = sizes[command["preset"] as? String ?? ""] else { return "unsupported" }
+            agoraKit.setVideoEncoderConfiguration(AgoraVideoEncoderConfiguration(size: size, frameRate: .fps15, bitrate: AgoraVideoBitrateStandard, orientationMode: .adaptative, mirrorMode: .auto))
+        case "mute_mic":
+            agoraKit.muteLocalAudioStream(command["muted"] as? Bool ?? false)
+        case "play_sound":
+            AudioServicesPlaySystemSound(1005)
+        default:
+            return "unsupported"
+        }
+        return nil
+    }
+
     func leaveChannel() {
         agoraKit?.leaveChannel(nil)
         agoraKit?.stopPreview()
@@ -9,37 +9,94 @@ import Foundation
 
 protocol WebSocketManagerDelegate {
     func webSocketDidReceiveCommand(_ action: String)
+    func webSocketDidReceiveRoomState(viewerNames: [String], publisherOnline: Bool)
+    func webSocketDidReceiveCameraCommand(id: String, command: [String: Any])
+    func webSocketDidReceiveCommandResult(command: String, ok: Bool, error: String?)
+    func webSocketDidReceiveTalkFloor(agoraUid: UInt?)
+    func webSocketDidClose(reason: String)
+    func webSocketDidDrop()
 }
 
 class WebSocketManager: NSObject {
     private var webSocketTask: URLSessionWebSocketTask?
+    private var heartbeatTimer: Timer?
     var delegate: WebSocketManagerDelegate?
+    private var intentionalDisconnect = false
+    private var finalClose = false
 
-    func connect(roomId: String, token: String) {
+    // Closes reconnecting can't help with: publisher exists (4000), superseded (4001), not a member (4003),
+    // removed from the group (4004), room full (4029), too many rooms (4030), closed by its schedule (4031),
+    // session logged out (4401)
+    private static let finalCloseCodes = [4000, 4001, 4003, 4004, 4029, 4030, 4031, 4401]
+
+    // roomId is the pairing group id; deviceId says which of the user's devices this is (takeover, talk floor)
+    func connect(roomId: String, token: String, deviceId: String) {
         // Replace with your actual stream-control worker URL
-        let urlString = "wss://stream-control.petube.workers.dev/room/\(roomId)?token=\(token)"
-        guard let url = URL(string:urlString) else {
+        var components = URLComponents(string: "wss://stream-control.petube.workers.dev/room/\(roomId)")
+        components?.queryItems = [URLQueryItem(name: "token", value: token), URLQueryItem(name: "device_id", value: deviceId)]
+        guard let url = components?.url else {
             print("[WebSocket] Invalid URL")
             return
         }
         
+        intentionalDisconnect = false
+        finalClose = false
         let session = URLSession(configuration: .default, delegate: self, delegateQueue: OperationQueue())
         webSocketTask = session.webSocketTask(with: url)
         webSocketTask?.resume()
         
-        print("[WebSocket] Connecting to \(urlString)")
+        print("[WebSocket] Connecting to \(url.absoluteString)")
         listen()
+        startHeartbeat()
+    }
+
+    // Heartbeat, answered by the server without waking the room; silent sockets are evicted after a minute
+    private func startHeartbeat() {
+        heartbeatTimer?.invalidate()
+        let timer = Timer(timeInterval: 20, repeats: true) { [weak self] _ in
+            self?.webSocketTask?.send(.string("{\"type\":\"ping\"}")) { error in
+                if let error = error {
+                    print("[WebSocket] Error sending heartbeat: \(error.localizedDescription)")
+                }
+            }
+        }
+        RunLoop.main.add(timer, forMode: .common)
+        heartbeatTimer = timer
     }
 
+    // Room protocol version, see cloudflare/shared/src/room-protocol.ts
+    static let protocolVersion = 3
+    private var commandCounter = 0
+
     func sendRole(_ role: String) {
-        let payload = ["type": "role", "role": role]
+        // Say hello first so the server speaks our protocol version, then pick the role
+        send(["type": "hello", "protocol_version": WebSocketManager.protocolVersion])
+        send(["type": "role", "role": role, "id": "role-\(Int(Date().timeIntervalSince1970 * 1000))"])
+    }
+
+    // Viewer: ask the camera to run a command, e.g. ["name": "torch", "on": true]
+    func sendCommand(_ command: [String: Any]) {
+        commandCounter += 1
+        send(["type": "command", "id": "cmd-\(commandCounter)", "command": command])
+    }
+
+    // Camera: report the outcome of a command relayed by the room
+    func sendCommandResult(id: String, ok: Bool, error: String?) {
+        var payload: [String: Any] = ["type": "command_result", "id": id, "ok": ok]
+        if let error = error {
+            payload["error"] = error
+        }
+        send(payload)
+    }
+
+    private func send(_ payload: [String: Any]) {
         guard let jsonData = try? JSONSerialization.data(withJSONObject: payload),
               let jsonString = String(data: jsonData, encoding: .utf8) else {
-            print("[WebSocket] Failed to serialize role message")
+            print("[WebSocket] Failed to serialize message")
             return
         }
         
-        print("[WebSocket] Sending role: \(jsonString)")
+        print("[WebSocket] Sending: \(jsonString)")
         webSocketTask?.send(.string(jsonString)) { error in
             if let error = error {
                 print("[WebSocket] Error sending message: \(error.localizedDescription)")
@@ -72,18 +129,53 @@ class WebSocketManager: NSObject {
     private func handleMessage(_ jsonString: String) {
         guard let data = jsonString.data(using: .utf8),
               let json = try? JSONSerialization.jsonObject(with: data) as? [String: Any],
-              let type = json["type"] as? String, type == "control",
-              let action = json["action"] as? String else {
+              let type = json["type"] as? String else {
             return
         }
         
-        DispatchQueue.main.async {
-            self.delegate?.webSocketDidReceiveCommand(action)
+        if type == "room_state" {
+            // Who is in the room: publisher online/offline and the viewers in join order
+            let viewers = json["viewers"] as? [[String: Any]] ?? []
+            let viewerNames = viewers.map { $0["name"] as? String ?? "Someone" }
+            let publisherOnline = (json["publisher"] as? [String: Any])?["online"] as? Bool ?? false
+            DispatchQueue.main.async {
+                self.delegate?.webSocketDidReceiveRoomState(viewerNames: viewerNames, publisherOnline: publisherOnline)
+            }
+        } else if type == "command", let id = json["id"] as? String, let command = json["command"] as? [String: Any] {
+            DispatchQueue.main.async {
+                self.delegate?.webSocketDidReceiveCameraCommand(id: id, command: command)
+            }
+        } else if type == "command_result", let command = json["command"] as? String {
+            let ok = json["ok"] as? Bool ?? false
+            let error = json["error"] as? String
+            DispatchQueue.main.async {
+                self.delegate?.webSocketDidReceiveCommandResult(command: command, ok: ok, error: error)
+            }
+        } else if type == "talk_floor" {
+            // Camera: the viewer holding the talk floor, whose audio to play (nil: nobody's)
+            let agoraUid = (json["talker"] as? [String: Any])?["agora_uid"] as? UInt
+            DispatchQueue.main.async {
+                self.delegate?.webSocketDidReceiveTalkFloor(agoraUid: agoraUid)
+            }
+        } else if type == "superseded" {
+            // Another connection of this camera took over publishing; the server closes this socket
+            DispatchQueue.main.async {
+                self.delegate?.webSocketDidReceiveCommand("superseded")
+            }
+        } else if type == "control", let action = json["action"] as? String {
+            // A pause because the account used up its monthly streaming minutes is reported as "usage_cap"
+            let command = (json["reason"] as? String) == "usage_cap" ? "usage_cap" : action
+            DispatchQueue.main.async {
+                self.delegate?.webSocketDidReceiveCommand(command)
+            }
         }
     }
 
     func disconnect() {
         print("[WebSocket] Disconnecting")
+        intentionalDisconnect = true
+        heartbeatTimer?.invalidate()
+        heartbeatTimer = nil
         webSocketTask?.cancel(with: .goingAway, reason: nil)
     }
 }
@@ -95,5 +187,26 @@ extension WebSocketManager: URLSessionWebSocketDelegate {
     
     func urlSession(_ session: URLSession, webSocketTask: URLSessionWebSocketTask, didCloseWith closeCode: URLSessionWebSocketTask.CloseCode, reason: Data?) {
         print("[WebSocket] Connection closed")
+        if WebSocketManager.finalCloseCodes.contains(closeCode.rawValue) {
+            finalClose = true
+        }
+        // Room full (4029), too many rooms for this account (4030), closed by its schedule (4031), removed from the group (4004)
+        // or session logged out (4401): the reason is meant for the user
+        if [4004, 4029, 4030, 4031, 4401].contains(closeCode.rawValue) {
+            let text = reason.flatMap { String(data: $0, encoding: .utf8) } ?? "Room is full"
+            DispatchQueue.main.async {
+                self.delegate?.webSocketDidClose(reason: text)
+            }
+        }
     }
-} 
+
+    // Called once the connection is over, however it ended: unless we closed it or the server said not to come back,
+    // let the delegate reconnect (with a renewed access token)
+    func urlSession(_ session: URLSession, task: URLSessionTask, didCompleteWithError error: Error?) {
+        guard task === webSocketTask, !intentionalDisconnect, !finalClose else { return }
+        print("[WebSocket] Connection dropped: \(String(describing: error))")
+        DispatchQueue.main.async {
+            self.delegate?.webSocketDidDrop()
+        }
+    }
+}